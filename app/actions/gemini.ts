@@ -1,7 +1,10 @@
 'use server';
 
-import { generateTopics as generateTopicsService, generateFullPost as generateFullPostService, generateCoverImage as generateCoverImageService, generateAndPublishAutoPost as generateAndPublishAutoPostService, generateTrainingModule as generateTrainingModuleService } from '@/lib/geminiService';
-import { BlogPost, GeneratedTopic, TrainingModule } from '@/types';
+import { generateTopics as generateTopicsService, generateFullPost as generateFullPostService, generateCoverImage as generateCoverImageService, generateAndPublishAutoPost as generateAndPublishAutoPostService, generateTrainingModule as generateTrainingModuleService, generateSeriesPlan } from '@/lib/geminiService';
+import { categoryRepository } from '@/lib/repositories';
+import { createSeriesFromPlan, draftSeriesPart as draftSeriesPartService } from '@/lib/series';
+import { slugify } from '@/lib/slugify';
+import { BlogPost, GeneratedTopic, Series, SeriesPlan, TrainingModule } from '@/types';
 
 export async function generateTopics(niche: string, trainingContext?: string, count: number = 3): Promise<GeneratedTopic[]> {
     try {
@@ -14,13 +17,42 @@ export async function generateTopics(niche: string, trainingContext?: string, co
 
 export async function generateFullPost(topic: string, tone: string, trainingContext?: string): Promise<Partial<BlogPost>> {
     try {
-        return await generateFullPostService(topic, tone, trainingContext);
+        const categories = await categoryRepository.findAll();
+        return await generateFullPostService(topic, tone, trainingContext, categories.map(category => category.name));
     } catch (error) {
         console.error("Server Action Error (generateFullPost):", error);
         throw new Error("Failed to generate full post.");
     }
 }
 
+export async function planSeries(niche: string, partCount: number, trainingContext?: string): Promise<SeriesPlan> {
+    try {
+        return await generateSeriesPlan(niche, partCount, trainingContext);
+    } catch (error) {
+        console.error("Server Action Error (planSeries):", error);
+        throw new Error("Failed to plan the series.");
+    }
+}
+
+export async function createSeries(plan: SeriesPlan): Promise<Series> {
+    try {
+        return await createSeriesFromPlan(plan);
+    } catch (error) {
+        console.error("Server Action Error (createSeries):", error);
+        throw new Error("Failed to create the series.");
+    }
+}
+
+// One part per call, the client drafts the parts in order and shows progress
+export async function draftSeriesPart(seriesId: string, plan: SeriesPlan, index: number, tone: string, trainingContext?: string): Promise<BlogPost> {
+    try {
+        return await draftSeriesPartService(seriesId, plan, index, tone, trainingContext);
+    } catch (error) {
+        console.error("Server Action Error (draftSeriesPart):", error);
+        throw new Error(`Failed to draft part ${index + 1} of the series.`);
+    }
+}
+
 export async function generateCoverImage(topic: string): Promise<string> {
     try {
         return await generateCoverImageService(topic);
@@ -77,11 +109,7 @@ export async function generateAndStoreCoverImage(topic: string, isRawPrompt: boo
             // 2. Prepare for upload
             let filename = customFilename;
             if (!filename) {
-                const slug = topic
-                    .toLowerCase()
-                    .replace(/[^a-z0-9]+/g, '-')
-                    .replace(/(^-|-$)/g, '')
-                    .substring(0, 50);
+                const slug = slugify(topic).substring(0, 50).replace(/-+$/g, '');
                 const timestamp = Math.floor(Date.now() / 1000);
                 filename = `${slug || 'ai-image'}-${timestamp}.jpg`;
             }
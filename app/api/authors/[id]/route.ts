@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { authorRepository } from '@/lib/repositories';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        const author = await authorRepository.findById(id);
+        if (!author) {
+            return NextResponse.json({ error: 'Author not found' }, { status: 404 });
+        }
+        return NextResponse.json(author);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// Their posts stay, credited to the site again
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        console.log('API: Deleting author', id);
+        const deleted = await authorRepository.delete(id);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Author not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { authorRepository } from '@/lib/repositories';
+import { slugify } from '@/lib/slugify';
+import { authorSchema, parseRequestBody, validationErrorResponse } from '@/lib/validation';
+
+export async function GET() {
+    try {
+        return NextResponse.json(await authorRepository.findAll());
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// Creates or updates an author. An empty slug is derived from the name.
+export async function POST(request: Request) {
+    try {
+        const { data, response } = await parseRequestBody(request, authorSchema);
+        if (response) return response;
+
+        const author = { ...data, slug: data.slug || slugify(data.name) };
+        if (!author.slug) {
+            return validationErrorResponse([{ field: 'slug', message: 'could not be derived from the name, enter one' }]);
+        }
+        // Author pages live at /blog/author/<slug>, unlike posts they are not renamed automatically
+        if (await authorRepository.isSlugTaken(author.slug, author.id)) {
+            return validationErrorResponse([{ field: 'slug', message: 'is already used by another author' }]);
+        }
+        console.log('API: Saving author', author.id, 'with slug:', author.slug);
+
+        await authorRepository.save(author);
+        return NextResponse.json(await authorRepository.findById(author.id));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
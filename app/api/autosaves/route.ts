@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { findUnsavedAutosave } from '@/lib/autosaves';
+import { validationErrorResponse } from '@/lib/validation';
+
+// GET /api/autosaves?topic=... finds the unsaved post last written for a topic,
+// so reopening the editor on it picks up where it left off.
+export async function GET(request: Request) {
+    try {
+        const topic = new URL(request.url).searchParams.get('topic');
+        if (!topic) {
+            return validationErrorResponse([{ field: 'topic', message: 'is required' }]);
+        }
+
+        const autosave = await findUnsavedAutosave(topic);
+        if (!autosave) {
+            return NextResponse.json({ error: 'Autosave not found' }, { status: 404 });
+        }
+        return NextResponse.json(autosave);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
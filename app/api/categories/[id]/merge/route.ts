@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { categoryRepository } from '@/lib/repositories';
+import { checkCategoryMerge, mergeCategories } from '@/lib/taxonomy';
+import { parseRequestBody, taxonomyMergeSchema, validationErrorResponse } from '@/lib/validation';
+
+// Moves the category's posts and nested categories to { targetId } and deletes it
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        const { data, response } = await parseRequestBody(request, taxonomyMergeSchema);
+        if (response) return response;
+
+        if (!(await categoryRepository.findById(id))) {
+            return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+        }
+        const errors = await checkCategoryMerge(id, data.targetId);
+        if (errors.length > 0) return validationErrorResponse(errors);
+
+        console.log('API: Merging category', id, 'into', data.targetId);
+        return NextResponse.json(await mergeCategories(id, data.targetId));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
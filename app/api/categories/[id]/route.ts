@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { categoryRepository } from '@/lib/repositories';
+import { deleteCategory } from '@/lib/taxonomy';
+
+// Nested categories move up a level. Categories that still have posts are
+// refused, merge them into another one instead.
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        const category = (await categoryRepository.findAll()).find(candidate => candidate.id === id);
+        if (!category) {
+            return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+        }
+        if (category.postCount) {
+            return NextResponse.json(
+                { error: `${category.name} still has ${category.postCount} posts, merge it into another category instead` },
+                { status: 409 }
+            );
+        }
+
+        console.log('API: Deleting category', id);
+        await deleteCategory(id);
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { categoryRepository } from '@/lib/repositories';
+import { checkCategory, saveCategory } from '@/lib/taxonomy';
+import { categorySchema, parseRequestBody, validationErrorResponse } from '@/lib/validation';
+
+export async function GET() {
+    try {
+        return NextResponse.json(await categoryRepository.findAll());
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// Creates or updates a category. Renaming it renames it on its posts too.
+export async function POST(request: Request) {
+    try {
+        const { data, response } = await parseRequestBody(request, categorySchema);
+        if (response) return response;
+
+        const errors = await checkCategory(data);
+        if (errors.length > 0) return validationErrorResponse(errors);
+        console.log('API: Saving category', data.id, 'named:', data.name);
+
+        const category = await saveCategory(data);
+        if (!category) {
+            return validationErrorResponse([{ field: 'name', message: 'is already used by another category' }]);
+        }
+        return NextResponse.json(category);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
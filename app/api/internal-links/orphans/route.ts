@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { findOrphanPosts } from '@/lib/internalLinks';
+
+// Published posts no other published post links to
+export async function GET() {
+    try {
+        return NextResponse.json(await findOrphanPosts());
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { suggestInternalLinks } from '@/lib/internalLinks';
+import { internalLinkRequestSchema, parseRequestBody } from '@/lib/validation';
+
+// Suggests published posts to link to from the post in the body, which is
+// taken as it is in the editor rather than as last saved
+export async function POST(request: Request) {
+    try {
+        const { data, response } = await parseRequestBody(request, internalLinkRequestSchema);
+        if (response) return response;
+
+        return NextResponse.json(await suggestInternalLinks(data));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { enqueueLinkAudit, getLinkAuditOverview } from '@/lib/linkChecker';
+import { linkAuditRequestSchema, parseRequestBody } from '@/lib/validation';
+
+// Totals of the last audit, every broken URL with the post it is in, and the
+// most recently requested run
+export async function GET() {
+    try {
+        const overview = await getLinkAuditOverview();
+        console.log('API: Fetched link audit overview,', overview.broken.length, 'broken');
+        return NextResponse.json(overview);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// Queues an audit of `postIds`, or of every post when the body is `{}`. The
+// scheduler tick runs it, the response is the queued run.
+export async function POST(request: Request) {
+    const { data, response } = await parseRequestBody(request, linkAuditRequestSchema);
+    if (response) return response;
+
+    try {
+        const run = await enqueueLinkAudit(data.postIds);
+        return NextResponse.json(run, { status: 202 });
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
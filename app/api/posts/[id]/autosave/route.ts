@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { deleteAutosave, getAutosave, saveAutosave } from '@/lib/autosaves';
+import { parseRequestBody, postAutosaveSchema } from '@/lib/validation';
+
+// Unsaved editor state for a post. The post itself doesn't need to exist yet.
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        const autosave = await getAutosave(id);
+        if (!autosave) {
+            return NextResponse.json({ error: 'Autosave not found' }, { status: 404 });
+        }
+        return NextResponse.json(autosave);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+export async function PUT(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        const { data, response } = await parseRequestBody(request, postAutosaveSchema);
+        if (response) return response;
+
+        return NextResponse.json(await saveAutosave({ postId: id, topic: data.topic, post: data.post }));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        await deleteAutosave(id);
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
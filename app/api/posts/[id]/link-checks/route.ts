@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getPostLinkReport } from '@/lib/linkChecker';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        const report = await getPostLinkReport(id);
+        if (!report) {
+            return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+        }
+        return NextResponse.json(report);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
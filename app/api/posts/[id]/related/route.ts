@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_RELATED_POSTS, MAX_RELATED_POSTS, getRelatedPosts } from '@/lib/relatedPosts';
+import { postRepository } from '@/lib/repositories';
+import { validationErrorResponse } from '@/lib/validation';
+
+// Published posts related to this one, best first. `limit` defaults to
+// DEFAULT_RELATED_POSTS and goes up to MAX_RELATED_POSTS.
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    const limit = Number(new URL(request.url).searchParams.get('limit') || DEFAULT_RELATED_POSTS);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RELATED_POSTS) {
+        return validationErrorResponse([{ field: 'limit', message: `must be an integer between 1 and ${MAX_RELATED_POSTS}` }]);
+    }
+
+    try {
+        const post = await postRepository.findById(id);
+        if (!post) {
+            return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+        }
+
+        const related = await getRelatedPosts(post, limit);
+        console.log('API: Fetched related posts for', id, related.length);
+        return NextResponse.json(related);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
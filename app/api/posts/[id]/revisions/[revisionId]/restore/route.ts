@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { savePost, PostConflictError, PostTrashedError } from '@/lib/posts';
+import { postRepository } from '@/lib/repositories';
+import { getRevision, applyRevision } from '@/lib/revisions';
+
+// Restoring saves the old content as a new revision, history is never rewritten
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+    const { id, revisionId } = await params;
+    try {
+        const [current, revision] = await Promise.all([postRepository.findById(id), getRevision(id, Number(revisionId))]);
+        if (!current || current.deletedAt) {
+            return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+        }
+        if (!revision?.post) {
+            return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+        }
+
+        console.log('API: Restoring post', id, 'to revision', revision.id);
+        const restored = await savePost(applyRevision(current, revision.post), { reason: 'restore', restoredFromId: revision.id });
+        return NextResponse.json(restored);
+    } catch (error: any) {
+        if (error instanceof PostConflictError) {
+            return NextResponse.json({ error: error.message, current: error.current }, { status: 409 });
+        }
+        if (error instanceof PostTrashedError) {
+            return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getRevision } from '@/lib/revisions';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+    const { id, revisionId } = await params;
+    try {
+        const revision = await getRevision(id, Number(revisionId));
+        if (!revision) {
+            return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+        }
+        return NextResponse.json(revision);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { listRevisions } from '@/lib/revisions';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        return NextResponse.json(await listRevisions(id));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
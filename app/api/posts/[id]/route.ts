@@ -1,19 +1,79 @@
 import { NextResponse } from 'next/server';
-import pool from '@/lib/db';
-import { ResultSetHeader } from 'mysql2';
+import { updatePost } from '@/lib/posts';
+import { authorRepository, postRepository } from '@/lib/repositories';
+import { invalidateRelatedPosts } from '@/lib/relatedPosts';
+import { parseRequestBody, postPatchSchema, validationErrorResponse } from '@/lib/validation';
 
-export async function DELETE(
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        const post = await postRepository.findById(id);
+        if (!post) {
+            return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+        }
+        return NextResponse.json(post);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// Partial update: only the fields present in the body are written
+export async function PATCH(
     request: Request,
     { params }: { params: Promise<{ id: string }> }
 ) {
     const id = (await params).id;
     try {
-        console.log('API: Deleting post', id);
-        const [result] = await pool.query<ResultSetHeader>('DELETE FROM posts WHERE id = ?', [id]);
+        const { data, response } = await parseRequestBody(request, postPatchSchema, { partial: true });
+        if (response) return response;
+
+        // Trashed posts have to be restored before they can be edited
+        const existing = await postRepository.findById(id);
+        if (!existing || existing.deletedAt) {
+            return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+        }
+
+        const patch = { ...data };
+        if (patch.status === 'scheduled' && !(patch.scheduledDate ?? existing.scheduledDate)) {
+            return validationErrorResponse([{ field: 'scheduledDate', message: 'is required when status is scheduled' }]);
+        }
+        if (patch.authorId && !(await authorRepository.findById(patch.authorId))) {
+            return validationErrorResponse([{ field: 'authorId', message: 'does not match an author' }]);
+        }
+        // A scheduled date only means something while the post is scheduled
+        if (patch.status && patch.status !== 'scheduled' && !('scheduledDate' in patch)) {
+            patch.scheduledDate = null;
+        }
+
+        console.log('API: Patching post', id, Object.keys(patch));
+        if (!(await updatePost(id, patch))) {
+            return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(await postRepository.findById(id));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
 
-        if (result.affectedRows === 0) {
+// Moves the post to the trash, /api/trash restores or purges it
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        console.log('API: Moving post to trash', id);
+        const trashed = await postRepository.trash(id, new Date());
+        if (!trashed) {
             return NextResponse.json({ error: 'Post not found' }, { status: 404 });
         }
+        await invalidateRelatedPosts();
 
         return NextResponse.json({ success: true });
     } catch (error: any) {
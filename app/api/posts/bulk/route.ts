@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { bulkUpdatePosts } from '@/lib/posts';
+import { bulkPostSchema, FieldError, parseRequestBody, validationErrorResponse } from '@/lib/validation';
+
+// Applies one action to many posts, e.g.
+//   { "ids": ["1", "2"], "action": "schedule", "startAt": "2026-01-01T09:00:00Z", "intervalMinutes": 1440 }
+// Responds with the updated posts and, per post, why it was skipped.
+export async function POST(request: Request) {
+    try {
+        const { data, response } = await parseRequestBody(request, bulkPostSchema);
+        if (response) return response;
+
+        const errors: FieldError[] = [];
+        if (data.action === 'setCategory' && !data.category) {
+            errors.push({ field: 'category', message: 'is required for setCategory' });
+        }
+        if ((data.action === 'addKeywords' || data.action === 'removeKeywords') && !data.keywords?.length) {
+            errors.push({ field: 'keywords', message: `is required for ${data.action}` });
+        }
+        if (data.action === 'schedule' && !data.startAt) {
+            errors.push({ field: 'startAt', message: 'is required for schedule' });
+        }
+        if (errors.length > 0) return validationErrorResponse(errors);
+
+        console.log('API: Bulk', data.action, 'on', data.ids.length, 'posts');
+        return NextResponse.json(await bulkUpdatePosts(data));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
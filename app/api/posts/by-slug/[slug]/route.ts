@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { postRepository } from '@/lib/repositories';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ slug: string }> }
+) {
+    const slug = decodeURIComponent((await params).slug);
+    try {
+        const post = await postRepository.findBySlug(slug);
+        if (!post) {
+            return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+        }
+        return NextResponse.json(post);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
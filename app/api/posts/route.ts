@@ -1,23 +1,62 @@
 import { NextResponse } from 'next/server';
-import pool from '@/lib/db';
-import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { savePost, MAX_PAGE_SIZE, PostConflictError, PostTrashedError } from '@/lib/posts';
+import { authorRepository, postRepository, PostQuery } from '@/lib/repositories';
+import { blogPostSchema, parseRequestBody, validationErrorResponse, FieldError, POST_STATUSES } from '@/lib/validation';
+import { BlogPost } from '@/types';
+
+// Query parameters (all optional):
+//   status, category, keyword    exact filters
+//   tag                          tag slug, also matches other spellings of the tag
+//   from, to                     dateCreated range (inclusive)
+//   q                            free-text search over title, excerpt and content
+//   limit, offset                pagination, limit is capped at MAX_PAGE_SIZE
+//   fields=summary               leave out the post content
+// The response stays a plain array, the unpaginated total is sent in X-Total-Count.
+export async function GET(request: Request) {
+    const params = new URL(request.url).searchParams;
+    const query: PostQuery = {
+        category: params.get('category') || undefined,
+        keyword: params.get('keyword') || undefined,
+        tag: params.get('tag') || undefined,
+        from: params.get('from') || undefined,
+        to: params.get('to') || undefined,
+        q: params.get('q')?.trim() || undefined,
+        summary: params.get('fields') === 'summary'
+    };
+
+    const errors: FieldError[] = [];
+
+    const status = params.get('status');
+    if (status) {
+        if (POST_STATUSES.includes(status as BlogPost['status'])) {
+            query.status = status as BlogPost['status'];
+        } else {
+            errors.push({ field: 'status', message: `must be one of ${POST_STATUSES.join(', ')}` });
+        }
+    }
+
+    for (const key of ['from', 'to'] as const) {
+        if (query[key] && isNaN(new Date(query[key]).getTime())) {
+            errors.push({ field: key, message: 'must be a date' });
+        }
+    }
+
+    if (params.has('limit') || params.has('offset')) {
+        const limit = Number(params.get('limit') || MAX_PAGE_SIZE);
+        const offset = Number(params.get('offset') || 0);
+        if (!Number.isInteger(limit) || limit < 1) errors.push({ field: 'limit', message: 'must be a positive integer' });
+        if (!Number.isInteger(offset) || offset < 0) errors.push({ field: 'offset', message: 'must be a non-negative integer' });
+        query.limit = Math.min(limit, MAX_PAGE_SIZE);
+        query.offset = offset;
+    }
+
+    if (errors.length > 0) return validationErrorResponse(errors);
 
-export async function GET() {
     try {
-        const [rows] = await pool.query<RowDataPacket[]>('SELECT * FROM posts ORDER BY dateCreated DESC');
-        console.log('API: Fetched posts', rows.length);
-
-        // Parse JSON fields
-        const posts = rows.map(post => ({
-            ...post,
-            keywords: post.keywords ? JSON.parse(post.keywords) : [],
-            aeoQuestions: typeof post.aeoQuestions === 'string' ? JSON.parse(post.aeoQuestions) : (post.aeoQuestions || []),
-            steps: post.steps ? JSON.parse(post.steps) : [],
-            commercialIntent: Boolean(post.commercialIntent),
-            isHowTo: Boolean(post.isHowTo)
-        }));
-
-        return NextResponse.json(posts);
+        const { posts, total } = await postRepository.query(query);
+        console.log('API: Fetched posts', posts.length, 'of', total);
+
+        return NextResponse.json(posts, { headers: { 'X-Total-Count': String(total) } });
     } catch (error: any) {
         console.error('API Error:', error);
         return NextResponse.json({ error: error.message }, { status: 500 });
@@ -26,36 +65,27 @@ export async function GET() {
 
 export async function POST(request: Request) {
     try {
-        const post = await request.json();
+        const { data: post, response } = await parseRequestBody(request, blogPostSchema);
+        if (response) return response;
+        if (post.status === 'scheduled' && !post.scheduledDate) {
+            return validationErrorResponse([{ field: 'scheduledDate', message: 'is required when status is scheduled' }]);
+        }
+        if (post.authorId && !(await authorRepository.findById(post.authorId))) {
+            return validationErrorResponse([{ field: 'authorId', message: 'does not match an author' }]);
+        }
         console.log('API: Saving post', post.id, 'with slug:', post.slug);
 
-        const [result] = await pool.query<ResultSetHeader>(
-            `INSERT INTO posts (
-                id, slug, title, excerpt, content, keywords, category, dateCreated, 
-                status, readTime, coverImage, geoTargeting, seoScore, aeoQuestions,
-                commercialIntent, isHowTo, steps, scheduledDate
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) 
-            ON DUPLICATE KEY UPDATE 
-                slug=?, title=?, excerpt=?, content=?, keywords=?, category=?, 
-                status=?, readTime=?, coverImage=?, geoTargeting=?, seoScore=?, 
-                aeoQuestions=?, commercialIntent=?, isHowTo=?, steps=?, scheduledDate=?`,
-            [
-                // INSERT values
-                post.id, post.slug, post.title, post.excerpt, post.content, JSON.stringify(post.keywords), post.category,
-                new Date(post.dateCreated), post.status, post.readTime, post.coverImage, post.geoTargeting, post.seoScore,
-                JSON.stringify(post.aeoQuestions), post.commercialIntent ? 1 : 0, post.isHowTo ? 1 : 0,
-                JSON.stringify(post.steps || []), post.scheduledDate || null,
-
-                // UPDATE values
-                post.slug, post.title, post.excerpt, post.content, JSON.stringify(post.keywords), post.category,
-                post.status, post.readTime, post.coverImage, post.geoTargeting, post.seoScore,
-                JSON.stringify(post.aeoQuestions), post.commercialIntent ? 1 : 0, post.isHowTo ? 1 : 0,
-                JSON.stringify(post.steps || []), post.scheduledDate || null
-            ]
-        );
-
-        return NextResponse.json({ success: true, insertId: result.insertId });
+        // Slug may come back de-duplicated, so hand the stored post back to the client
+        const saved = await savePost(post);
+        return NextResponse.json(saved);
     } catch (error: any) {
+        // The client shows what changed and saves again with the current version to overwrite
+        if (error instanceof PostConflictError) {
+            return NextResponse.json({ error: error.message, current: error.current }, { status: 409 });
+        }
+        if (error instanceof PostTrashedError) {
+            return NextResponse.json({ error: error.message }, { status: 404 });
+        }
         console.error('API Error:', error);
         return NextResponse.json({ error: error.message }, { status: 500 });
     }
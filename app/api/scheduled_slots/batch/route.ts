@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { syncScheduledSlots } from '@/lib/sync';
+import { parseChangeSet, scheduledSlotSchema } from '@/lib/validation';
+
+// Saves and deletes scheduled slots in one transaction and responds with every
+// slot as stored afterwards. Slots the publisher has claimed or published keep
+// their status, see SlotRepository.save.
+export async function POST(request: Request) {
+    try {
+        const { data: changes, response } = await parseChangeSet(request, scheduledSlotSchema);
+        if (response) return response;
+        console.log('API: Syncing scheduled slots', changes.created.length, 'created,', changes.updated.length, 'updated,', changes.deleted.length, 'deleted');
+
+        return NextResponse.json(await syncScheduledSlots(changes));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
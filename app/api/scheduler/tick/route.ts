@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { runSchedulerTick } from '@/lib/scheduler';
+import { runPublishTick } from '@/lib/publisher';
+import { purgeExpiredTrash } from '@/lib/posts';
+import { runQueuedLinkAudit } from '@/lib/linkChecker';
+import { cacheMissingRelatedPosts, indexMissingPostTerms } from '@/lib/relatedPosts';
+import { validationErrorResponse } from '@/lib/validation';
+
+// Driven by an external cron, e.g.:
+//   * * * * * curl -X POST -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/scheduler/tick
+export async function POST(request: Request) {
+    const secret = process.env.CRON_SECRET;
+    if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limitParam = new URL(request.url).searchParams.get('limit');
+    const limit = limitParam ? Number(limitParam) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        return validationErrorResponse([{ field: 'limit', message: 'must be a positive integer' }]);
+    }
+
+    try {
+        // Publish first so due content goes out on time even if topic generation is slow
+        const publish = await runPublishTick();
+        const schedule = await runSchedulerTick(limit);
+        const trashPurged = await purgeExpiredTrash();
+        const postsIndexed = await indexMissingPostTerms();
+        const relatedPostsCached = await cacheMissingRelatedPosts();
+        // Last, an audit makes a request per URL and can take a while
+        const linkAudit = await runQueuedLinkAudit();
+        return NextResponse.json({
+            success: true,
+            ...publish,
+            ...schedule,
+            trashPurged,
+            postsIndexed,
+            relatedPostsCached,
+            linkAudit,
+            errors: [...publish.errors, ...schedule.errors]
+        });
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
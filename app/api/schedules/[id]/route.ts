@@ -1,6 +1,5 @@
 import { NextResponse } from 'next/server';
-import pool from '@/lib/db';
-import { ResultSetHeader } from 'mysql2';
+import { scheduleRepository } from '@/lib/repositories';
 
 export async function DELETE(
     request: Request,
@@ -8,7 +7,7 @@ export async function DELETE(
 ) {
     const id = (await params).id;
     try {
-        await pool.query<ResultSetHeader>('DELETE FROM schedules WHERE id = ?', [id]);
+        await scheduleRepository.delete(id);
         return NextResponse.json({ success: true });
     } catch (error: any) {
         console.error('API Error:', error);
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { syncSchedules } from '@/lib/sync';
+import { FieldError, hasValidDateRange, nicheScheduleSchema, parseChangeSet, validationErrorResponse } from '@/lib/validation';
+
+// Saves and deletes schedules in one transaction, e.g.
+//   { "created": [...], "updated": [...], "deleted": ["1700000000000"] }
+// Responds with every schedule as stored afterwards.
+export async function POST(request: Request) {
+    try {
+        const { data: changes, response } = await parseChangeSet(request, nicheScheduleSchema);
+        if (response) return response;
+
+        const errors: FieldError[] = [];
+        for (const field of ['created', 'updated'] as const) {
+            changes[field].forEach((schedule, index) => {
+                if (!hasValidDateRange(schedule)) errors.push({ field: `${field}[${index}].endDate`, message: 'must not be before startDate' });
+            });
+        }
+        if (errors.length > 0) return validationErrorResponse(errors);
+
+        console.log('API: Syncing schedules', changes.created.length, 'created,', changes.updated.length, 'updated,', changes.deleted.length, 'deleted');
+        return NextResponse.json(await syncSchedules(changes));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -1,11 +1,10 @@
 import { NextResponse } from 'next/server';
-import pool from '@/lib/db';
-import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { scheduleRepository } from '@/lib/repositories';
+import { hasValidDateRange, nicheScheduleSchema, parseRequestBody, validationErrorResponse } from '@/lib/validation';
 
 export async function GET() {
     try {
-        const [rows] = await pool.query<RowDataPacket[]>('SELECT * FROM schedules');
-        return NextResponse.json(rows);
+        return NextResponse.json(await scheduleRepository.findAll());
     } catch (error: any) {
         console.error('API Error:', error);
         return NextResponse.json({ error: error.message }, { status: 500 });
@@ -14,13 +13,14 @@ export async function GET() {
 
 export async function POST(request: Request) {
     try {
-        const schedule = await request.json();
+        const { data: schedule, response } = await parseRequestBody(request, nicheScheduleSchema);
+        if (response) return response;
+        if (!hasValidDateRange(schedule)) {
+            return validationErrorResponse([{ field: 'endDate', message: 'must not be before startDate' }]);
+        }
         console.log('API: Saving schedule', schedule.id);
 
-        await pool.query(
-            'INSERT INTO schedules (id, niche, startDate, endDate, launchTime, suggestionCount) VALUES (?, ?, ?, ?, ?, ?) ON DUPLICATE KEY UPDATE niche=?, startDate=?, endDate=?, launchTime=?, suggestionCount=?',
-            [schedule.id, schedule.niche, schedule.startDate, schedule.endDate, schedule.launchTime, schedule.suggestionCount || 5, schedule.niche, schedule.startDate, schedule.endDate, schedule.launchTime, schedule.suggestionCount || 5]
-        );
+        await scheduleRepository.save(schedule);
 
         return NextResponse.json({ success: true });
     } catch (error: any) {
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { postRepository, seriesRepository } from '@/lib/repositories';
+import { FieldError, parseRequestBody, seriesPostsSchema, validationErrorResponse } from '@/lib/validation';
+
+// Replaces the parts of a series with these posts, in this order. Posts taken
+// out of the series become standalone posts again.
+export async function PUT(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        const { data, response } = await parseRequestBody(request, seriesPostsSchema);
+        if (response) return response;
+
+        if (!(await seriesRepository.findById(id))) {
+            return NextResponse.json({ error: 'Series not found' }, { status: 404 });
+        }
+
+        const errors: FieldError[] = [];
+        for (const [index, postId] of data.postIds.entries()) {
+            const post = await postRepository.findById(postId);
+            if (!post) errors.push({ field: `postIds[${index}]`, message: 'must be an existing post' });
+            else if (post.deletedAt) errors.push({ field: `postIds[${index}]`, message: 'must not be in the trash' });
+        }
+        if (errors.length > 0) return validationErrorResponse(errors);
+
+        console.log('API: Setting', data.postIds.length, 'parts of series', id);
+        await seriesRepository.setPosts(id, data.postIds);
+        return NextResponse.json(await seriesRepository.findById(id));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
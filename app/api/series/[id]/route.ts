@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { seriesRepository } from '@/lib/repositories';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        const series = await seriesRepository.findById(id);
+        if (!series) {
+            return NextResponse.json({ error: 'Series not found' }, { status: 404 });
+        }
+        return NextResponse.json(series);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// Its posts stay, as standalone posts
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        console.log('API: Deleting series', id);
+        const deleted = await seriesRepository.delete(id);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Series not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { seriesRepository } from '@/lib/repositories';
+import { getUniqueSeriesSlug } from '@/lib/series';
+import { parseRequestBody, seriesSchema, validationErrorResponse } from '@/lib/validation';
+
+export async function GET() {
+    try {
+        return NextResponse.json(await seriesRepository.findAll());
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// Creates or updates a series' title and description, the parts are set
+// through /api/series/[id]/posts. An empty slug is derived from the title.
+export async function POST(request: Request) {
+    try {
+        const { data, response } = await parseRequestBody(request, seriesSchema);
+        if (response) return response;
+
+        const series = { ...data, slug: data.slug || await getUniqueSeriesSlug(data.title, data.id) };
+        if (await seriesRepository.isSlugTaken(series.slug, series.id)) {
+            return validationErrorResponse([{ field: 'slug', message: 'is already used by another series' }]);
+        }
+        console.log('API: Saving series', series.id, 'with slug:', series.slug);
+
+        await seriesRepository.save(series);
+        return NextResponse.json(await seriesRepository.findById(series.id));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { mergeTags } from '@/lib/taxonomy';
+import { parseRequestBody, taxonomyMergeSchema, validationErrorResponse } from '@/lib/validation';
+
+// Replaces the tag with { targetId } on all its posts and deletes it
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        const { data, response } = await parseRequestBody(request, taxonomyMergeSchema);
+        if (response) return response;
+
+        if (data.targetId === id) {
+            return validationErrorResponse([{ field: 'targetId', message: 'must be a different tag' }]);
+        }
+        console.log('API: Merging tag', id, 'into', data.targetId);
+
+        const target = await mergeTags(id, data.targetId);
+        if (!target) {
+            return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+        }
+        return NextResponse.json(target);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { deleteTag } from '@/lib/taxonomy';
+
+// The tag is also taken out of its posts' keywords
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        console.log('API: Deleting tag', id);
+        const deleted = await deleteTag(id);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { tagRepository } from '@/lib/repositories';
+import { checkTag, saveTag } from '@/lib/taxonomy';
+import { parseRequestBody, tagSchema, validationErrorResponse } from '@/lib/validation';
+
+export async function GET() {
+    try {
+        return NextResponse.json(await tagRepository.findAll());
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// Creates or updates a tag. Renaming it renames it in its posts' keywords too.
+export async function POST(request: Request) {
+    try {
+        const { data, response } = await parseRequestBody(request, tagSchema);
+        if (response) return response;
+
+        const errors = await checkTag(data);
+        if (errors.length > 0) return validationErrorResponse(errors);
+        console.log('API: Saving tag', data.id, 'named:', data.name);
+
+        const tag = await saveTag(data);
+        if (!tag) {
+            return validationErrorResponse([{ field: 'name', message: 'is already used by another tag' }]);
+        }
+        return NextResponse.json(tag);
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { syncTrainingData } from '@/lib/sync';
+import { parseChangeSet, trainingDataSchema } from '@/lib/validation';
+
+// Saves and deletes training data in one transaction and responds with every
+// item as stored afterwards.
+export async function POST(request: Request) {
+    try {
+        const { data: changes, response } = await parseChangeSet(request, trainingDataSchema);
+        if (response) return response;
+        console.log('API: Syncing training data', changes.created.length, 'created,', changes.updated.length, 'updated,', changes.deleted.length, 'deleted');
+
+        return NextResponse.json(await syncTrainingData(changes));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
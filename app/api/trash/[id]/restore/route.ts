@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { postRepository } from '@/lib/repositories';
+import { invalidateRelatedPosts } from '@/lib/relatedPosts';
+
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        console.log('API: Restoring post from trash', id);
+        const restored = await postRepository.restore(id);
+        if (!restored) {
+            return NextResponse.json({ error: 'Post not found in trash' }, { status: 404 });
+        }
+        await invalidateRelatedPosts();
+
+        return NextResponse.json(await postRepository.findById(id));
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
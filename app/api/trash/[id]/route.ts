@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { purgeTrashedPosts } from '@/lib/posts';
+
+// Permanently deletes one trashed post
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const id = (await params).id;
+    try {
+        console.log('API: Purging post', id);
+        const purged = await purgeTrashedPosts([id]);
+        if (purged === 0) {
+            return NextResponse.json({ error: 'Post not found in trash' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getTrashRetentionDays, purgeTrashedPosts } from '@/lib/posts';
+import { postRepository } from '@/lib/repositories';
+
+// Trashed posts, most recently deleted first, and how many days they are kept
+export async function GET() {
+    try {
+        const posts = await postRepository.findTrashed();
+        return NextResponse.json({ posts, retentionDays: getTrashRetentionDays() });
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// Empties the trash
+export async function DELETE() {
+    try {
+        console.log('API: Emptying trash');
+        const purged = await purgeTrashedPosts(await postRepository.findTrashedIds());
+        return NextResponse.json({ success: true, purged });
+    } catch (error: any) {
+        console.error('API Error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
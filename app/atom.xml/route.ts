@@ -0,0 +1,15 @@
+import { postRepository } from '@/lib/repositories';
+import { buildAtomFeed, FEED_ITEM_LIMIT } from '@/lib/feeds';
+import { xmlResponse } from '@/lib/xml';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+    try {
+        const posts = await postRepository.findLatestPublished(FEED_ITEM_LIMIT);
+        return xmlResponse(buildAtomFeed(posts, { selfPath: '/atom.xml' }), 'application/atom+xml');
+    } catch (error) {
+        console.error('Feed Error:', error);
+        return new Response('Failed to generate feed', { status: 500 });
+    }
+}
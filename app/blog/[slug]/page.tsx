@@ -0,0 +1,188 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, permanentRedirect } from 'next/navigation';
+import { ArrowLeft, Calendar, Clock, Tag, User, HelpCircle } from 'lucide-react';
+import { authorRepository, postRepository } from '@/lib/repositories';
+import { resolveSlugRedirect } from '@/lib/slugs';
+import { aggregateSchemas, getAuthorUrl, getCategorySlug, getModifiedDate, getPublishedDate, getTagSlug, SITE_URL } from '@/lib/schemaGenerator';
+import { getCategoryPathById } from '@/lib/taxonomy';
+import { getSeriesNavigation } from '@/lib/series';
+import { getRelatedPosts } from '@/lib/relatedPosts';
+import { cleanPostContent } from '@/lib/postContent';
+import SeriesNavigation from '@/components/SeriesNavigation';
+import RelatedPosts from '@/components/RelatedPosts';
+
+export const dynamic = 'force-dynamic';
+
+interface PostPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Shared between generateMetadata and the page so the post is queried once per request
+const getPost = cache(async (slug: string) => postRepository.findPublishedBySlug(slug));
+const getAuthor = cache(async (authorId?: string) => authorId ? authorRepository.findById(authorId) : null);
+
+export async function generateMetadata({ params }: PostPageProps): Promise<Metadata> {
+  const post = await getPost(decodeURIComponent((await params).slug));
+  if (!post) return {};
+
+  const author = await getAuthor(post.authorId);
+  const url = `${SITE_URL}/blog/${post.slug}`;
+  return {
+    title: `${post.title} | AutoBlog AI`,
+    description: post.excerpt,
+    keywords: post.keywords,
+    authors: author ? [{ name: author.name, url: getAuthorUrl(author) }] : undefined,
+    alternates: { canonical: url },
+    openGraph: {
+      type: 'article',
+      url,
+      title: post.title,
+      description: post.excerpt,
+      publishedTime: getPublishedDate(post),
+      modifiedTime: getModifiedDate(post),
+      authors: author ? [getAuthorUrl(author)] : undefined,
+      images: post.coverImage ? [post.coverImage] : undefined,
+    },
+  };
+}
+
+export default async function PostPage({ params }: PostPageProps) {
+  const slug = decodeURIComponent((await params).slug);
+  const post = await getPost(slug);
+  if (!post) {
+    // Renamed posts keep their old URLs alive with a permanent redirect
+    const currentSlug = await resolveSlugRedirect(slug);
+    if (currentSlug) permanentRedirect(`/blog/${currentSlug}`);
+    notFound();
+  }
+
+  const author = await getAuthor(post.authorId);
+  const categoryPath = await getCategoryPathById(post.categoryId);
+  const seriesNavigation = await getSeriesNavigation(post);
+  const schemas = aggregateSchemas(post, author, categoryPath, seriesNavigation);
+  const relatedPosts = await getRelatedPosts(post);
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {/* JSON-LD: the App Router has no per-page <head> slot, Next.js recommends rendering it with the page */}
+      {schemas.map((schema, idx) => (
+        <script
+          key={idx}
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(schema).replace(/</g, '\\u003c') }}
+        />
+      ))}
+
+      <Link href="/blog" className="inline-flex items-center text-sm text-gray-500 hover:text-indigo-600 mb-6">
+        <ArrowLeft size={16} className="mr-1" /> All articles
+      </Link>
+
+      <article className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+        {post.coverImage && (
+          <div className="relative w-full h-80 md:h-96">
+            <img src={post.coverImage} alt={post.title} className="w-full h-full object-cover" />
+            <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent"></div>
+          </div>
+        )}
+
+        <div className="p-6 md:p-10">
+          <div className="flex flex-wrap items-center gap-4 md:gap-8 text-sm text-gray-500 mb-8 border-b border-gray-100 pb-6">
+            <Link href={`/blog/category/${encodeURIComponent(getCategorySlug(post.category))}`} className="inline-block px-3 py-1 rounded-full bg-indigo-50 text-indigo-700 text-xs font-semibold hover:bg-indigo-100">
+              {post.category}
+            </Link>
+            <div className="flex items-center">
+              <User size={16} className="mr-2 text-indigo-500" />
+              {author ? (
+                <Link href={`/blog/author/${author.slug}`} rel="author" className="font-medium text-gray-700 hover:text-indigo-600">{author.name}</Link>
+              ) : (
+                <span className="font-medium text-gray-700">AutoBlog AI</span>
+              )}
+            </div>
+            <div className="flex items-center">
+              <Calendar size={16} className="mr-2 text-indigo-500" />
+              <time dateTime={getPublishedDate(post)}>{new Date(getPublishedDate(post)).toLocaleDateString()}</time>
+            </div>
+            <div className="flex items-center">
+              <Clock size={16} className="mr-2 text-indigo-500" />
+              <span>{post.readTime}</span>
+            </div>
+          </div>
+
+          {seriesNavigation && (
+            <Link href={`/blog/series/${seriesNavigation.series.slug}`} className="inline-block text-sm font-semibold text-indigo-600 hover:underline mb-2">
+              {seriesNavigation.series.title}: Part {seriesNavigation.part} of {seriesNavigation.parts.length}
+            </Link>
+          )}
+          <h1 className="text-3xl md:text-5xl font-extrabold text-gray-900 mb-6 leading-tight">{post.title}</h1>
+
+          <div className="text-xl text-gray-600 leading-relaxed font-light mb-8 italic border-l-4 border-indigo-500 pl-4 bg-gray-50 py-4 pr-4 rounded-r-lg">
+            {post.excerpt}
+          </div>
+
+          <div
+            className="rich-preview text-gray-800 leading-relaxed"
+            dangerouslySetInnerHTML={{ __html: cleanPostContent(post.content) }}
+          />
+
+          {seriesNavigation && <SeriesNavigation navigation={seriesNavigation} />}
+
+          {/* FAQ Section - native <details> so the page needs no client JS */}
+          {post.aeoQuestions && post.aeoQuestions.length > 0 && (
+            <div className="mt-12 pt-8 border-t border-gray-100">
+              <h2 className="text-2xl font-bold text-gray-900 mb-6 flex items-center">
+                <span className="bg-indigo-100 text-indigo-600 p-2 rounded-lg mr-3">
+                  <HelpCircle size={24} />
+                </span>
+                People Also Ask
+              </h2>
+              <div className="space-y-4">
+                {post.aeoQuestions.map((qa, idx) => (
+                  <details key={idx} className="border border-gray-200 rounded-lg overflow-hidden hover:border-indigo-300 group">
+                    <summary className="p-5 bg-gray-50 cursor-pointer text-lg font-semibold text-gray-900 group-open:bg-white">{qa.question}</summary>
+                    <p className="p-5 border-t border-gray-100 text-gray-700 leading-relaxed">{qa.answer}</p>
+                  </details>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <RelatedPosts posts={relatedPosts} />
+
+          {post.keywords.length > 0 && (
+            <div className="mt-12 pt-8 border-t border-gray-100">
+              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-4 flex items-center">
+                <Tag size={16} className="mr-2" />
+                Related Topics
+              </h2>
+              <div className="flex flex-wrap gap-2">
+                {post.keywords.map((keyword, idx) => (
+                  <Link key={idx} href={`/blog/tag/${encodeURIComponent(getTagSlug(keyword))}`} className="inline-flex items-center px-4 py-1.5 rounded-full text-sm font-medium bg-gray-100 text-gray-700 hover:bg-indigo-50 hover:text-indigo-700">
+                    #{keyword.replace(/\s+/g, '')}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {author && (
+            <div className="mt-12 pt-8 border-t border-gray-100 flex items-start gap-4">
+              {author.avatarUrl ? (
+                <img src={author.avatarUrl} alt={author.name} className="h-16 w-16 rounded-full object-cover shrink-0" />
+              ) : (
+                <div className="h-16 w-16 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center text-xl font-bold shrink-0">{author.name.charAt(0)}</div>
+              )}
+              <div>
+                <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Written by</p>
+                <Link href={`/blog/author/${author.slug}`} rel="author" className="text-lg font-bold text-gray-900 hover:text-indigo-600">{author.name}</Link>
+                {author.jobTitle && <p className="text-sm text-gray-500">{author.jobTitle}</p>}
+                {author.bio && <p className="text-gray-700 mt-2 leading-relaxed">{author.bio}</p>}
+              </div>
+            </div>
+          )}
+        </div>
+      </article>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, Globe } from 'lucide-react';
+import { authorRepository, postRepository } from '@/lib/repositories';
+import { generateProfilePageSchema, getAuthorUrl } from '@/lib/schemaGenerator';
+import BlogPostCard from '@/components/BlogPostCard';
+
+export const dynamic = 'force-dynamic';
+
+interface AuthorPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+const getAuthor = cache(async (slug: string) => authorRepository.findBySlug(slug));
+
+// Shown as the site name, e.g. linkedin.com
+const getProfileLabel = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+  const author = await getAuthor(decodeURIComponent((await params).slug));
+  if (!author) return {};
+
+  const description = author.bio || `Articles by ${author.name} on AutoBlog AI`;
+  return {
+    title: `${author.name} | AutoBlog AI`,
+    description,
+    alternates: { canonical: getAuthorUrl(author) },
+    openGraph: {
+      type: 'profile',
+      url: getAuthorUrl(author),
+      title: author.name,
+      description,
+      images: author.avatarUrl ? [author.avatarUrl] : undefined,
+    },
+  };
+}
+
+export default async function AuthorPage({ params }: AuthorPageProps) {
+  const author = await getAuthor(decodeURIComponent((await params).slug));
+  if (!author) notFound();
+
+  const posts = await postRepository.findPublishedByAuthor(author.id);
+  const schema = { "@context": "https://schema.org", ...generateProfilePageSchema(author) };
+
+  return (
+    <div className="space-y-8">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(schema).replace(/</g, '\\u003c') }}
+      />
+
+      <div>
+        <Link href="/blog" className="inline-flex items-center text-sm text-gray-500 hover:text-indigo-600 mb-4">
+          <ArrowLeft size={16} className="mr-1" /> All articles
+        </Link>
+        <div className="flex flex-col sm:flex-row items-start gap-6">
+          {author.avatarUrl ? (
+            <img src={author.avatarUrl} alt={author.name} className="h-24 w-24 rounded-full object-cover shrink-0" />
+          ) : (
+            <div className="h-24 w-24 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center text-3xl font-bold shrink-0">{author.name.charAt(0)}</div>
+          )}
+          <div>
+            <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900">{author.name}</h1>
+            {author.jobTitle && <p className="text-gray-500 mt-1">{author.jobTitle}</p>}
+            {author.bio && <p className="text-gray-700 mt-4 max-w-2xl leading-relaxed">{author.bio}</p>}
+            {author.socialProfiles.length > 0 && (
+              <div className="flex flex-wrap gap-3 mt-4">
+                {author.socialProfiles.map(url => (
+                  <a key={url} href={url} rel="me noopener" target="_blank" className="inline-flex items-center text-sm text-indigo-600 hover:underline">
+                    <Globe size={14} className="mr-1" /> {getProfileLabel(url)}
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-gray-500 mb-4">{posts.length} {posts.length === 1 ? 'article' : 'articles'}</p>
+        {posts.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {posts.map(post => <BlogPostCard key={post.id} post={post} />)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { getCategoryListing } from '@/lib/taxonomy';
+import { buildAtomFeed } from '@/lib/feeds';
+import { xmlResponse } from '@/lib/xml';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ category: string }> }
+) {
+    const slug = decodeURIComponent((await params).category);
+    try {
+        const listing = await getCategoryListing(slug);
+        if (!listing) {
+            return new Response('Category not found', { status: 404 });
+        }
+        const { category, posts } = listing;
+        return xmlResponse(buildAtomFeed(posts, { category, selfPath: `/blog/category/${encodeURIComponent(category.slug)}/atom.xml` }), 'application/atom+xml');
+    } catch (error) {
+        console.error('Feed Error:', error);
+        return new Response('Failed to generate feed', { status: 500 });
+    }
+}
@@ -0,0 +1,77 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { getCategoryListing } from '@/lib/taxonomy';
+import { SITE_URL } from '@/lib/schemaGenerator';
+import BlogPostCard from '@/components/BlogPostCard';
+
+export const dynamic = 'force-dynamic';
+
+interface CategoryPageProps {
+  params: Promise<{ category: string }>;
+}
+
+const getListing = cache(async (slug: string) => getCategoryListing(slug));
+
+export async function generateMetadata({ params }: CategoryPageProps): Promise<Metadata> {
+  const listing = await getListing(decodeURIComponent((await params).category));
+  if (!listing) return {};
+
+  const { name, slug, description } = listing.category;
+  const url = `${SITE_URL}/blog/category/${encodeURIComponent(slug)}`;
+  return {
+    title: `${name} | AutoBlog AI`,
+    description: description || `Articles about ${name} from AutoBlog AI`,
+    alternates: {
+      canonical: url,
+      types: {
+        'application/rss+xml': `${url}/feed.xml`,
+        'application/atom+xml': `${url}/atom.xml`,
+      },
+    },
+  };
+}
+
+export default async function CategoryPage({ params }: CategoryPageProps) {
+  const listing = await getListing(decodeURIComponent((await params).category));
+  if (!listing) notFound();
+
+  const { category, path, subcategories, posts } = listing;
+  const parent = path.length > 1 ? path[path.length - 2] : null;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        {parent ? (
+          <Link href={`/blog/category/${encodeURIComponent(parent.slug)}`} className="inline-flex items-center text-sm text-gray-500 hover:text-indigo-600 mb-4">
+            <ArrowLeft size={16} className="mr-1" /> {parent.name}
+          </Link>
+        ) : (
+          <Link href="/blog" className="inline-flex items-center text-sm text-gray-500 hover:text-indigo-600 mb-4">
+            <ArrowLeft size={16} className="mr-1" /> All articles
+          </Link>
+        )}
+        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900">{category.name}</h1>
+        {category.description && <p className="text-gray-700 mt-3 max-w-2xl leading-relaxed">{category.description}</p>}
+        <p className="text-gray-500 mt-2">{posts.length} {posts.length === 1 ? 'article' : 'articles'}</p>
+        {subcategories.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {subcategories.map(subcategory => (
+              <Link key={subcategory.id} href={`/blog/category/${encodeURIComponent(subcategory.slug)}`} className="inline-block px-3 py-1 rounded-full bg-indigo-50 text-indigo-700 text-xs font-semibold hover:bg-indigo-100">
+                {subcategory.name}
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {posts.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {posts.map(post => <BlogPostCard key={post.id} post={post} />)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import Link from 'next/link';
+import { PenTool } from 'lucide-react';
+
+export default function BlogLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-4 md:px-8 py-4 flex items-center">
+          <Link href="/blog" className="flex items-center space-x-3">
+            <span className="bg-indigo-600 p-2 rounded-lg">
+              <PenTool className="text-white h-5 w-5" />
+            </span>
+            <span className="font-bold text-xl">AutoBlog AI</span>
+          </Link>
+        </div>
+      </header>
+      <main className="max-w-6xl mx-auto px-4 md:px-8 py-8 md:py-12">{children}</main>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import Link from 'next/link';
+
+export default function BlogNotFound() {
+  return (
+    <div className="text-center py-24">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Article not found</h1>
+      <p className="text-gray-500 mb-6">The article you are looking for does not exist or is no longer published.</p>
+      <Link href="/blog" className="text-indigo-600 font-medium hover:text-indigo-700">Browse all articles</Link>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { Metadata } from 'next';
+import { postRepository } from '@/lib/repositories';
+import { SITE_URL } from '@/lib/schemaGenerator';
+import BlogPostCard from '@/components/BlogPostCard';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Blog | AutoBlog AI',
+  description: 'The latest articles from AutoBlog AI',
+  alternates: {
+    canonical: `${SITE_URL}/blog`,
+    types: {
+      'application/rss+xml': `${SITE_URL}/feed.xml`,
+      'application/atom+xml': `${SITE_URL}/atom.xml`,
+    },
+  },
+};
+
+export default async function BlogIndexPage() {
+  const posts = await postRepository.findPublishedListing();
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900">Blog</h1>
+        <p className="text-gray-500 mt-2">The latest articles from AutoBlog AI</p>
+      </div>
+
+      {posts.length === 0 ? (
+        <p className="text-center py-12 text-gray-500">No articles published yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {posts.map(post => <BlogPostCard key={post.id} post={post} />)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, BookOpen } from 'lucide-react';
+import { getSeriesListing } from '@/lib/series';
+import { generateSeriesSchema, getSeriesUrl } from '@/lib/schemaGenerator';
+
+export const dynamic = 'force-dynamic';
+
+interface SeriesPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+const getListing = cache(async (slug: string) => getSeriesListing(slug));
+
+export async function generateMetadata({ params }: SeriesPageProps): Promise<Metadata> {
+  const listing = await getListing(decodeURIComponent((await params).slug));
+  if (!listing) return {};
+
+  const { series } = listing;
+  return {
+    title: `${series.title} | AutoBlog AI`,
+    description: series.description || `A ${listing.parts.length}-part series from AutoBlog AI`,
+    alternates: { canonical: getSeriesUrl(series) },
+  };
+}
+
+export default async function SeriesPage({ params }: SeriesPageProps) {
+  const listing = await getListing(decodeURIComponent((await params).slug));
+  if (!listing) notFound();
+
+  const { series, parts } = listing;
+  const published = parts.filter(part => part.slug).map(part => ({ slug: part.slug as string, title: part.title as string }));
+  const schema = { "@context": "https://schema.org", ...generateSeriesSchema(series, published) };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(schema).replace(/</g, '\\u003c') }}
+      />
+
+      <div>
+        <Link href="/blog" className="inline-flex items-center text-sm text-gray-500 hover:text-indigo-600 mb-4">
+          <ArrowLeft size={16} className="mr-1" /> All articles
+        </Link>
+        <p className="text-xs font-semibold text-indigo-600 uppercase tracking-wider flex items-center mb-2">
+          <BookOpen size={14} className="mr-2" /> {parts.length}-part series
+        </p>
+        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900">{series.title}</h1>
+        {series.description && <p className="text-gray-700 mt-3 leading-relaxed">{series.description}</p>}
+      </div>
+
+      <ol className="space-y-4">
+        {parts.map(part => (
+          <li key={part.part} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex gap-5">
+            <span className="text-2xl font-extrabold text-indigo-200 shrink-0 w-8">{part.part}</span>
+            {part.slug ? (
+              <div>
+                <Link href={`/blog/${part.slug}`} className="text-xl font-semibold text-gray-900 hover:text-indigo-600">{part.title}</Link>
+                {part.excerpt && <p className="text-sm text-gray-500 mt-2">{part.excerpt}</p>}
+              </div>
+            ) : (
+              <p className="italic text-gray-400 self-center">Coming soon</p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
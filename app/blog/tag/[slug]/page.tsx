@@ -0,0 +1,54 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { getTagListing } from '@/lib/taxonomy';
+import { SITE_URL } from '@/lib/schemaGenerator';
+import BlogPostCard from '@/components/BlogPostCard';
+
+export const dynamic = 'force-dynamic';
+
+interface TagPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+const getListing = cache(async (slug: string) => getTagListing(slug));
+
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const listing = await getListing(decodeURIComponent((await params).slug));
+  if (!listing) return {};
+
+  const { name, slug, description } = listing.tag;
+  return {
+    title: `${name} | AutoBlog AI`,
+    description: description || `Articles tagged ${name} on AutoBlog AI`,
+    alternates: { canonical: `${SITE_URL}/blog/tag/${encodeURIComponent(slug)}` },
+  };
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const listing = await getListing(decodeURIComponent((await params).slug));
+  if (!listing) notFound();
+
+  const { tag, posts } = listing;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Link href="/blog" className="inline-flex items-center text-sm text-gray-500 hover:text-indigo-600 mb-4">
+          <ArrowLeft size={16} className="mr-1" /> All articles
+        </Link>
+        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900">#{tag.name.replace(/\s+/g, '')}</h1>
+        {tag.description && <p className="text-gray-700 mt-3 max-w-2xl leading-relaxed">{tag.description}</p>}
+        <p className="text-gray-500 mt-2">{posts.length} {posts.length === 1 ? 'article' : 'articles'}</p>
+      </div>
+
+      {posts.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {posts.map(post => <BlogPostCard key={post.id} post={post} />)}
+        </div>
+      )}
+    </div>
+  );
+}
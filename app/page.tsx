@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { BlogPost, NicheSchedule, TrainingModule, ViewState, TrainingData, ScheduledSlot, GeneratedTopic } from '@/types';
+import { BlogPost, BulkPostResult, NicheSchedule, PostConflict, PostSummary, TrainingModule, ViewState, TrainingData, ScheduledSlot, GeneratedTopic } from '@/types';
 import Dashboard from '@/components/Dashboard';
 import PostEditor from '@/components/PostEditor';
 import Sidebar from '@/components/Sidebar';
@@ -10,11 +10,25 @@ import PostReader from '@/components/PostReader';
 import TrainingHub from '@/components/TrainingHub';
 import TopicGenerator from '@/components/TopicGenerator';
 import StorageView from '@/components/StorageView';
+import TrashView from '@/components/TrashView';
+import AuthorsView from '@/components/AuthorsView';
+import TaxonomyView from '@/components/TaxonomyView';
+import SeriesView from '@/components/SeriesView';
+import LinkHealthView from '@/components/LinkHealthView';
+import { getChangeSet, isEmptyChangeSet } from '@/lib/changeSet';
 import { Menu } from 'lucide-react';
 
+// The dashboard loads post summaries a page at a time, the whole post is
+// fetched when one is opened in the reader or editor
+const POSTS_PAGE_SIZE = 20;
+const MAX_POSTS_PAGE_SIZE = 100; // MAX_PAGE_SIZE in lib/posts.ts
+
+const postsPageUrl = (offset: number, limit = POSTS_PAGE_SIZE) => `/api/posts?fields=summary&limit=${limit}&offset=${offset}`;
+
 export default function Home() {
   const [view, setView] = useState<ViewState>('dashboard');
-  const [posts, setPosts] = useState<BlogPost[]>([]);
+  const [posts, setPosts] = useState<PostSummary[]>([]);
+  const [totalPosts, setTotalPosts] = useState(0); // Including those not loaded yet
   const [currentPost, setCurrentPost] = useState<BlogPost | null>(null); // For Reader
   const [editingPost, setEditingPost] = useState<BlogPost | null>(null); // For Editor
   const [generatedTopic, setGeneratedTopic] = useState<{ topic: string, tone: string } | null>(null);
@@ -36,13 +50,16 @@ export default function Home() {
   const fetchData = async () => {
     try {
       const [postsRes, schedulesRes, trainingRes, slotsRes] = await Promise.all([
-        fetch('/api/posts'),
+        fetch(postsPageUrl(0)),
         fetch('/api/schedules'),
         fetch('/api/training_data'),
         fetch('/api/scheduled_slots')
       ]);
 
-      if (postsRes.ok) setPosts(await postsRes.json());
+      if (postsRes.ok) {
+        setPosts(await postsRes.json());
+        setTotalPosts(Number(postsRes.headers.get('X-Total-Count')));
+      }
       if (schedulesRes.ok) setNicheSchedules(await schedulesRes.json());
       if (trainingRes.ok) {
         const data = await trainingRes.json();
@@ -64,7 +81,8 @@ export default function Home() {
   };
 
   // --- Persistence Helpers ---
-  const savePost = async (post: BlogPost) => {
+  // Resolves with the conflict when someone else saved the post first, the editor resolves it
+  const savePost = async (post: BlogPost): Promise<PostConflict | void> => {
     try {
       const res = await fetch('/api/posts', {
         method: 'POST',
@@ -73,6 +91,7 @@ export default function Home() {
       });
       if (res.ok) {
         const savedPost = await res.json();
+        if (!posts.some(p => p.id === savedPost.id)) setTotalPosts(total => total + 1);
         setPosts(prev => {
           const exists = prev.find(p => p.id === savedPost.id);
           if (exists) return prev.map(p => p.id === savedPost.id ? savedPost : p);
@@ -81,6 +100,14 @@ export default function Home() {
         setView('dashboard');
         setEditingPost(null);
         setGeneratedTopic(null);
+      } else if (res.status === 409) {
+        const conflict: PostConflict = await res.json();
+        setPosts(prev => prev.map(p => p.id === conflict.current.id ? conflict.current : p));
+        return conflict;
+      } else {
+        const { error, details } = await res.json();
+        const fieldErrors = (details || []).map((d: { field: string; message: string }) => `${d.field} ${d.message}`);
+        alert(`Failed to save post: ${[error, ...fieldErrors].join('\n')}`);
       }
     } catch (error) {
       console.error("Failed to save post:", error);
@@ -88,73 +115,120 @@ export default function Home() {
   };
 
   const deletePost = async (id: string) => {
-    if (!window.confirm("Are you sure you want to delete this post?")) return;
+    if (!window.confirm("Move this post to the trash? You can restore it from Trash.")) return;
     try {
-      await fetch(`/api/posts/${id}`, { method: 'DELETE' });
+      const res = await fetch(`/api/posts/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
       setPosts(prev => prev.filter(p => p.id !== id));
+      setTotalPosts(total => total - 1);
       if (view === 'reader' && currentPost?.id === id) setView('dashboard');
     } catch (error) {
       console.error("Failed to delete post:", error);
     }
   };
 
-  const updateSchedules = async (schedules: NicheSchedule[]) => {
-    // We'll replace all schedules for simplicity or handle indiv updates
-    // For this migration, let's assume we send the whole list or just the new one.
-    // The server expects individual POSTs or a bulk endpoint.
-    // Let's iterate for now to match strict REST if needed, or better:
-    // The previous app stored this in local storage or a simple JSON file.
-    // Our new API accepts POST to create/update.
-    // Strategy: Update local state immediately, then sync.
-    setNicheSchedules(schedules);
+  const loadMorePosts = async () => {
     try {
-      // Sync logic would go here. For now, we'll implement a basic save for the *newest* or changed one if possible,
-      // but given the array prop, we might need a bulk update endpoint or just loop.
-      // Simplest for migration: Save individual items.
-      // In a real app, we'd optimize this.
-      for (const schedule of schedules) {
-        await fetch('/api/schedules', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(schedule)
-        });
-      }
-    } catch (e) {
-      console.error("Error syncing schedules", e);
+      const res = await fetch(postsPageUrl(posts.length));
+      if (!res.ok) throw new Error((await res.json()).error);
+      const page: PostSummary[] = await res.json();
+      setPosts(prev => [...prev, ...page.filter(post => !prev.some(p => p.id === post.id))]);
+      setTotalPosts(Number(res.headers.get('X-Total-Count')));
+    } catch (error) {
+      console.error("Failed to load more posts:", error);
     }
   };
 
-  const updateScheduledSlots = async (slots: ScheduledSlot[]) => {
-    setScheduledSlots(slots);
+  // Taxonomy renames and merges, and series changes, rewrite posts on the server.
+  // Reloads as many as are loaded, up to the API's page size limit.
+  const refreshPosts = async () => {
     try {
-      for (const slot of slots) {
-        await fetch('/api/scheduled_slots', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(slot)
-        });
-      }
-    } catch (e) {
-      console.error("Error syncing slots", e);
+      const res = await fetch(postsPageUrl(0, Math.min(Math.max(posts.length, POSTS_PAGE_SIZE), MAX_POSTS_PAGE_SIZE)));
+      if (!res.ok) throw new Error((await res.json()).error);
+      setPosts(await res.json());
+      setTotalPosts(Number(res.headers.get('X-Total-Count')));
+    } catch (error) {
+      console.error("Failed to reload posts:", error);
     }
   };
 
-  const updateTrainingData = async (data: TrainingData[]) => {
-    setTrainingData(data);
+  // List views only hold summaries, the reader and editor need the content too
+  const loadPost = async (id: string): Promise<BlogPost | null> => {
     try {
-      // Similar sync logic
-      for (const item of data) {
-        await fetch('/api/training_data', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(item)
-        });
+      const res = await fetch(`/api/posts/${id}`);
+      if (!res.ok) throw new Error((await res.json()).error);
+      return await res.json();
+    } catch (error) {
+      console.error("Failed to load post:", error);
+      alert("Couldn't open the post, try again.");
+      return null;
+    }
+  };
+
+  const handleBulkUpdated = (result: BulkPostResult) => {
+    const updated = new Map(result.posts.map(post => [post.id, post]));
+    // Succeeded without coming back means the post went to the trash
+    const removed = new Set(result.succeeded.filter(id => !updated.has(id)));
+    setPosts(prev => prev.filter(post => !removed.has(post.id)).map(post => updated.get(post.id) || post));
+    setTotalPosts(total => total - removed.size);
+  };
+
+  const handlePostRestored = (post: BlogPost) => {
+    setPosts(prev => [...prev, post].sort((a, b) => b.dateCreated.localeCompare(a.dateCreated)));
+    setTotalPosts(total => total + 1);
+  };
+
+  // Sends only what changed and replaces local state with the server's copy,
+  // or puts the previous list back when the change didn't go through.
+  const syncCollection = async <T extends { id: string }>(
+    endpoint: string, label: string, previous: T[], next: T[], setItems: (items: T[]) => void
+  ) => {
+    setItems(next);
+    const changes = getChangeSet(previous, next);
+    if (isEmptyChangeSet(changes)) return;
+
+    try {
+      const res = await fetch(`${endpoint}/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      if (!res.ok) {
+        const { error, details } = await res.json();
+        const fieldErrors = (details || []).map((d: { field: string; message: string }) => `${d.field} ${d.message}`);
+        setItems(previous);
+        alert(`Failed to save ${label}: ${[error, ...fieldErrors].join('\n')}`);
+        return;
       }
+      setItems(await res.json());
     } catch (e) {
-      console.error("Error syncing training data", e);
+      console.error(`Error syncing ${label}`, e);
+      setItems(previous);
     }
   };
 
+  const refreshScheduledSlots = async () => {
+    try {
+      const res = await fetch('/api/scheduled_slots');
+      if (res.ok) setScheduledSlots(await res.json());
+    } catch (error) {
+      console.error("Failed to reload scheduled slots:", error);
+    }
+  };
+
+  // Deleting a schedule deletes its unpublished slots on the server
+  const updateSchedules = async (schedules: NicheSchedule[]) => {
+    const removedSchedule = nicheSchedules.some(schedule => !schedules.some(s => s.id === schedule.id));
+    await syncCollection('/api/schedules', 'schedules', nicheSchedules, schedules, setNicheSchedules);
+    if (removedSchedule) await refreshScheduledSlots();
+  };
+
+  const updateScheduledSlots = (slots: ScheduledSlot[]) =>
+    syncCollection('/api/scheduled_slots', 'scheduled slots', scheduledSlots, slots, setScheduledSlots);
+
+  const updateTrainingData = (data: TrainingData[]) =>
+    syncCollection('/api/training_data', 'training data', trainingData, data, setTrainingData);
+
   const toggleFavoriteModule = (module: TrainingModule) => {
     setFavoriteModules(prev => {
       const exists = prev.find(m => m.id === module.id);
@@ -178,6 +252,12 @@ export default function Home() {
     setView('editor');
   };
 
+  const handleSeriesDrafted = (drafted: BlogPost[]) => {
+    setTotalPosts(total => total + drafted.filter(post => !posts.some(p => p.id === post.id)).length);
+    setPosts(prev => [...drafted.slice().reverse(), ...prev.filter(post => !drafted.some(d => d.id === post.id))]);
+    setView('series');
+  };
+
   const handleViewPost = (post: BlogPost) => {
     setCurrentPost(post);
     setView('reader');
@@ -189,6 +269,16 @@ export default function Home() {
     setView('editor');
   };
 
+  const viewPostById = async (id: string) => {
+    const post = await loadPost(id);
+    if (post) handleViewPost(post);
+  };
+
+  const editPostById = async (id: string) => {
+    const post = await loadPost(id);
+    if (post) handleEditPost(post);
+  };
+
   // Handler for editing a generated topic from Settings/Calendar
   const handleEditGeneratedTopic = (slotId: string, topic: GeneratedTopic) => {
     // Create a partial post draft from the topic
@@ -240,10 +330,13 @@ export default function Home() {
           {view === 'dashboard' && (
             <Dashboard
               posts={posts}
+              totalPosts={totalPosts}
+              onLoadMore={loadMorePosts}
               onCreateNew={handleCreateNew}
-              onViewPost={handleViewPost}
-              onEditPost={handleEditPost}
+              onViewPost={post => viewPostById(post.id)}
+              onEditPost={post => editPostById(post.id)}
               onDeletePost={deletePost}
+              onBulkUpdated={handleBulkUpdated}
             />
           )}
 
@@ -251,6 +344,7 @@ export default function Home() {
             <TopicGenerator
               onTopicSelect={handleTopicSelected}
               onCancel={() => setView('dashboard')}
+              onSeriesDrafted={handleSeriesDrafted}
               trainingContext={getTrainingContext()}
             />
           )}
@@ -262,6 +356,7 @@ export default function Home() {
               initialPost={editingPost}
               onPublish={savePost}
               onCancel={() => setView('dashboard')}
+              onRevisionRestored={(post) => setPosts(prev => prev.map(p => p.id === post.id ? post : p))}
               trainingContext={getTrainingContext()}
             />
           )}
@@ -298,7 +393,7 @@ export default function Home() {
                 const tempPost = {
                   ...post,
                   id: 'preview',
-                  dateCreated: new Date().toLocaleDateString(),
+                  dateCreated: new Date().toISOString(),
                   status: 'draft'
                 } as BlogPost;
                 handleViewPost(tempPost);
@@ -310,6 +405,26 @@ export default function Home() {
           {view === 'storage' && (
             <StorageView />
           )}
+
+          {view === 'trash' && (
+            <TrashView onRestored={handlePostRestored} />
+          )}
+
+          {view === 'authors' && (
+            <AuthorsView />
+          )}
+
+          {view === 'taxonomy' && (
+            <TaxonomyView onPostsChanged={refreshPosts} />
+          )}
+
+          {view === 'series' && (
+            <SeriesView onPostsChanged={refreshPosts} />
+          )}
+
+          {view === 'links' && (
+            <LinkHealthView onEditPost={editPostById} />
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,23 @@
+import { authorRepository, postRepository, seriesRepository } from '@/lib/repositories';
+import { buildSitemapEntries, buildUrlset, buildSitemapIndex, getSitemapPageCount } from '@/lib/sitemap';
+import { xmlResponse } from '@/lib/xml';
+
+export const dynamic = 'force-dynamic';
+
+// A single urlset while everything fits in one file, a sitemap index pointing
+// at /sitemaps/<n>.xml once the URL limit is exceeded.
+export async function GET() {
+    try {
+        const [posts, authors, series] = await Promise.all([
+            postRepository.findPublishedSummaries(),
+            authorRepository.findAll(),
+            seriesRepository.findAll()
+        ]);
+        const entries = buildSitemapEntries(posts, authors, series);
+        const body = getSitemapPageCount(entries) > 1 ? buildSitemapIndex(entries) : buildUrlset(entries);
+        return xmlResponse(body);
+    } catch (error) {
+        console.error('Sitemap Error:', error);
+        return new Response('Failed to generate sitemap', { status: 500 });
+    }
+}
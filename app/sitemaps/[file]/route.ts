@@ -0,0 +1,28 @@
+import { authorRepository, postRepository, seriesRepository } from '@/lib/repositories';
+import { buildSitemapEntries, buildUrlset, getSitemapPage, getSitemapPageCount } from '@/lib/sitemap';
+import { xmlResponse } from '@/lib/xml';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ file: string }> }
+) {
+    const match = (await params).file.match(/^(\d+)\.xml$/);
+    const page = match ? Number(match[1]) : 0;
+    try {
+        const [posts, authors, series] = await Promise.all([
+            postRepository.findPublishedSummaries(),
+            authorRepository.findAll(),
+            seriesRepository.findAll()
+        ]);
+        const entries = buildSitemapEntries(posts, authors, series);
+        if (page < 1 || page > getSitemapPageCount(entries)) {
+            return new Response('Sitemap not found', { status: 404 });
+        }
+        return xmlResponse(buildUrlset(getSitemapPage(entries, page)));
+    } catch (error) {
+        console.error('Sitemap Error:', error);
+        return new Response('Failed to generate sitemap', { status: 500 });
+    }
+}
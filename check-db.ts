@@ -1,11 +1,11 @@
 import dotenv from 'dotenv';
 dotenv.config({ path: '.env.local' });
-import pool from './lib/db';
+import db from './lib/db';
 
 async function checkSchema() {
     try {
         console.log('Checking database schema...');
-        const [rows]: any = await pool.query('DESCRIBE posts');
+        const rows = await db.query(db.dialect.name === 'sqlite' ? 'PRAGMA table_info(posts)' : 'DESCRIBE posts');
         console.table(rows);
         process.exit(0);
     } catch (error) {
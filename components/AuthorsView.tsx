@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Author } from '../types';
+import Button from './Button';
+import { Edit, Eye, Loader, Plus, Trash2, User, X } from 'lucide-react';
+
+interface AuthorForm {
+  id: string;
+  name: string;
+  slug: string;
+  jobTitle: string;
+  avatarUrl: string;
+  bio: string;
+  socialProfiles: string; // One URL per line
+}
+
+const toForm = (author?: Author): AuthorForm => ({
+  id: author?.id || Date.now().toString(),
+  name: author?.name || '',
+  slug: author?.slug || '',
+  jobTitle: author?.jobTitle || '',
+  avatarUrl: author?.avatarUrl || '',
+  bio: author?.bio || '',
+  socialProfiles: (author?.socialProfiles || []).join('\n'),
+});
+
+const AuthorsView: React.FC = () => {
+  const [authors, setAuthors] = useState<Author[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<AuthorForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchAuthors = async () => {
+      try {
+        const res = await fetch('/api/authors');
+        if (res.ok) setAuthors(await res.json());
+      } catch (error) {
+        console.error("Failed to load authors:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchAuthors();
+  }, []);
+
+  const updateForm = (field: keyof AuthorForm, value: string) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      const res = await fetch('/api/authors', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: form.id,
+          name: form.name.trim(),
+          slug: form.slug.trim(),
+          jobTitle: form.jobTitle.trim() || undefined,
+          avatarUrl: form.avatarUrl.trim() || undefined,
+          bio: form.bio.trim() || undefined,
+          socialProfiles: form.socialProfiles.split('\n').map(url => url.trim()).filter(Boolean),
+        }),
+      });
+      if (!res.ok) {
+        const { error, details } = await res.json();
+        const fieldErrors = (details || []).map((d: { field: string; message: string }) => `${d.field} ${d.message}`);
+        alert(`Failed to save author: ${[error, ...fieldErrors].join('\n')}`);
+        return;
+      }
+      const saved: Author = await res.json();
+      setAuthors(prev => [...prev.filter(a => a.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setForm(null);
+    } catch (error) {
+      console.error("Failed to save author:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (author: Author) => {
+    if (!window.confirm(`Delete ${author.name}? Their posts stay published and are credited to AutoBlog AI again.`)) return;
+    try {
+      const res = await fetch(`/api/authors/${author.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setAuthors(prev => prev.filter(a => a.id !== author.id));
+      if (form?.id === author.id) setForm(null);
+    } catch (error) {
+      console.error("Failed to delete author:", error);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Authors</h1>
+          <p className="text-gray-500 mt-1">Bylines, bios and author pages for your posts.</p>
+        </div>
+        <Button onClick={() => setForm(toForm())} icon={<Plus size={18} />}>New Author</Button>
+      </div>
+
+      {form && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">{authors.some(a => a.id === form.id) ? 'Edit Author' : 'New Author'}</h2>
+            <button onClick={() => setForm(null)} className="p-2 hover:bg-gray-100 rounded-full transition-colors" aria-label="Close">
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm font-medium text-gray-700">Name
+              <input type="text" value={form.name} onChange={e => updateForm('name', e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">Slug
+              <input type="text" value={form.slug} onChange={e => updateForm('slug', e.target.value)} placeholder="Derived from the name" className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">Job title
+              <input type="text" value={form.jobTitle} onChange={e => updateForm('jobTitle', e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">Avatar URL
+              <input type="url" value={form.avatarUrl} onChange={e => updateForm('avatarUrl', e.target.value)} placeholder="https://" className={`mt-1 ${inputClass}`} />
+            </label>
+          </div>
+          <label className="block text-sm font-medium text-gray-700">Bio
+            <textarea value={form.bio} onChange={e => updateForm('bio', e.target.value)} rows={4} className={`mt-1 ${inputClass}`} />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">Social profiles
+            <textarea value={form.socialProfiles} onChange={e => updateForm('socialProfiles', e.target.value)} rows={3} placeholder="One profile URL per line" className={`mt-1 font-mono text-sm ${inputClass}`} />
+          </label>
+          <div className="flex justify-end gap-3">
+            <Button variant="ghost" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} isLoading={isSaving} disabled={!form.name.trim()}>Save Author</Button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-400"><Loader className="animate-spin" size={20} /></div>
+        ) : authors.length === 0 ? (
+          <div className="p-12 text-center flex flex-col items-center">
+            <div className="bg-gray-50 p-4 rounded-full mb-4"><User className="h-8 w-8 text-gray-400" /></div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No authors yet</h3>
+            <p className="text-gray-500 max-w-sm">Posts without an author are credited to AutoBlog AI.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {authors.map(author => (
+              <div key={author.id} className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="flex items-center gap-4 min-w-0">
+                  {author.avatarUrl ? (
+                    <img src={author.avatarUrl} alt={author.name} className="h-12 w-12 rounded-full object-cover shrink-0" />
+                  ) : (
+                    <div className="h-12 w-12 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center font-bold shrink-0">{author.name.charAt(0)}</div>
+                  )}
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-semibold text-gray-900 truncate">{author.name}</h3>
+                    <p className="text-sm text-gray-500 truncate">{author.jobTitle || `/blog/author/${author.slug}`}</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <a href={`/blog/author/${author.slug}`} target="_blank" rel="noopener" className="p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors" title="View author page">
+                    <Eye size={18} />
+                  </a>
+                  <button onClick={() => setForm(toForm(author))} className="p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors" title="Edit">
+                    <Edit size={18} />
+                  </button>
+                  <button onClick={() => handleDelete(author)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors" title="Delete">
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuthorsView;
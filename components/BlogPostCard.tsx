@@ -0,0 +1,30 @@
+import React from 'react';
+import Link from 'next/link';
+import { PostSummary } from '../types';
+import { Clock, Calendar } from 'lucide-react';
+import { getPublishedDate } from '../lib/schemaGenerator';
+
+interface BlogPostCardProps {
+  post: PostSummary;
+}
+
+const BlogPostCard: React.FC<BlogPostCardProps> = ({ post }) => {
+  return (
+    <article className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow group">
+      <Link href={`/blog/${post.slug}`} className="block">
+        {post.coverImage && <img src={post.coverImage} alt={post.title} className="w-full h-48 object-cover" />}
+        <div className="p-6">
+          <span className="inline-block px-2.5 py-0.5 rounded-full bg-indigo-50 text-indigo-700 text-xs font-medium mb-3">{post.category}</span>
+          <h2 className="text-xl font-semibold text-gray-900 group-hover:text-indigo-600 transition-colors mb-2">{post.title}</h2>
+          <p className="text-sm text-gray-500 line-clamp-3 mb-4">{post.excerpt}</p>
+          <div className="flex items-center gap-4 text-xs text-gray-400">
+            <span className="flex items-center"><Calendar size={12} className="mr-1" /> {new Date(getPublishedDate(post)).toLocaleDateString()}</span>
+            <span className="flex items-center"><Clock size={12} className="mr-1" /> {post.readTime}</span>
+          </div>
+        </div>
+      </Link>
+    </article>
+  );
+};
+
+export default BlogPostCard;
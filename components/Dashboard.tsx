@@ -1,19 +1,202 @@
-import React from 'react';
-import { BlogPost } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { BlogPost, BulkPostAction, BulkPostRequest, BulkPostResult, PostSummary } from '../types';
 import Button from './Button';
 import { Plus, Search, FileText, Calendar, Eye, Clock, ArrowRight, Edit, Trash2 } from 'lucide-react';
+import { getPublishedDate } from '../lib/schemaGenerator';
 
 interface DashboardProps {
-  posts: BlogPost[];
+  // The pages loaded so far, totalPosts counts every post
+  posts: PostSummary[];
+  totalPosts: number;
+  onLoadMore: () => Promise<void>;
   onCreateNew: () => void;
-  onViewPost: (post: BlogPost) => void;
-  onEditPost: (post: BlogPost) => void;
+  onViewPost: (post: PostSummary) => void;
+  onEditPost: (post: PostSummary) => void;
   onDeletePost: (id: string) => void;
+  onBulkUpdated: (result: BulkPostResult) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ posts, onCreateNew, onViewPost, onEditPost, onDeletePost }) => {
+type StatusFilter = 'all' | BlogPost['status'];
+
+// Search results are paged like the full list in app/page.tsx
+const SEARCH_PAGE_SIZE = 20;
+const MAX_SEARCH_PAGE_SIZE = 100; // MAX_PAGE_SIZE in lib/posts.ts
+
+const searchPageUrl = (search: string, status: StatusFilter, offset: number, limit = SEARCH_PAGE_SIZE) => {
+  const params = new URLSearchParams({ fields: 'summary', limit: String(limit), offset: String(offset) });
+  if (search.trim()) params.set('q', search.trim());
+  if (status !== 'all') params.set('status', status);
+  return `/api/posts?${params.toString()}`;
+};
+
+const BULK_ACTION_LABELS: Record<BulkPostAction, string> = {
+  publish: 'Publish',
+  unpublish: 'Unpublish to draft',
+  schedule: 'Schedule at intervals',
+  setCategory: 'Change category',
+  addKeywords: 'Add keywords',
+  removeKeywords: 'Remove keywords',
+  delete: 'Move to trash',
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ posts, totalPosts, onLoadMore, onCreateNew, onViewPost, onEditPost, onDeletePost, onBulkUpdated }) => {
   const publishedPosts = posts.filter(p => p.status === 'published');
-  const lastPublished = publishedPosts.length > 0 ? publishedPosts[0] : null;
+  const lastPublished = publishedPosts.reduce<PostSummary | null>(
+    (latest, post) => !latest || getPublishedDate(post) > getPublishedDate(latest) ? post : latest,
+    null
+  );
+
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [filteredPosts, setFilteredPosts] = useState<PostSummary[] | null>(null);
+  const [filteredTotal, setFilteredTotal] = useState(0);
+  // How many results are loaded, kept when the results are refreshed
+  const loadedResults = useRef(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Counted on the server, `posts` may only hold the first pages
+  const [draftCount, setDraftCount] = useState<number | null>(null);
+  const isFiltering = search.trim() !== '' || statusFilter !== 'all';
+
+  // Multi-select and bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<BulkPostAction>('publish');
+  const [bulkCategory, setBulkCategory] = useState('');
+  const [bulkKeywords, setBulkKeywords] = useState('');
+  const [bulkStartAt, setBulkStartAt] = useState('');
+  const [bulkInterval, setBulkInterval] = useState(60);
+  const [isApplyingBulk, setIsApplyingBulk] = useState(false);
+
+  // Search and filtering run on the server, debounced while typing, and load a
+  // page at a time. Re-runs when `posts` changes so edits and deletes show up
+  // in the results, reloading as many as were loaded.
+  useEffect(() => {
+    if (!isFiltering) return;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      const limit = Math.min(Math.max(loadedResults.current, SEARCH_PAGE_SIZE), MAX_SEARCH_PAGE_SIZE);
+      try {
+        const res = await fetch(searchPageUrl(search, statusFilter, 0, limit), { signal: controller.signal });
+        if (res.ok) {
+          const results: PostSummary[] = await res.json();
+          loadedResults.current = results.length;
+          setFilteredPosts(results);
+          setFilteredTotal(Number(res.headers.get('X-Total-Count')));
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) console.error("Failed to search posts:", error);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [search, statusFilter, isFiltering, posts]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch('/api/posts?status=draft&fields=summary&limit=1', { signal: controller.signal })
+      .then(res => { if (res.ok) setDraftCount(Number(res.headers.get('X-Total-Count'))); })
+      .catch(error => { if (!controller.signal.aborted) console.error("Failed to count drafts:", error); });
+    return () => controller.abort();
+  }, [posts]);
+
+  const loadMoreResults = async () => {
+    const loaded = filteredPosts || [];
+    try {
+      const res = await fetch(searchPageUrl(search, statusFilter, loaded.length));
+      if (!res.ok) throw new Error((await res.json()).error);
+      const page: PostSummary[] = await res.json();
+      const next = [...loaded, ...page.filter(post => !loaded.some(p => p.id === post.id))];
+      loadedResults.current = next.length;
+      setFilteredPosts(next);
+      setFilteredTotal(Number(res.headers.get('X-Total-Count')));
+    } catch (error) {
+      console.error("Failed to load more results:", error);
+    }
+  };
+
+  const loadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      await (isFiltering ? loadMoreResults() : onLoadMore());
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const visiblePosts = isFiltering ? (filteredPosts || []) : posts;
+  const allVisibleSelected = visiblePosts.length > 0 && visiblePosts.every(post => selectedIds.has(post.id));
+  const bulkKeywordList = bulkKeywords.split(',').map(keyword => keyword.trim()).filter(Boolean);
+  const isBulkReady =
+    (bulkAction !== 'setCategory' || bulkCategory.trim() !== '') &&
+    ((bulkAction !== 'addKeywords' && bulkAction !== 'removeKeywords') || bulkKeywordList.length > 0) &&
+    (bulkAction !== 'schedule' || bulkStartAt !== '');
+
+  // The selection only covers what is on screen
+  const changeFilters = (nextSearch: string, nextStatus: StatusFilter) => {
+    setSearch(nextSearch);
+    setStatusFilter(nextStatus);
+    loadedResults.current = 0;
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visiblePosts.map(post => post.id)));
+  };
+
+  const applyBulkAction = async () => {
+    // In list order, which is also the order scheduled posts go out in
+    const ids = visiblePosts.filter(post => selectedIds.has(post.id)).map(post => post.id);
+    if (ids.length === 0) return;
+    if (bulkAction === 'delete' && !window.confirm(`Move ${ids.length} posts to the trash?`)) return;
+
+    const body: BulkPostRequest = { ids, action: bulkAction };
+    if (bulkAction === 'setCategory') body.category = bulkCategory.trim();
+    if (bulkAction === 'addKeywords' || bulkAction === 'removeKeywords') body.keywords = bulkKeywordList;
+    if (bulkAction === 'schedule') {
+      body.startAt = new Date(bulkStartAt).toISOString();
+      body.intervalMinutes = bulkInterval;
+    }
+
+    setIsApplyingBulk(true);
+    try {
+      const res = await fetch('/api/posts/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const { error, details } = await res.json();
+        const fieldErrors = (details || []).map((d: { field: string; message: string }) => `${d.field} ${d.message}`);
+        alert(`Bulk update failed: ${[error, ...fieldErrors].join('\n')}`);
+        return;
+      }
+
+      const result: BulkPostResult = await res.json();
+      onBulkUpdated(result);
+      // Keep the skipped posts selected so they can be looked at
+      setSelectedIds(new Set(result.failures.map(failure => failure.id)));
+      if (result.failures.length > 0) {
+        const titles = new Map(visiblePosts.map(post => [post.id, post.title]));
+        const skipped = result.failures.map(failure => `${titles.get(failure.id) || failure.id}: ${failure.error}`);
+        alert(`${result.succeeded.length} posts updated, ${result.failures.length} skipped:\n${skipped.join('\n')}`);
+      }
+    } catch (error) {
+      console.error("Failed to apply bulk action:", error);
+    } finally {
+      setIsApplyingBulk(false);
+    }
+  };
 
   return (
     <div className="space-y-8">
@@ -28,21 +211,80 @@ const Dashboard: React.FC<DashboardProps> = ({ posts, onCreateNew, onViewPost, o
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex items-center space-x-4"><div className="p-3 bg-indigo-50 text-indigo-600 rounded-lg"><FileText size={24} /></div><div><p className="text-sm text-gray-500 font-medium">Total Posts</p><h3 className="text-2xl font-bold text-gray-900">{posts.length}</h3></div></div>
-        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex items-center space-x-4"><div className="p-3 bg-green-50 text-green-600 rounded-lg"><Eye size={24} /></div><div><p className="text-sm text-gray-500 font-medium">Total Views (Simulated)</p><h3 className="text-2xl font-bold text-gray-900">{(posts.length * 1240).toLocaleString()}</h3></div></div>
-        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex items-center space-x-4"><div className="p-3 bg-purple-50 text-purple-600 rounded-lg"><Calendar size={24} /></div><div><p className="text-sm text-gray-500 font-medium">Last Published</p><h3 className="text-lg font-bold text-gray-900">{lastPublished ? new Date(lastPublished.dateCreated).toLocaleDateString() : 'N/A'}</h3></div></div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex items-center space-x-4"><div className="p-3 bg-indigo-50 text-indigo-600 rounded-lg"><FileText size={24} /></div><div><p className="text-sm text-gray-500 font-medium">Total Posts</p><h3 className="text-2xl font-bold text-gray-900">{totalPosts}</h3></div></div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex items-center space-x-4"><div className="p-3 bg-green-50 text-green-600 rounded-lg"><Eye size={24} /></div><div><p className="text-sm text-gray-500 font-medium">Total Views (Simulated)</p><h3 className="text-2xl font-bold text-gray-900">{(totalPosts * 1240).toLocaleString()}</h3></div></div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex items-center space-x-4"><div className="p-3 bg-purple-50 text-purple-600 rounded-lg"><Calendar size={24} /></div><div><p className="text-sm text-gray-500 font-medium">Last Published</p><h3 className="text-lg font-bold text-gray-900">{lastPublished ? new Date(getPublishedDate(lastPublished)).toLocaleDateString() : 'N/A'}</h3></div></div>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
         <div className="p-6 border-b border-gray-200 flex flex-col sm:flex-row justify-between items-center gap-4">
-          <h2 className="text-lg font-semibold text-gray-900">Recent Articles</h2>
-          <div className="relative w-full sm:w-64">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
-            <input type="text" placeholder="Search posts..." className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-indigo-500 focus:border-indigo-500" />
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={allVisibleSelected}
+              onChange={toggleAllVisible}
+              disabled={visiblePosts.length === 0}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              aria-label="Select all posts"
+            />
+            <h2 className="text-lg font-semibold text-gray-900">Recent Articles</h2>
+          </div>
+          <div className="flex w-full sm:w-auto gap-3">
+            <select
+              value={statusFilter}
+              onChange={e => changeFilters(search, e.target.value as StatusFilter)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-indigo-500 focus:border-indigo-500"
+              aria-label="Filter by status"
+            >
+              <option value="all">All statuses</option>
+              <option value="published">Published</option>
+              <option value="scheduled">Scheduled</option>
+              <option value="draft">Drafts ({draftCount ?? '…'})</option>
+            </select>
+            <div className="relative w-full sm:w-64">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+              <input type="text" placeholder="Search posts..." value={search} onChange={e => changeFilters(e.target.value, statusFilter)} className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-indigo-500 focus:border-indigo-500" />
+            </div>
           </div>
         </div>
 
-        {posts.length === 0 ? (
+        {selectedIds.size > 0 && (
+          <div className="px-6 py-3 bg-indigo-50 border-b border-indigo-100 flex flex-wrap items-center gap-3 text-sm">
+            <span className="font-medium text-indigo-800">{selectedIds.size} selected</span>
+            <select
+              value={bulkAction}
+              onChange={e => setBulkAction(e.target.value as BulkPostAction)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
+              aria-label="Bulk action"
+            >
+              {(Object.keys(BULK_ACTION_LABELS) as BulkPostAction[]).map(action => (
+                <option key={action} value={action}>{BULK_ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+            {bulkAction === 'setCategory' && (
+              <input type="text" value={bulkCategory} onChange={e => setBulkCategory(e.target.value)} placeholder="Category" className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500" />
+            )}
+            {(bulkAction === 'addKeywords' || bulkAction === 'removeKeywords') && (
+              <input type="text" value={bulkKeywords} onChange={e => setBulkKeywords(e.target.value)} placeholder="keyword, another keyword" className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500" />
+            )}
+            {bulkAction === 'schedule' && (
+              <>
+                <input type="datetime-local" value={bulkStartAt} onChange={e => setBulkStartAt(e.target.value)} className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500" aria-label="First post at" />
+                <label className="flex items-center gap-2 text-gray-600">
+                  every
+                  <input type="number" min={0} value={bulkInterval} onChange={e => setBulkInterval(Math.max(0, Number(e.target.value) || 0))} className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500" />
+                  minutes
+                </label>
+              </>
+            )}
+            <Button className="text-sm py-1.5" onClick={applyBulkAction} isLoading={isApplyingBulk} disabled={!isBulkReady}>Apply</Button>
+            <Button variant="ghost" className="text-sm py-1.5" onClick={() => setSelectedIds(new Set())}>Clear</Button>
+          </div>
+        )}
+
+        {isFiltering && filteredPosts !== null && visiblePosts.length === 0 ? (
+          <div className="p-12 text-center text-gray-500">No posts match your search.</div>
+        ) : posts.length === 0 ? (
           <div className="p-12 text-center flex flex-col items-center">
             <div className="bg-gray-50 p-4 rounded-full mb-4"><FileText className="h-8 w-8 text-gray-400" /></div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No posts yet</h3>
@@ -51,10 +293,18 @@ const Dashboard: React.FC<DashboardProps> = ({ posts, onCreateNew, onViewPost, o
           </div>
         ) : (
           <div className="divide-y divide-gray-200">
-            {posts.map((post, index) => (
+            {visiblePosts.map((post, index) => (
               <div key={post.id ?? index} className="p-6 hover:bg-gray-50 transition-colors group cursor-pointer" onClick={() => onViewPost(post)}>
                 <div className="flex items-start justify-between">
                   <div className="flex gap-4 w-full">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(post.id)}
+                      onClick={e => e.stopPropagation()}
+                      onChange={() => toggleSelected(post.id)}
+                      className="mt-1 h-4 w-4 shrink-0 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      aria-label={`Select ${post.title}`}
+                    />
                     {post.coverImage && <img src={post.coverImage} alt="" className="w-24 h-24 rounded-lg object-cover hidden sm:block shadow-sm" />}
                     <div className="flex-1">
                       <h3 className="text-lg font-semibold text-gray-900 group-hover:text-indigo-600 transition-colors">{post.title}</h3>
@@ -64,12 +314,16 @@ const Dashboard: React.FC<DashboardProps> = ({ posts, onCreateNew, onViewPost, o
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full font-medium bg-green-100 text-green-800 capitalize">{post.status}</span>
                         ) : post.status === 'scheduled' ? (
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full font-medium bg-amber-100 text-amber-800 capitalize">{post.status}</span>
-                        ) : null}
+                        ) : (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full font-medium bg-gray-100 text-gray-700 capitalize">{post.status}</span>
+                        )}
                         <span className="text-gray-400 flex items-center"><Clock size={12} className="mr-1" /> {post.readTime}</span>
                         {post.status === 'scheduled' && post.scheduledDate ? (
                           <span className="text-gray-500 font-medium bg-gray-100 px-2 py-0.5 rounded">Due: {new Date(post.scheduledDate).toLocaleString()}</span>
+                        ) : post.status === 'draft' ? (
+                          <span className="text-gray-500 font-medium bg-gray-100 px-2 py-0.5 rounded">Edited: {new Date(post.dateModified || post.dateCreated).toLocaleString()}</span>
                         ) : (
-                          <span className="text-gray-500 font-medium bg-gray-100 px-2 py-0.5 rounded">{post.dateCreated}</span>
+                          <span className="text-gray-500 font-medium bg-gray-100 px-2 py-0.5 rounded">{new Date(getPublishedDate(post)).toLocaleString()}</span>
                         )}
                       </div>
                     </div>
@@ -82,6 +336,13 @@ const Dashboard: React.FC<DashboardProps> = ({ posts, onCreateNew, onViewPost, o
                 </div>
               </div>
             ))}
+            {visiblePosts.length < (isFiltering ? filteredTotal : totalPosts) && (
+              <div className="p-4 flex justify-center">
+                <Button variant="ghost" className="text-sm" onClick={loadMore} isLoading={isLoadingMore}>
+                  Load more ({visiblePosts.length} of {isFiltering ? filteredTotal : totalPosts})
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Globe, Plus, RefreshCw } from 'lucide-react';
+import { InternalLinkSuggestion, OrphanPost } from '../types';
+import type { InternalLinkRequest } from '../lib/validation';
+
+interface InternalLinksPanelProps {
+  post: InternalLinkRequest;
+  // Adds the link to the editor's document, true when an existing mention was linked
+  onInsertLink: (anchorText: string, href: string) => boolean;
+}
+
+// Sidebar card in the editor: links to add to other published posts, and the
+// published posts nothing links to yet
+const InternalLinksPanel: React.FC<InternalLinksPanelProps> = ({ post, onInsertLink }) => {
+  const [suggestions, setSuggestions] = useState<InternalLinkSuggestion[] | null>(null);
+  const [orphans, setOrphans] = useState<OrphanPost[]>([]);
+  const [showOrphans, setShowOrphans] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchOrphans = async () => {
+      try {
+        const res = await fetch('/api/internal-links/orphans');
+        if (res.ok) setOrphans(await res.json());
+      } catch (e) {
+        console.error("Failed to load orphan posts", e);
+      }
+    };
+    fetchOrphans();
+  }, []);
+
+  const findLinks = async () => {
+    setIsLoading(true);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/internal-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(post),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setSuggestions(await res.json());
+    } catch (e) {
+      console.error("Failed to load link suggestions", e);
+      setNotice("Couldn't load suggestions, try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const insert = (target: { postId: string; slug: string; title: string }, anchorText: string) => {
+    const linkedMention = onInsertLink(anchorText, `/blog/${target.slug}`);
+    setNotice(linkedMention ? `Linked "${anchorText}" to ${target.title}.` : `Added a link to ${target.title} at the cursor.`);
+    setSuggestions(prev => prev ? prev.filter(suggestion => suggestion.postId !== target.postId) : prev);
+    setOrphans(prev => prev.filter(orphan => orphan.id !== target.postId));
+  };
+
+  const otherOrphans = orphans.filter(orphan => orphan.id !== post.postId);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center justify-between">
+        <span className="flex items-center"><Globe className="w-5 h-5 text-indigo-600 mr-2" />Internal Links</span>
+        <button onClick={findLinks} disabled={isLoading} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1 disabled:opacity-50">
+          <RefreshCw size={12} className={isLoading ? 'animate-spin' : ''} />
+          {suggestions ? 'Refresh' : 'Find links'}
+        </button>
+      </h3>
+
+      {notice && <p className="text-xs text-gray-500 mb-3">{notice}</p>}
+
+      {suggestions === null ? (
+        <p className="text-xs text-gray-400 italic">Find published posts worth linking to from this one.</p>
+      ) : suggestions.length === 0 ? (
+        <p className="text-xs text-gray-400 italic">No related posts found. Add tags or a category to find more.</p>
+      ) : (
+        <ul className="space-y-3">
+          {suggestions.map(suggestion => (
+            <li key={suggestion.postId} className="border border-gray-100 rounded-lg p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate" title={suggestion.title}>{suggestion.title}</p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {suggestion.inContent ? <>Anchor: &ldquo;{suggestion.anchorText}&rdquo;</> : 'Not mentioned yet, inserts the title'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => insert(suggestion, suggestion.anchorText)}
+                  className="shrink-0 p-1.5 rounded-full text-indigo-600 hover:bg-indigo-50"
+                  title="Insert link"
+                >
+                  <Plus size={16} />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {suggestion.isOrphan && <span className="text-[10px] px-2 py-0.5 rounded-full bg-amber-50 text-amber-700">Orphan</span>}
+                {suggestion.reasons.map(reason => (
+                  <span key={reason} className="text-[10px] px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{reason}</span>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 pt-4 border-t border-gray-100">
+        <button onClick={() => setShowOrphans(!showOrphans)} className="w-full flex items-center justify-between text-xs font-semibold text-gray-500 uppercase tracking-wider">
+          <span>Orphan posts ({otherOrphans.length})</span>
+          {showOrphans ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        </button>
+        {showOrphans && (
+          otherOrphans.length === 0 ? (
+            <p className="text-xs text-gray-400 italic mt-3">Every published post has at least one inbound link.</p>
+          ) : (
+            <ul className="mt-3 space-y-2">
+              {otherOrphans.map(orphan => (
+                <li key={orphan.id} className="flex items-center justify-between gap-2 text-sm">
+                  <a href={`/blog/${orphan.slug}`} target="_blank" rel="noopener" className="truncate text-gray-700 hover:text-indigo-600" title={orphan.title}>{orphan.title}</a>
+                  <button
+                    onClick={() => insert({ postId: orphan.id, slug: orphan.slug, title: orphan.title }, orphan.title)}
+                    className="shrink-0 p-1 rounded-full text-indigo-600 hover:bg-indigo-50"
+                    title="Link to it from this post"
+                  >
+                    <Plus size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InternalLinksPanel;
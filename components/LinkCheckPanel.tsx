@@ -0,0 +1,113 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
+import { LinkCheck, PostLinkReport } from '../types';
+
+interface LinkCheckPanelProps {
+  postId: string;
+}
+
+// How often to look for results while a check is queued or running
+const POLL_INTERVAL_MS = 10000;
+
+export const describeLinkCheck = (check: LinkCheck) =>
+  check.error || (check.statusCode ? `HTTP ${check.statusCode}` : 'Unknown error');
+
+export const LINK_KIND_LABELS: Record<LinkCheck['kind'], string> = {
+  link: 'Link',
+  image: 'Image',
+  cover: 'Cover image',
+};
+
+// Sidebar card in the editor with the last link audit of the saved post
+const LinkCheckPanel: React.FC<LinkCheckPanelProps> = ({ postId }) => {
+  // null until the post has been saved once
+  const [report, setReport] = useState<PostLinkReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/posts/${postId}/link-checks`);
+      setReport(res.ok ? await res.json() : null);
+    } catch (e) {
+      console.error("Failed to load link checks", e);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  // The scheduler tick runs the check, look for results until it has
+  const isQueued = !!report?.isQueued;
+  useEffect(() => {
+    if (!isQueued) return;
+    const intervalId = setInterval(fetchReport, POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isQueued, fetchReport]);
+
+  const checkLinks = async () => {
+    setIsChecking(true);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/link-checks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ postIds: [postId] }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      await fetchReport();
+    } catch (e) {
+      console.error("Failed to queue the link check", e);
+      setNotice("Couldn't queue the link check, try again.");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const broken = report ? report.checks.filter(check => check.isBroken) : [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center justify-between">
+        <span className="flex items-center"><AlertTriangle className="w-5 h-5 text-indigo-600 mr-2" />Link Check</span>
+        {report && (
+          <button onClick={checkLinks} disabled={isChecking || isQueued} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1 disabled:opacity-50">
+            <RefreshCw size={12} className={isChecking || isQueued ? 'animate-spin' : ''} />
+            {isQueued ? 'Queued…' : 'Check links'}
+          </button>
+        )}
+      </h3>
+
+      {notice && <p className="text-xs text-gray-500 mb-3">{notice}</p>}
+      {isQueued && <p className="text-xs text-gray-500 mb-3">Queued, the links are checked on the next scheduler tick.</p>}
+
+      {!report ? (
+        <p className="text-xs text-gray-400 italic">Save the post to check its links and images.</p>
+      ) : !report.dateChecked ? (
+        <p className="text-xs text-gray-400 italic">Not checked yet. Checks the last saved version.</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 mb-3">
+            {report.checks.length} URLs checked {new Date(report.dateChecked).toLocaleString()}
+            {report.isOutdated && ', the post has changed since'}
+          </p>
+          {broken.length === 0 ? (
+            <p className="text-sm text-green-700 flex items-center"><CheckCircle size={16} className="mr-2" />No broken links or images.</p>
+          ) : (
+            <ul className="space-y-2">
+              {broken.map(check => (
+                <li key={check.url} className="border border-red-100 bg-red-50/50 rounded-lg p-3">
+                  <a href={check.url} target="_blank" rel="noopener noreferrer" className="block text-sm text-gray-800 truncate hover:text-indigo-600" title={check.url}>{check.url}</a>
+                  <p className="text-xs text-red-700 mt-0.5">{LINK_KIND_LABELS[check.kind]}: {describeLinkCheck(check)}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LinkCheckPanel;
@@ -0,0 +1,145 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BrokenLink, LinkAuditOverview, LinkCheckRun } from '../types';
+import Button from './Button';
+import { LINK_KIND_LABELS, describeLinkCheck } from './LinkCheckPanel';
+import { AlertTriangle, CheckCircle, Edit, Loader, RefreshCw } from 'lucide-react';
+
+// How often to look for results while an audit is queued or running
+const POLL_INTERVAL_MS = 10000;
+
+interface LinkHealthViewProps {
+  onEditPost: (postId: string) => void;
+}
+
+const describeRun = (run: LinkCheckRun): string | null => {
+  switch (run.status) {
+    case 'queued': return 'Check queued, it runs on the next scheduler tick.';
+    case 'running': return `Checking since ${new Date(run.dateStarted || run.dateCreated).toLocaleTimeString()}…`;
+    case 'failed': return `The last check failed: ${run.error || 'unknown error'}`;
+    default: return null;
+  }
+};
+
+// Broken links and images across every post, from the last link audit
+const LinkHealthView: React.FC<LinkHealthViewProps> = ({ onEditPost }) => {
+  const [overview, setOverview] = useState<LinkAuditOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isQueueing, setIsQueueing] = useState(false);
+  const latestRun = overview?.latestRun;
+  const isPending = latestRun?.status === 'queued' || latestRun?.status === 'running';
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      const res = await fetch('/api/link-checks');
+      if (res.ok) setOverview(await res.json());
+    } catch (error) {
+      console.error("Failed to load link checks:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOverview();
+  }, [fetchOverview]);
+
+  // The scheduler tick runs the audit, check back until it is done
+  useEffect(() => {
+    if (!isPending) return;
+    const intervalId = setInterval(fetchOverview, POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isPending, fetchOverview]);
+
+  const queueAudit = async () => {
+    setIsQueueing(true);
+    try {
+      const res = await fetch('/api/link-checks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      const run: LinkCheckRun = await res.json();
+      setOverview(prev => prev ? { ...prev, latestRun: run } : prev);
+    } catch (error) {
+      console.error("Failed to queue link audit:", error);
+      alert("Couldn't queue the link check, see the server log for details.");
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  const runStatus = latestRun && describeRun(latestRun);
+
+  // Broken URLs grouped by post, in the order the API sent them
+  const byPost = new Map<string, BrokenLink[]>();
+  for (const link of overview?.broken || []) {
+    byPost.set(link.postId, [...(byPost.get(link.postId) || []), link]);
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Link Health</h1>
+          <p className="text-gray-500 mt-1">
+            {overview?.lastChecked
+              ? `${overview.urlsChecked} URLs in ${overview.postsChecked} posts, last checked ${new Date(overview.lastChecked).toLocaleString()}.`
+              : 'Links and images in your posts that no longer load.'}
+          </p>
+        </div>
+        <Button onClick={queueAudit} isLoading={isQueueing} disabled={isPending} icon={<RefreshCw size={18} />}>Check All Posts</Button>
+      </div>
+
+      {runStatus && (
+        <p className={`text-sm rounded-lg px-4 py-3 ${latestRun?.status === 'failed' ? 'bg-red-50 text-red-700' : 'bg-indigo-50 text-indigo-700'}`}>{runStatus}</p>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-400"><Loader className="animate-spin" size={20} /></div>
+        ) : byPost.size === 0 ? (
+          <div className="p-12 text-center flex flex-col items-center">
+            <div className="bg-gray-50 p-4 rounded-full mb-4"><CheckCircle className="h-8 w-8 text-gray-400" /></div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">{overview?.lastChecked ? 'No broken links' : 'Not checked yet'}</h3>
+            <p className="text-gray-500 max-w-sm">
+              {overview?.lastChecked ? 'Every link and image loaded on the last check.' : 'Check all posts to find links and images that no longer load.'}
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {[...byPost].map(([postId, links]) => (
+              <div key={postId} className="p-6">
+                <div className="flex items-center justify-between gap-4 mb-3">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-semibold text-gray-900 truncate">{links[0].postTitle}</h3>
+                    <p className="text-sm text-gray-500">
+                      {links.length} broken {links.length === 1 ? 'URL' : 'URLs'}
+                      {links[0].isOutdated && ', the post has been edited since the check'}
+                    </p>
+                  </div>
+                  <button onClick={() => onEditPost(postId)} className="p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors shrink-0" title="Edit">
+                    <Edit size={18} />
+                  </button>
+                </div>
+                <ul className="space-y-2">
+                  {links.map(link => (
+                    <li key={link.url} className="flex items-start gap-3 text-sm">
+                      <AlertTriangle size={16} className="text-red-500 shrink-0 mt-0.5" />
+                      <div className="min-w-0">
+                        <a href={link.url} target="_blank" rel="noopener noreferrer" className="block truncate text-gray-800 hover:text-indigo-600" title={link.url}>{link.url}</a>
+                        <p className="text-xs text-red-700">{LINK_KIND_LABELS[link.kind]}: {describeLinkCheck(link)}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LinkHealthView;
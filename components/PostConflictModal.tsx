@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import Button from './Button';
+import { ROW_STYLES } from './RevisionHistoryModal';
+import { BlogPost } from '../types';
+import { stripSchemaHtml } from '../lib/schemaGenerator';
+import { diffLines, htmlToTextLines } from '../lib/diff';
+
+interface PostConflictModalProps {
+    mine: BlogPost;
+    theirs: BlogPost;
+    onOverwrite: () => void;
+    onMerge: (merged: BlogPost) => void;
+    onClose: () => void;
+}
+
+type Side = 'mine' | 'theirs';
+
+// Fields either side can win. Publishing state follows the button the user saves with.
+const MERGEABLE_FIELDS: { field: keyof BlogPost; label: string }[] = [
+    { field: 'title', label: 'Title' },
+    { field: 'slug', label: 'Slug' },
+    { field: 'excerpt', label: 'Excerpt' },
+    { field: 'content', label: 'Content' },
+    { field: 'category', label: 'Category' },
+    { field: 'keywords', label: 'Keywords' },
+    { field: 'readTime', label: 'Read time' },
+    { field: 'coverImage', label: 'Cover image' },
+    { field: 'geoTargeting', label: 'Geo targeting' },
+    { field: 'seoScore', label: 'SEO score' },
+];
+
+// The schema markup is regenerated on every save, so it never counts as a change
+const normalize = (post: BlogPost, field: keyof BlogPost) =>
+    field === 'content' ? stripSchemaHtml(post.content || '') : JSON.stringify(post[field] ?? null);
+
+const formatValue = (post: BlogPost, field: keyof BlogPost) => {
+    const value = post[field];
+    if (field === 'content') return 'See the comparison below';
+    if (Array.isArray(value)) return value.join(', ') || '—';
+    return value === undefined || value === null || value === '' ? '—' : String(value);
+};
+
+const PostConflictModal: React.FC<PostConflictModalProps> = ({ mine, theirs, onOverwrite, onMerge, onClose }) => {
+    const [choices, setChoices] = useState<Partial<Record<keyof BlogPost, Side>>>({});
+
+    const changedFields = MERGEABLE_FIELDS.filter(({ field }) => normalize(mine, field) !== normalize(theirs, field));
+    const contentChanged = changedFields.some(({ field }) => field === 'content');
+
+    const rows = useMemo(
+        () => diffLines(htmlToTextLines(stripSchemaHtml(theirs.content || '')), htmlToTextLines(stripSchemaHtml(mine.content || ''))),
+        [mine, theirs]
+    );
+
+    const handleMerge = () => {
+        const merged: BlogPost = { ...mine, version: theirs.version };
+        for (const { field } of changedFields) {
+            if (choices[field] === 'theirs') {
+                (merged as unknown as Record<string, unknown>)[field] = theirs[field];
+            }
+        }
+        onMerge(merged);
+    };
+
+    const renderChoice = (field: keyof BlogPost, side: Side) => {
+        const post = side === 'mine' ? mine : theirs;
+        const checked = (choices[field] || 'mine') === side;
+        return (
+            <label className={`flex items-start gap-2 px-4 py-2 cursor-pointer border-l border-gray-100 ${checked ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}>
+                <input
+                    type="radio"
+                    name={`conflict-${field}`}
+                    checked={checked}
+                    onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                    className="mt-0.5 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="break-words min-w-0">{formatValue(post, field)}</span>
+            </label>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[85vh] flex flex-col overflow-hidden">
+                {/* Header */}
+                <div className="px-6 py-4 border-b border-gray-100 flex items-start justify-between">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-900 flex items-center"><AlertTriangle className="w-5 h-5 text-amber-500 mr-2" />This post was changed while you were editing</h2>
+                        <p className="text-sm text-gray-500 mt-1">
+                            Someone else saved it{theirs.dateModified ? ` at ${new Date(theirs.dateModified).toLocaleString()}` : ''}. Pick which version of each field to keep, or overwrite their changes with yours.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors" aria-label="Close">
+                        <X className="h-5 w-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto">
+                    {changedFields.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-12 px-4">
+                            None of the fields you edit differ{theirs.status !== mine.status ? `, they changed the status to ${theirs.status}` : ''}.
+                        </p>
+                    ) : (
+                        <div className="text-sm">
+                            <div className="grid grid-cols-[10rem_1fr_1fr] text-xs font-semibold text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                                <div className="px-4 py-2">Field</div>
+                                <div className="px-4 py-2 border-l border-gray-100">Their version</div>
+                                <div className="px-4 py-2 border-l border-gray-100">Your version</div>
+                            </div>
+                            {changedFields.map(({ field, label }) => (
+                                <div key={field} className="grid grid-cols-[10rem_1fr_1fr] border-b border-gray-100">
+                                    <div className="px-4 py-2 font-medium text-gray-700">{label}</div>
+                                    {renderChoice(field, 'theirs')}
+                                    {renderChoice(field, 'mine')}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Side-by-side content diff */}
+                    {contentChanged && (
+                        <div className="font-mono text-xs border-t border-gray-100 mt-4">
+                            <div className="grid grid-cols-2 font-sans font-semibold text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                                <div className="px-4 py-2">Their content</div>
+                                <div className="px-4 py-2 border-l border-gray-100">Your content</div>
+                            </div>
+                            {rows.map((row, idx) => (
+                                <div key={idx} className="grid grid-cols-2">
+                                    <div className={`px-4 py-1 whitespace-pre-wrap break-words ${ROW_STYLES[row.type].left}`}>{row.left}</div>
+                                    <div className={`px-4 py-1 whitespace-pre-wrap break-words border-l border-gray-100 ${ROW_STYLES[row.type].right}`}>{row.right}</div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-end gap-3">
+                    <Button variant="ghost" onClick={onClose}>Cancel</Button>
+                    <Button variant="secondary" onClick={handleMerge}>Load merge into editor</Button>
+                    <Button variant="danger" onClick={onOverwrite}>Overwrite with mine</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PostConflictModal;
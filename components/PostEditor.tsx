@@ -1,22 +1,32 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { generateFullPost, generateCoverImage, generateAndStoreCoverImage } from '@/app/actions/gemini';
-import { BlogPost } from '../types';
+import { Author, BlogPost, Category, PostAutosave, PostConflict, Series, Tag as TagRecord } from '../types';
 import Button from './Button';
-import { Check, Copy, RefreshCw, ArrowLeft, Tag, Clock, Calendar, Sparkles, Wand2, Image as ImageIcon, CalendarClock, Globe, HelpCircle, TrendingUp, BookOpen } from 'lucide-react';
-import TiptapEditor from './TiptapEditor';
+import { Check, Copy, RefreshCw, ArrowLeft, Tag, Clock, Calendar, Sparkles, Wand2, Image as ImageIcon, CalendarClock, Globe, HelpCircle, TrendingUp, BookOpen, History, FileText, User } from 'lucide-react';
+import TiptapEditor, { TiptapEditorHandle } from './TiptapEditor';
+import InternalLinksPanel from './InternalLinksPanel';
+import LinkCheckPanel from './LinkCheckPanel';
 import MediaPickerModal from './MediaPickerModal';
-import { getCombinedSchemaHtml } from '../lib/schemaGenerator';
+import RevisionHistoryModal from './RevisionHistoryModal';
+import PostConflictModal from './PostConflictModal';
+import { getCategorySlug, getCombinedSchemaHtml, stripSchemaHtml } from '../lib/schemaGenerator';
+import { flattenCategoryTree, getCategoryPath } from '../lib/categoryTree';
+import { slugify } from '../lib/slugify';
+
+const AUTOSAVE_DELAY_MS = 2000;
 
 interface PostEditorProps {
   topic: string;
   tone: string;
   initialPost?: BlogPost | null;
-  onPublish: (post: BlogPost) => void;
+  // Resolves with a conflict when someone else saved the post since it was loaded
+  onPublish: (post: BlogPost) => Promise<PostConflict | void>;
   onCancel: () => void;
+  onRevisionRestored?: (post: BlogPost) => void;
   trainingContext?: string;
 }
 
-const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPublish, onCancel, trainingContext }) => {
+const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPublish, onCancel, onRevisionRestored, trainingContext }) => {
   const [loading, setLoading] = useState(!initialPost);
   const [postData, setPostData] = useState<Partial<BlogPost> | null>(initialPost || null);
   const [error, setError] = useState<string | null>(null);
@@ -25,61 +35,87 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
   const [showScheduler, setShowScheduler] = useState(false);
   const [scheduleDate, setScheduleDate] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const contentEditorRef = useRef<TiptapEditorHandle>(null);
   const [isMediaModalOpen, setIsMediaModalOpen] = useState(false);
   const [mediaModalTab, setMediaModalTab] = useState<'storage' | 'url'>('storage');
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // New posts get their id up front so autosaves can be keyed by it
+  const [postId, setPostId] = useState(() => initialPost?.id || Date.now().toString());
+  const [autosavedAt, setAutosavedAt] = useState<string | null>(null);
+  const autosaveBaseline = useRef<string | null>(null);
+  // The stored version the editor's changes are based on, sent with each save
+  const [baseVersion, setBaseVersion] = useState(initialPost?.version);
+  const [conflict, setConflict] = useState<{ mine: BlogPost; theirs: BlogPost } | null>(null);
+  const [authors, setAuthors] = useState<Author[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<TagRecord[]>([]);
+  const [series, setSeries] = useState<Series | null>(null);
 
   // Editing state for new fields
   const [geoTargeting, setGeoTargeting] = useState(initialPost?.geoTargeting || 'Global');
   const [seoScore, setSeoScore] = useState(initialPost?.seoScore || 85);
   const [slug, setSlug] = useState(initialPost?.slug || '');
 
-  const slugify = (text: string) => {
-    return text
-      .toLowerCase()
-      .trim()
-      .replace(/[^\w\s-]/g, '')
-      .replace(/[\s_-]+/g, '-')
-      .replace(/^-+|-+$/g, '');
+  const applyDraft = (draft: Partial<BlogPost>) => {
+    setPostData(draft);
+    setCoverImage(draft.coverImage || null);
+    setGeoTargeting(draft.geoTargeting || 'Global');
+    setSeoScore(draft.seoScore || 85);
+    setSlug(draft.slug || slugify(draft.title || ''));
   };
 
-  // Load from local draft if available
   useEffect(() => {
+    let cancelled = false;
+
     if (initialPost) {
-      setPostData(initialPost);
-      setCoverImage(initialPost.coverImage || null);
-      setGeoTargeting(initialPost.geoTargeting || 'Global');
-      setSeoScore(initialPost.seoScore || 85);
-      setSlug(initialPost.slug || slugify(initialPost.title));
+      applyDraft(initialPost);
+      setPostId(initialPost.id);
+      setBaseVersion(initialPost.version);
       setLoading(false);
-      return;
+
+      // Offer changes that were autosaved after the post was last saved
+      const restoreAutosave = async () => {
+        try {
+          const res = await fetch(`/api/posts/${initialPost.id}/autosave`);
+          if (!res.ok || cancelled) return;
+          const autosave: PostAutosave = await res.json();
+          if (autosave.dateSaved <= (initialPost.dateModified || initialPost.dateCreated)) return;
+
+          if (window.confirm(`Restore unsaved changes from ${new Date(autosave.dateSaved).toLocaleString()}?`)) {
+            applyDraft(autosave.post);
+          } else {
+            await fetch(`/api/posts/${initialPost.id}/autosave`, { method: 'DELETE' });
+          }
+        } catch (e) {
+          console.error("Failed to load autosave", e);
+        }
+      };
+      restoreAutosave();
+      return () => { cancelled = true; };
     }
 
-    // Check for saved draft matching this topic
-    const savedDraft = localStorage.getItem('currentDraft');
-    if (savedDraft) {
+    const fetchPost = async () => {
+      // Pick up an unsaved post written for the same topic
       try {
-        const draft = JSON.parse(savedDraft);
-        // Simple check to see if the draft is for the current topic
-        if (draft.topic === topic) {
+        const res = await fetch(`/api/autosaves?topic=${encodeURIComponent(topic)}`);
+        if (cancelled) return;
+        if (res.ok) {
+          const autosave: PostAutosave = await res.json();
           console.log("Restoring draft for topic:", topic);
-          setPostData(draft.postData);
-          setCoverImage(draft.coverImage);
-          setGeoTargeting(draft.geoTargeting);
-          setSeoScore(draft.seoScore);
-          setSlug(draft.slug || slugify(draft.postData.title || ''));
+          applyDraft(autosave.post);
+          setPostId(autosave.postId);
           setLoading(false);
           return;
         }
       } catch (e) {
-        console.error("Failed to parse draft", e);
+        console.error("Failed to load autosave", e);
       }
-    }
 
-    const fetchPost = async () => {
       try {
         setLoading(true);
         setCoverImage(`https://picsum.photos/800/400?random=${Date.now()}`);
         const data = await generateFullPost(topic, tone, trainingContext);
+        if (cancelled) return;
 
         // Sanitize content to remove duplicate H1 and raw JSON-LD
         let cleanContent = data.content || "";
@@ -111,23 +147,86 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
       }
     };
     fetchPost();
+    return () => { cancelled = true; };
   }, [topic, tone, initialPost]);
 
-  // Save changes to draft
   useEffect(() => {
-    if (postData && !initialPost) {
-      const draft = {
-        topic,
-        postData,
-        coverImage,
-        geoTargeting,
-        seoScore,
-        slug,
-        timestamp: Date.now()
-      };
-      localStorage.setItem('currentDraft', JSON.stringify(draft));
+    const fetchAuthors = async () => {
+      try {
+        const res = await fetch('/api/authors');
+        if (res.ok) setAuthors(await res.json());
+      } catch (e) {
+        console.error("Failed to load authors", e);
+      }
+    };
+    fetchAuthors();
+
+    // Suggestions only, any new name is added to the taxonomy when the post is saved
+    const fetchTaxonomy = async () => {
+      try {
+        const [categoriesRes, tagsRes] = await Promise.all([fetch('/api/categories'), fetch('/api/tags')]);
+        if (categoriesRes.ok) setCategories(await categoriesRes.json());
+        if (tagsRes.ok) setTags(await tagsRes.json());
+      } catch (e) {
+        console.error("Failed to load categories and tags", e);
+      }
+    };
+    fetchTaxonomy();
+  }, []);
+
+  // Series parts keep their place in the series in the schema markup
+  useEffect(() => {
+    if (!initialPost?.seriesId) {
+      setSeries(null);
+      return;
     }
-  }, [postData, coverImage, geoTargeting, seoScore, topic, initialPost]);
+    const fetchSeries = async () => {
+      try {
+        const res = await fetch(`/api/series/${initialPost.seriesId}`);
+        setSeries(res.ok ? await res.json() : null);
+      } catch (e) {
+        console.error("Failed to load the series", e);
+      }
+    };
+    fetchSeries();
+  }, [initialPost?.seriesId]);
+
+  const matchedCategory = categories.find(category => category.slug === getCategorySlug(postData?.category || ''));
+  const categoryPath = getCategoryPath(categories, matchedCategory?.id);
+  const seriesPart = series ? series.postIds.indexOf(postId) + 1 : 0;
+
+  // Autosave to the server shortly after each change
+  useEffect(() => {
+    if (loading || !postData) return;
+
+    const draft: Partial<BlogPost> = { ...postData, coverImage: coverImage || undefined, geoTargeting, seoScore, slug };
+    const snapshot = JSON.stringify(draft);
+    // An existing post as loaded (or just restored) is already saved
+    if (autosaveBaseline.current === null && initialPost) {
+      autosaveBaseline.current = snapshot;
+      return;
+    }
+    if (snapshot === autosaveBaseline.current) return;
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/posts/${postId}/autosave`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ topic: initialPost ? undefined : topic || undefined, post: draft }),
+        });
+        if (res.ok) {
+          const autosave: PostAutosave = await res.json();
+          autosaveBaseline.current = snapshot;
+          setAutosavedAt(autosave.dateSaved);
+        }
+      } catch (error) {
+        console.error("Failed to autosave draft:", error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [postData, coverImage, geoTargeting, seoScore, slug, topic, initialPost, loading, postId]);
 
   const handleGenerateImage = async () => {
     if (!topic && !postData?.title) return;
@@ -160,9 +259,9 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
     setIsMediaModalOpen(false);
   };
 
-  const handleSavePost = () => {
+  const handleSavePost = (asDraft = false) => {
     if (!postData) return;
-    const isScheduled = !!scheduleDate;
+    const isScheduled = !asDraft && !!scheduleDate;
 
     if (isScheduled && new Date(scheduleDate) <= new Date()) {
       alert("Scheduled time must be in the future.");
@@ -175,10 +274,10 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
     const schemaHtml = getCombinedSchemaHtml({
       ...postData,
       title: postData.title,
-      id: initialPost?.id,
+      id: postId,
       slug: slug || slugify(postData.title || ''),
       category: postData.category,
-      dateCreated: initialPost?.dateCreated || new Date().toLocaleString(),
+      dateCreated: initialPost?.dateCreated || new Date().toISOString(),
       coverImage: coverImage,
       geoTargeting: geoTargeting,
       aeoQuestions: postData.aeoQuestions || [],
@@ -186,20 +285,20 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
       commercialIntent: postData.commercialIntent,
       isHowTo: postData.isHowTo,
       steps: postData.steps,
-    } as BlogPost); // Cast to BlogPost for type safety if getCombinedSchemaHtml expects it
+    } as BlogPost, authors.find(author => author.id === postData.authorId), categoryPath, series && seriesPart > 0 ? { series, part: seriesPart } : null); // Cast to BlogPost for type safety if getCombinedSchemaHtml expects it
 
     const finalContent = `${postData.content || ''}\n\n${schemaHtml}`;
 
     const newPost: BlogPost = {
-      id: initialPost?.id || Date.now().toString(),
+      id: postId,
       title: postData.title || "Untitled",
       content: finalContent,
       excerpt: postData.excerpt || "",
       keywords: postData.keywords || [],
       category: postData.category || "General",
       readTime: postData.readTime || "3 min read",
-      dateCreated: initialPost?.dateCreated || new Date().toLocaleString(),
-      status: isScheduled ? 'scheduled' : 'published',
+      dateCreated: initialPost?.dateCreated || new Date().toISOString(),
+      status: asDraft ? 'draft' : isScheduled ? 'scheduled' : 'published',
       coverImage: coverImage || undefined,
       scheduledDate: isScheduled ? new Date(scheduleDate).toISOString() : undefined,
       geoTargeting: geoTargeting,
@@ -209,14 +308,42 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
       commercialIntent: postData.commercialIntent,
       isHowTo: postData.isHowTo,
       steps: postData.steps,
+      version: baseVersion,
+      authorId: postData.authorId || undefined,
     };
 
-    // Clear draft on successful publish
-    if (!initialPost) {
-      localStorage.removeItem('currentDraft');
-    }
+    submitPost(newPost);
+  };
 
-    onPublish(newPost);
+  // Saving discards the autosave on the server
+  const submitPost = async (post: BlogPost) => {
+    const result = await onPublish(post);
+    if (result) setConflict({ mine: post, theirs: result.current });
+  };
+
+  const handleOverwrite = () => {
+    if (!conflict) return;
+    setConflict(null);
+    submitPost({ ...conflict.mine, version: conflict.theirs.version });
+  };
+
+  // Load the merge for review, the next save goes against their version
+  const handleMerge = (merged: BlogPost) => {
+    applyDraft({ ...merged, content: stripSchemaHtml(merged.content) });
+    setBaseVersion(merged.version);
+    setConflict(null);
+  };
+
+  // The restore is already saved server-side, load it into the editor
+  const handleRevisionRestored = (post: BlogPost) => {
+    setPostData(post);
+    setCoverImage(post.coverImage || null);
+    setGeoTargeting(post.geoTargeting || 'Global');
+    setSeoScore(post.seoScore || 85);
+    setSlug(post.slug);
+    setBaseVersion(post.version);
+    autosaveBaseline.current = null;
+    onRevisionRestored?.(post);
   };
 
   const handleCancelAndClear = () => {
@@ -276,10 +403,19 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 gap-4 sticky top-0 bg-[#f8fafc]/80 z-10 py-4 border-b border-gray-200/50 backdrop-blur-sm">
         <Button variant="ghost" onClick={handleCancelAndClear} icon={<ArrowLeft size={18} />}>Back</Button>
         <div className="flex items-center space-x-3">
+          {autosavedAt && (
+            <span className="text-xs text-gray-400">Autosaved {new Date(autosavedAt).toLocaleTimeString()}</span>
+          )}
           <Button variant="secondary" onClick={copyToClipboard} icon={<Copy size={18} />}>Copy Markdown</Button>
+          {initialPost?.id && (
+            <Button variant="secondary" onClick={() => setIsHistoryOpen(true)} icon={<History size={18} />}>History</Button>
+          )}
           <Button variant="secondary" onClick={() => setShowScheduler(!showScheduler)} icon={<CalendarClock size={18} />}>Schedule</Button>
-          <Button onClick={handleSavePost} icon={<Check size={18} />}>
-            {scheduleDate ? 'Schedule Update' : (initialPost ? 'Update Post' : 'Publish Now')}
+          {initialPost?.status !== 'published' && (
+            <Button variant="secondary" onClick={() => handleSavePost(true)} icon={<FileText size={18} />}>Save Draft</Button>
+          )}
+          <Button onClick={() => handleSavePost()} icon={<Check size={18} />}>
+            {scheduleDate ? 'Schedule Update' : (initialPost && initialPost.status !== 'draft' ? 'Update Post' : 'Publish Now')}
           </Button>
         </div>
       </div>
@@ -341,6 +477,7 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
               {/* Editable Content */}
               <div className="mb-8">
                 <TiptapEditor
+                  ref={contentEditorRef}
                   value={postData?.content || ''}
                   onChange={handleContentChange}
                   placeholder="Write your masterpiece..."
@@ -399,6 +536,37 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Byline */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center"><User className="w-5 h-5 text-indigo-600 mr-2" />Author</h3>
+            <select
+              value={postData?.authorId || ''}
+              onChange={(e) => setPostData(prev => prev ? { ...prev, authorId: e.target.value || undefined } : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">AutoBlog AI (no author)</option>
+              {authors.map(author => (
+                <option key={author.id} value={author.id}>{author.name}</option>
+              ))}
+            </select>
+            {authors.length === 0 && (
+              <p className="text-xs text-gray-500 mt-2">Add authors under Authors in the sidebar.</p>
+            )}
+          </div>
+
+          <InternalLinksPanel
+            post={{
+              postId,
+              title: postData?.title || '',
+              content: postData?.content || '',
+              keywords: postData?.keywords || [],
+              category: postData?.category,
+            }}
+            onInsertLink={(anchorText, href) => contentEditorRef.current?.insertLink(anchorText, href) ?? false}
+          />
+
+          <LinkCheckPanel postId={postId} />
+
           {/* AEO / SEO Stats */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center"><TrendingUp className="w-5 h-5 text-indigo-600 mr-2" />Optimization Score</h3>
@@ -479,6 +647,26 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
 
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center"><Sparkles className="w-5 h-5 text-indigo-600 mr-2" />Meta Data</h3>
+            <div className="mb-6">
+              <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">Category</h4>
+              <input
+                type="text"
+                list="category-options"
+                value={postData?.category || ''}
+                onChange={(e) => setPostData(prev => prev ? { ...prev, category: e.target.value } : null)}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <datalist id="category-options">
+                {flattenCategoryTree(categories).map(({ category }) => (
+                  <option key={category.id} value={category.name} />
+                ))}
+              </datalist>
+              {postData?.category?.trim() && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {matchedCategory ? categoryPath.map(category => category.name).join(' › ') : 'New category, added when the post is saved'}
+                </p>
+              )}
+            </div>
             <div className="mb-6">
               <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">Tags</h4>
               <div className="flex flex-wrap gap-2 mb-3">
@@ -501,6 +689,7 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
               <div className="flex gap-2">
                 <input
                   type="text"
+                  list="tag-options"
                   placeholder="Add keyword"
                   className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded focus:ring-indigo-500 focus:border-indigo-500"
                   onKeyDown={(e) => {
@@ -529,6 +718,9 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
                   Add
                 </Button>
               </div>
+              <datalist id="tag-options">
+                {tags.map(tag => <option key={tag.id} value={tag.name} />)}
+              </datalist>
             </div>
             <div>
               <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Meta Description (Excerpt)</h4>
@@ -548,6 +740,24 @@ const PostEditor: React.FC<PostEditorProps> = ({ topic, tone, initialPost, onPub
         onSelect={handleMediaSelect}
         initialTab={mediaModalTab}
       />
+      {initialPost?.id && (
+        <RevisionHistoryModal
+          isOpen={isHistoryOpen}
+          postId={initialPost.id}
+          currentContent={postData?.content || ''}
+          onClose={() => setIsHistoryOpen(false)}
+          onRestored={handleRevisionRestored}
+        />
+      )}
+      {conflict && (
+        <PostConflictModal
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          onOverwrite={handleOverwrite}
+          onMerge={handleMerge}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 };
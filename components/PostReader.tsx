@@ -1,8 +1,10 @@
 import React from 'react';
-import { BlogPost } from '../types';
+import { Author, BlogPost, RelatedPost } from '../types';
 import Button from './Button';
 import { ArrowLeft, Calendar, Clock, Tag, User, Share2, Edit, ChevronDown, ChevronUp, HelpCircle } from 'lucide-react';
-import { aggregateSchemas } from '../lib/schemaGenerator';
+import { aggregateSchemas, getPublishedDate } from '../lib/schemaGenerator';
+import { cleanPostContent } from '../lib/postContent';
+import RelatedPosts from './RelatedPosts';
 
 interface PostReaderProps {
   post: BlogPost;
@@ -11,8 +13,41 @@ interface PostReaderProps {
 }
 
 const PostReader: React.FC<PostReaderProps> = ({ post, onBack, onEdit }) => {
-
-  const schemas = aggregateSchemas(post);
+  const [author, setAuthor] = React.useState<Author | null>(null);
+
+  React.useEffect(() => {
+    if (!post.authorId) return;
+    let cancelled = false;
+    const fetchAuthor = async () => {
+      try {
+        const res = await fetch(`/api/authors/${post.authorId}`);
+        if (res.ok && !cancelled) setAuthor(await res.json());
+      } catch (error) {
+        console.error("Failed to load author:", error);
+      }
+    };
+    fetchAuthor();
+    return () => { cancelled = true; };
+  }, [post.authorId]);
+
+  const [relatedPosts, setRelatedPosts] = React.useState<RelatedPost[]>([]);
+
+  // Unsaved previews aren't in the database yet, the request 404s and nothing shows
+  React.useEffect(() => {
+    let cancelled = false;
+    const fetchRelated = async () => {
+      try {
+        const res = await fetch(`/api/posts/${post.id}/related`);
+        if (res.ok && !cancelled) setRelatedPosts(await res.json());
+      } catch (error) {
+        console.error("Failed to load related posts:", error);
+      }
+    };
+    fetchRelated();
+    return () => { cancelled = true; };
+  }, [post.id, post.version]);
+
+  const schemas = aggregateSchemas(post, post.authorId ? author : null);
 
   // FAQ Accordion State - specific to this component instance
   const [openFaqIndex, setOpenFaqIndex] = React.useState<number | null>(null);
@@ -62,11 +97,11 @@ const PostReader: React.FC<PostReaderProps> = ({ post, onBack, onEdit }) => {
           <div className="flex flex-wrap items-center gap-4 md:gap-8 text-sm text-gray-500 mb-8 border-b border-gray-100 pb-6">
             <div className="flex items-center">
               <User size={16} className="mr-2 text-indigo-500" />
-              <span className="font-medium text-gray-700">AutoBlog AI</span>
+              <span className="font-medium text-gray-700">{(post.authorId && author?.name) || 'AutoBlog AI'}</span>
             </div>
             <div className="flex items-center">
               <Calendar size={16} className="mr-2 text-indigo-500" />
-              <span>{post.dateCreated}</span>
+              <span>{new Date(getPublishedDate(post)).toLocaleDateString()}</span>
             </div>
             <div className="flex items-center">
               <Clock size={16} className="mr-2 text-indigo-500" />
@@ -88,27 +123,7 @@ const PostReader: React.FC<PostReaderProps> = ({ post, onBack, onEdit }) => {
           <div
             className="rich-preview text-gray-800 leading-relaxed"
             dangerouslySetInnerHTML={{
-              __html: (() => {
-                let clean = post.content;
-
-                // Remove explicit H1 title from content if present, to avoid duplication with the page title
-                // Handle both raw Markdown header and HTML header
-                clean = clean.replace(/^#\s+.+\n*/, '');
-                clean = clean.replace(/<h1[^>]*>.*?<\/h1>/i, '');
-
-                // Strategy: Truncate content if a Schema.org block is detected
-                const schemaMatch = clean.match(/(?:```json\s*)?\{\s*"@context"\s*:\s*"https?:\/\/schema\.org"/i);
-                if (schemaMatch && schemaMatch.index !== undefined && schemaMatch.index > 100) {
-                  clean = clean.substring(0, schemaMatch.index);
-                }
-
-                // Fallback cleans for fragments/JSON blocks
-                return clean
-                  .replace(/```json\s*\{[\s\S]*?\n\s*\}\s*```/g, "")
-                  .replace(/\{[\s\S]*?"@context"\s*:\s*"https?:\/\/schema\.org"[\s\S]*?\}/g, "")
-                  .replace(/\[\s*\{[\s\S]*?"@type"\s*:\s*"Question"[\s\S]*?\]/g, "")
-                  .replace(/"@type"\s*:\s*"Question"[\s\S]*?\}/g, "");
-              })()
+              __html: cleanPostContent(post.content)
             }}
           />
 
@@ -148,6 +163,8 @@ const PostReader: React.FC<PostReaderProps> = ({ post, onBack, onEdit }) => {
             </div>
           )}
 
+          <RelatedPosts posts={relatedPosts} openInNewTab />
+
           {/* Footer Tags */}
           <div className="mt-12 pt-8 border-t border-gray-100">
             <h4 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-4 flex items-center">
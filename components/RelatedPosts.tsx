@@ -0,0 +1,51 @@
+import React from 'react';
+import Link from 'next/link';
+import { BookOpen, Clock } from 'lucide-react';
+import { RelatedPost } from '../types';
+
+interface RelatedPostsProps {
+  posts: RelatedPost[];
+  // The management app opens posts on the public blog in a new tab
+  openInNewTab?: boolean;
+}
+
+// "Keep reading" block at the end of a post, renders nothing without posts
+const RelatedPosts: React.FC<RelatedPostsProps> = ({ posts, openInNewTab }) => {
+  if (posts.length === 0) return null;
+
+  return (
+    <section aria-labelledby="related-posts" className="mt-12 pt-8 border-t border-gray-100">
+      <h2 id="related-posts" className="text-2xl font-bold text-gray-900 mb-6 flex items-center">
+        <span className="bg-indigo-100 text-indigo-600 p-2 rounded-lg mr-3">
+          <BookOpen size={24} />
+        </span>
+        Keep Reading
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {posts.map(post => (
+          <Link
+            key={post.id}
+            href={`/blog/${post.slug}`}
+            target={openInNewTab ? '_blank' : undefined}
+            rel={openInNewTab ? 'noopener' : undefined}
+            className="group flex flex-col rounded-xl border border-gray-200 overflow-hidden hover:border-indigo-300 hover:shadow-md transition-all"
+          >
+            {post.coverImage && (
+              <img src={post.coverImage} alt={post.title} className="w-full h-36 object-cover" />
+            )}
+            <div className="p-4 flex flex-col flex-1">
+              <span className="text-xs font-semibold text-indigo-600 mb-1">{post.category}</span>
+              <h3 className="font-bold text-gray-900 leading-snug group-hover:text-indigo-600 line-clamp-2">{post.title}</h3>
+              <p className="text-sm text-gray-600 mt-2 line-clamp-3 flex-1">{post.excerpt}</p>
+              <span className="text-xs text-gray-400 mt-3 flex items-center">
+                <Clock size={12} className="mr-1" /> {post.readTime}
+              </span>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RelatedPosts;
@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, X, Loader } from 'lucide-react';
+import Button from './Button';
+import { BlogPost, PostRevision } from '../types';
+import { stripSchemaHtml } from '../lib/schemaGenerator';
+import { diffLines, htmlToLines, htmlToTextLines, DiffRow } from '../lib/diff';
+
+interface RevisionHistoryModalProps {
+    isOpen: boolean;
+    postId: string;
+    currentContent: string;
+    onClose: () => void;
+    onRestored: (post: BlogPost) => void;
+}
+
+export const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+    same: { left: 'text-gray-600', right: 'text-gray-600' },
+    removed: { left: 'bg-red-50 text-red-800', right: 'bg-gray-50' },
+    added: { left: 'bg-gray-50', right: 'bg-green-50 text-green-800' },
+    changed: { left: 'bg-red-50 text-red-800', right: 'bg-green-50 text-green-800' },
+};
+
+const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({ isOpen, postId, currentContent, onClose, onRestored }) => {
+    const [revisions, setRevisions] = useState<PostRevision[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [selected, setSelected] = useState<PostRevision | null>(null);
+    const [mode, setMode] = useState<'text' | 'html'>('text');
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const fetchRevisions = async () => {
+            setLoading(true);
+            try {
+                const res = await fetch(`/api/posts/${postId}/revisions`);
+                if (res.ok) setRevisions(await res.json());
+            } catch (error) {
+                console.error("Failed to load revisions:", error);
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchRevisions();
+    }, [isOpen, postId]);
+
+    const selectRevision = async (revision: PostRevision) => {
+        try {
+            const res = await fetch(`/api/posts/${postId}/revisions/${revision.id}`);
+            if (res.ok) setSelected(await res.json());
+        } catch (error) {
+            console.error("Failed to load revision:", error);
+        }
+    };
+
+    const rows = useMemo(() => {
+        if (!selected?.post) return [];
+        const split = mode === 'text' ? htmlToTextLines : htmlToLines;
+        return diffLines(split(stripSchemaHtml(selected.post.content || '')), split(stripSchemaHtml(currentContent || '')));
+    }, [selected, currentContent, mode]);
+
+    const handleRestore = async () => {
+        if (!selected) return;
+        if (!window.confirm(`Restore revision #${selected.id}? Your current version stays in the history.`)) return;
+
+        setIsRestoring(true);
+        try {
+            const res = await fetch(`/api/posts/${postId}/revisions/${selected.id}/restore`, { method: 'POST' });
+            if (!res.ok) throw new Error((await res.json()).error || 'Restore failed');
+            onRestored(await res.json());
+            onClose();
+        } catch (error) {
+            console.error("Failed to restore revision:", error);
+            alert(error instanceof Error && error.message ? error.message : "Failed to restore revision.");
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[85vh] flex flex-col overflow-hidden">
+                {/* Header */}
+                <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+                    <h2 className="text-xl font-bold text-gray-900 flex items-center"><History className="w-5 h-5 text-indigo-600 mr-2" />Revision History</h2>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors" aria-label="Close">
+                        <X className="h-5 w-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="flex flex-1 overflow-hidden">
+                    {/* Revision list */}
+                    <div className="w-64 border-r border-gray-100 overflow-y-auto bg-gray-50/50">
+                        {loading ? (
+                            <div className="flex items-center justify-center py-12 text-gray-400"><Loader className="animate-spin" size={20} /></div>
+                        ) : revisions.length === 0 ? (
+                            <p className="text-sm text-gray-500 text-center py-12 px-4">No revisions saved yet.</p>
+                        ) : (
+                            revisions.map(revision => (
+                                <button
+                                    key={revision.id}
+                                    onClick={() => selectRevision(revision)}
+                                    className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${selected?.id === revision.id ? 'bg-indigo-50' : 'hover:bg-white'}`}
+                                >
+                                    <div className="text-sm font-medium text-gray-900">#{revision.id} · {new Date(revision.dateCreated).toLocaleString()}</div>
+                                    <div className="text-xs text-gray-500 truncate">{revision.title}</div>
+                                    {revision.reason === 'restore' && (
+                                        <div className="text-xs text-indigo-600 mt-1">Restored from #{revision.restoredFromId}</div>
+                                    )}
+                                </button>
+                            ))
+                        )}
+                    </div>
+
+                    {/* Side-by-side diff */}
+                    <div className="flex-1 flex flex-col overflow-hidden">
+                        {!selected ? (
+                            <div className="flex-1 flex items-center justify-center text-gray-400 text-sm">Select a revision to compare it with the editor.</div>
+                        ) : (
+                            <>
+                                <div className="px-6 py-3 border-b border-gray-100 flex items-center justify-between">
+                                    <div className="flex gap-1 text-sm">
+                                        <Button variant={mode === 'text' ? 'secondary' : 'ghost'} className="text-xs px-3 py-1" onClick={() => setMode('text')}>Text</Button>
+                                        <Button variant={mode === 'html' ? 'secondary' : 'ghost'} className="text-xs px-3 py-1" onClick={() => setMode('html')}>HTML</Button>
+                                    </div>
+                                    <Button onClick={handleRestore} isLoading={isRestoring} icon={<RotateCcw size={16} />}>Restore this version</Button>
+                                </div>
+                                <div className="grid grid-cols-2 text-xs font-semibold text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                                    <div className="px-4 py-2">Revision #{selected.id}</div>
+                                    <div className="px-4 py-2 border-l border-gray-100">Current</div>
+                                </div>
+                                <div className="flex-1 overflow-y-auto font-mono text-xs">
+                                    {rows.map((row, idx) => (
+                                        <div key={idx} className="grid grid-cols-2">
+                                            <div className={`px-4 py-1 whitespace-pre-wrap break-words ${ROW_STYLES[row.type].left}`}>{row.left}</div>
+                                            <div className={`px-4 py-1 whitespace-pre-wrap break-words border-l border-gray-100 ${ROW_STYLES[row.type].right}`}>{row.right}</div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RevisionHistoryModal;
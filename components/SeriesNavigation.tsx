@@ -0,0 +1,57 @@
+import React from 'react';
+import Link from 'next/link';
+import { ArrowLeft, ArrowRight, BookOpen } from 'lucide-react';
+import type { SeriesNavigation as SeriesNavigationData } from '../lib/series';
+
+interface SeriesNavigationProps {
+  navigation: SeriesNavigationData;
+}
+
+// "Part N of M" block on a post that belongs to a series. Unpublished parts
+// are listed without their titles.
+const SeriesNavigation: React.FC<SeriesNavigationProps> = ({ navigation }) => {
+  const { series, part, parts, previous, next } = navigation;
+
+  return (
+    <nav aria-label={`${series.title} series`} className="mt-12 rounded-xl border border-indigo-100 bg-indigo-50/50 p-6">
+      <p className="text-xs font-semibold text-indigo-600 uppercase tracking-wider flex items-center mb-1">
+        <BookOpen size={14} className="mr-2" /> Part {part} of {parts.length}
+      </p>
+      <Link href={`/blog/series/${series.slug}`} className="text-lg font-bold text-gray-900 hover:text-indigo-600">
+        {series.title}
+      </Link>
+
+      <ol className="mt-4 space-y-2">
+        {parts.map(link => (
+          <li key={link.part} className="flex items-baseline gap-3 text-sm">
+            <span className="w-6 shrink-0 text-right font-semibold text-gray-400">{link.part}.</span>
+            {link.part === part ? (
+              <span aria-current="page" className="font-semibold text-indigo-700">{link.title}</span>
+            ) : link.slug ? (
+              <Link href={`/blog/${link.slug}`} className="text-gray-700 hover:text-indigo-600">{link.title}</Link>
+            ) : (
+              <span className="italic text-gray-400">Coming soon</span>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {(previous || next) && (
+        <div className="mt-6 pt-4 border-t border-indigo-100 flex flex-col sm:flex-row justify-between gap-4 text-sm">
+          {previous ? (
+            <Link href={`/blog/${previous.slug}`} rel="prev" className="inline-flex items-center text-gray-600 hover:text-indigo-600">
+              <ArrowLeft size={16} className="mr-2 shrink-0" /> Part {previous.part}: {previous.title}
+            </Link>
+          ) : <span />}
+          {next && (
+            <Link href={`/blog/${next.slug}`} rel="next" className="inline-flex items-center text-gray-600 hover:text-indigo-600 sm:text-right">
+              Part {next.part}: {next.title} <ArrowRight size={16} className="ml-2 shrink-0" />
+            </Link>
+          )}
+        </div>
+      )}
+    </nav>
+  );
+};
+
+export default SeriesNavigation;
@@ -0,0 +1,277 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { PostSummary, Series } from '../types';
+import Button from './Button';
+import { Book, ChevronDown, ChevronUp, Edit, Eye, Loader, Plus, Trash2, X } from 'lucide-react';
+
+interface SeriesViewProps {
+  // Changing the parts moves posts in and out of series on the server
+  onPostsChanged: () => void;
+}
+
+interface SeriesForm {
+  id: string;
+  title: string;
+  slug: string;
+  description: string;
+  postIds: string[];
+}
+
+const toForm = (series?: Series): SeriesForm => ({
+  id: series?.id || Date.now().toString(),
+  title: series?.title || '',
+  slug: series?.slug || '',
+  description: series?.description || '',
+  postIds: series?.postIds || [],
+});
+
+const alertError = async (label: string, res: Response) => {
+  const { error, details } = await res.json();
+  const fieldErrors = (details || []).map((d: { field: string; message: string }) => `${d.field} ${d.message}`);
+  alert(`Failed to ${label}: ${[error, ...fieldErrors].join('\n')}`);
+};
+
+const SeriesView: React.FC<SeriesViewProps> = ({ onPostsChanged }) => {
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  // Every post, not just the pages the dashboard has loaded, to pick parts from
+  const [posts, setPosts] = useState<PostSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<SeriesForm | null>(null);
+  const [postToAdd, setPostToAdd] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSeries = async () => {
+      try {
+        const res = await fetch('/api/series');
+        if (res.ok) setSeriesList(await res.json());
+      } catch (error) {
+        console.error("Failed to load series:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSeries();
+  }, []);
+
+  const fetchPosts = useCallback(async () => {
+    try {
+      const res = await fetch('/api/posts?fields=summary');
+      if (res.ok) setPosts(await res.json());
+    } catch (error) {
+      console.error("Failed to load posts:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  const postsChanged = () => {
+    fetchPosts();
+    onPostsChanged();
+  };
+
+  const postsById = new Map(posts.map(post => [post.id, post]));
+
+  const updateForm = (field: 'title' | 'slug' | 'description', value: string) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev);
+  };
+
+  const movePart = (index: number, offset: number) => {
+    setForm(prev => {
+      if (!prev) return prev;
+      const postIds = [...prev.postIds];
+      [postIds[index], postIds[index + offset]] = [postIds[index + offset], postIds[index]];
+      return { ...prev, postIds };
+    });
+  };
+
+  const removePart = (postId: string) => {
+    setForm(prev => prev ? { ...prev, postIds: prev.postIds.filter(id => id !== postId) } : prev);
+  };
+
+  const addPart = () => {
+    if (!postToAdd) return;
+    setForm(prev => prev ? { ...prev, postIds: [...prev.postIds, postToAdd] } : prev);
+    setPostToAdd('');
+  };
+
+  // Details first, then the parts, so a new series exists before posts join it
+  const handleSave = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      const res = await fetch('/api/series', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: form.id,
+          title: form.title.trim(),
+          slug: form.slug.trim(),
+          description: form.description.trim() || undefined,
+        }),
+      });
+      if (!res.ok) return await alertError('save series', res);
+      let saved: Series = await res.json();
+
+      if (saved.postIds.join() !== form.postIds.join()) {
+        const partsRes = await fetch(`/api/series/${saved.id}/posts`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ postIds: form.postIds }),
+        });
+        if (!partsRes.ok) return await alertError('save the parts', partsRes);
+        saved = await partsRes.json();
+        postsChanged();
+      }
+
+      setSeriesList(prev => [...prev.filter(s => s.id !== saved.id), saved].sort((a, b) => a.title.localeCompare(b.title)));
+      setForm(null);
+    } catch (error) {
+      console.error("Failed to save series:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (series: Series) => {
+    if (!window.confirm(`Delete ${series.title}? Its posts stay, as standalone posts.`)) return;
+    try {
+      const res = await fetch(`/api/series/${series.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setSeriesList(prev => prev.filter(s => s.id !== series.id));
+      if (form?.id === series.id) setForm(null);
+      postsChanged();
+    } catch (error) {
+      console.error("Failed to delete series:", error);
+    }
+  };
+
+  // Posts in another series can be picked too, saving moves them over
+  const addablePosts = form ? posts.filter(post => !form.postIds.includes(post.id)) : [];
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Series</h1>
+          <p className="text-gray-500 mt-1">Multi-part guides with &quot;Part N of M&quot; navigation and a landing page.</p>
+        </div>
+        <Button onClick={() => setForm(toForm())} icon={<Plus size={18} />}>New Series</Button>
+      </div>
+
+      {form && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">{seriesList.some(s => s.id === form.id) ? 'Edit Series' : 'New Series'}</h2>
+            <button onClick={() => setForm(null)} className="p-2 hover:bg-gray-100 rounded-full transition-colors" aria-label="Close">
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm font-medium text-gray-700">Title
+              <input type="text" value={form.title} onChange={e => updateForm('title', e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">Slug
+              <input type="text" value={form.slug} onChange={e => updateForm('slug', e.target.value)} placeholder="Derived from the title" className={`mt-1 ${inputClass}`} />
+            </label>
+          </div>
+          <label className="block text-sm font-medium text-gray-700">Description
+            <textarea value={form.description} onChange={e => updateForm('description', e.target.value)} rows={3} className={`mt-1 ${inputClass}`} />
+          </label>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Parts</p>
+            {form.postIds.length === 0 ? (
+              <p className="text-sm text-gray-400 italic mb-3">No parts yet.</p>
+            ) : (
+              <ol className="border border-gray-200 rounded-lg divide-y divide-gray-100 mb-3">
+                {form.postIds.map((postId, index) => {
+                  const post = postsById.get(postId);
+                  return (
+                    <li key={postId} className="flex items-center gap-3 px-4 py-2 text-sm">
+                      <span className="w-6 text-right font-semibold text-gray-400">{index + 1}.</span>
+                      <span className="flex-1 truncate text-gray-800">{post?.title || postId}</span>
+                      {post && post.status !== 'published' && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-50 text-yellow-700">{post.status}</span>
+                      )}
+                      <button onClick={() => movePart(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30" title="Move up">
+                        <ChevronUp size={16} />
+                      </button>
+                      <button onClick={() => movePart(index, 1)} disabled={index === form.postIds.length - 1} className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30" title="Move down">
+                        <ChevronDown size={16} />
+                      </button>
+                      <button onClick={() => removePart(postId)} className="p-1 text-gray-400 hover:text-red-600" title="Remove from series">
+                        <X size={16} />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+            <div className="flex gap-3">
+              <select value={postToAdd} onChange={e => setPostToAdd(e.target.value)} className={`${inputClass} bg-white`}>
+                <option value="">Add a post…</option>
+                {addablePosts.map(post => (
+                  <option key={post.id} value={post.id}>
+                    {post.title}{post.seriesId && post.seriesId !== form.id ? ' (in another series)' : ''}
+                  </option>
+                ))}
+              </select>
+              <Button variant="secondary" onClick={addPart} disabled={!postToAdd}>Add</Button>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button variant="ghost" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} isLoading={isSaving} disabled={!form.title.trim()}>Save Series</Button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-400"><Loader className="animate-spin" size={20} /></div>
+        ) : seriesList.length === 0 ? (
+          <div className="p-12 text-center flex flex-col items-center">
+            <div className="bg-gray-50 p-4 rounded-full mb-4"><Book className="h-8 w-8 text-gray-400" /></div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No series yet</h3>
+            <p className="text-gray-500 max-w-sm">Create one here, or plan and draft a whole series from the Topic Generator.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {seriesList.map(series => {
+              const published = series.postIds.filter(id => postsById.get(id)?.status === 'published').length;
+              return (
+                <div key={series.id} className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-semibold text-gray-900 truncate">{series.title}</h3>
+                    <p className="text-sm text-gray-500 truncate">
+                      {series.postIds.length} {series.postIds.length === 1 ? 'part' : 'parts'}, {published} published
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {published > 0 && (
+                      <a href={`/blog/series/${series.slug}`} target="_blank" rel="noopener" className="p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors" title="View series page">
+                        <Eye size={18} />
+                      </a>
+                    )}
+                    <button onClick={() => setForm(toForm(series))} className="p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors" title="Edit">
+                      <Edit size={18} />
+                    </button>
+                    <button onClick={() => handleDelete(series)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors" title="Delete">
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SeriesView;
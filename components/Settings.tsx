@@ -36,8 +36,8 @@ const Settings: React.FC<SettingsProps> = ({
   };
 
   const handleRemoveNicheSchedule = (id: string) => {
+    // The server removes the schedule's unpublished slots along with it
     onNicheSchedulesChange(nicheSchedules.filter(s => s.id !== id));
-    // Optional: Remove associated future slots? For now, we keep them or let App handle cleanup if we wanted to be strict.
   };
 
   const handleSelectTopic = (slotId: string, topic: GeneratedTopic) => {
@@ -147,7 +147,11 @@ const Settings: React.FC<SettingsProps> = ({
                     <span className="text-xs px-2 py-1 rounded-full bg-indigo-100 text-indigo-700 font-medium">{slot.niche}</span>
                   </div>
                   <div className="flex items-center">
-                    {slot.status === 'ready' ? (
+                    {slot.status === 'publishing' ? (
+                      <span className="flex items-center text-indigo-600 text-sm font-medium">
+                        <Loader size={16} className="mr-1 animate-spin" /> Publishing...
+                      </span>
+                    ) : slot.status === 'ready' ? (
                       <span className="flex items-center text-green-700 text-sm font-medium">
                         <CheckCircle size={16} className="mr-1" /> Ready to Publish
                       </span>
@@ -160,7 +164,12 @@ const Settings: React.FC<SettingsProps> = ({
                 </div>
 
                 <div className="p-5">
-                  {slot.status === 'ready' && slot.selectedTopic ? (
+                  {slot.status === 'publishing' ? (
+                    <div className="flex items-center text-gray-500 text-sm py-4">
+                      <Loader className="animate-spin mr-2" size={16} />
+                      Writing and publishing the full post...
+                    </div>
+                  ) : slot.status === 'ready' && slot.selectedTopic ? (
                     <div className="flex justify-between items-center">
                       <div>
                         <h4 className="font-bold text-gray-900 text-lg mb-1">{slot.selectedTopic.topic}</h4>
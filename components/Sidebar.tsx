@@ -1,5 +1,5 @@
 import React from 'react';
-import { LayoutDashboard, PenTool, BookOpen, Settings, GraduationCap, Sparkles } from 'lucide-react';
+import { AlertTriangle, LayoutDashboard, PenTool, Book, BookOpen, Settings, GraduationCap, Sparkles, Tag, Trash2, User } from 'lucide-react';
 import { ViewState } from '../types';
 
 interface SidebarProps {
@@ -15,6 +15,11 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, activeView, onNavigate, onTog
         { id: 'generator', label: 'Topic Generator', icon: Sparkles },
         { id: 'training', label: 'Training Hub', icon: GraduationCap },
         { id: 'storage', label: 'Storage', icon: BookOpen },
+        { id: 'authors', label: 'Authors', icon: User },
+        { id: 'taxonomy', label: 'Categories & Tags', icon: Tag },
+        { id: 'series', label: 'Series', icon: Book },
+        { id: 'links', label: 'Link Health', icon: AlertTriangle },
+        { id: 'trash', label: 'Trash', icon: Trash2 },
         { id: 'settings', label: 'Settings', icon: Settings },
     ];
 
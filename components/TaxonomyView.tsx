@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from 'react';
+import { Category, Tag as TagRecord } from '../types';
+import Button from './Button';
+import { flattenCategoryTree, getDescendantIds } from '../lib/categoryTree';
+import { Edit, Eye, Loader, Plus, Tag, Trash2, X } from 'lucide-react';
+
+interface TaxonomyViewProps {
+  // Renames, merges and deletes rewrite the category or keywords of posts
+  onPostsChanged: () => void;
+}
+
+type TermKind = 'category' | 'tag';
+
+interface TermForm {
+  kind: TermKind;
+  id: string;
+  name: string;
+  description: string;
+  parentId: string; // Categories only, empty for top-level
+}
+
+interface MergeForm {
+  kind: TermKind;
+  source: Category | TagRecord;
+  targetId: string;
+}
+
+const ENDPOINTS: Record<TermKind, string> = { category: '/api/categories', tag: '/api/tags' };
+const LABELS: Record<TermKind, string> = { category: 'Category', tag: 'Tag' };
+
+const toForm = (kind: TermKind, term?: Category | TagRecord): TermForm => ({
+  kind,
+  id: term?.id || Date.now().toString(),
+  name: term?.name || '',
+  description: term?.description || '',
+  parentId: (term as Category | undefined)?.parentId || '',
+});
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+
+const describeErrors = async (res: Response) => {
+  const { error, details } = await res.json();
+  const fieldErrors = (details || []).map((d: { field: string; message: string }) => `${d.field} ${d.message}`);
+  return [error, ...fieldErrors].filter(Boolean).join('\n');
+};
+
+const TaxonomyView: React.FC<TaxonomyViewProps> = ({ onPostsChanged }) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<TagRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<TermForm | null>(null);
+  const [merge, setMerge] = useState<MergeForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchTaxonomy = async () => {
+    try {
+      const [categoriesRes, tagsRes] = await Promise.all([fetch(ENDPOINTS.category), fetch(ENDPOINTS.tag)]);
+      if (categoriesRes.ok) setCategories(await categoriesRes.json());
+      if (tagsRes.ok) setTags(await tagsRes.json());
+    } catch (error) {
+      console.error("Failed to load taxonomy:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTaxonomy();
+  }, []);
+
+  const updateForm = (field: keyof TermForm, value: string) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev);
+  };
+
+  const openForm = (kind: TermKind, term?: Category | TagRecord) => {
+    setMerge(null);
+    setForm(toForm(kind, term));
+  };
+
+  const openMerge = (kind: TermKind, source: Category | TagRecord) => {
+    setForm(null);
+    setMerge({ kind, source, targetId: '' });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      const res = await fetch(ENDPOINTS[form.kind], {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: form.id,
+          name: form.name.trim(),
+          description: form.description.trim() || undefined,
+          ...(form.kind === 'category' && { parentId: form.parentId || undefined }),
+        }),
+      });
+      if (!res.ok) {
+        alert(`Failed to save ${form.kind}: ${await describeErrors(res)}`);
+        return;
+      }
+      // Counts and renamed posts come back with a fresh load
+      await fetchTaxonomy();
+      onPostsChanged();
+      setForm(null);
+    } catch (error) {
+      console.error(`Failed to save ${form.kind}:`, error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!merge?.targetId) return;
+    setIsSaving(true);
+    try {
+      const res = await fetch(`${ENDPOINTS[merge.kind]}/${merge.source.id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetId: merge.targetId }),
+      });
+      if (!res.ok) {
+        alert(`Failed to merge ${merge.kind}: ${await describeErrors(res)}`);
+        return;
+      }
+      await fetchTaxonomy();
+      onPostsChanged();
+      setMerge(null);
+    } catch (error) {
+      console.error(`Failed to merge ${merge.kind}:`, error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (kind: TermKind, term: Category | TagRecord) => {
+    const consequence = kind === 'category'
+      ? 'Categories nested in it move up a level.'
+      : `It is removed from the keywords of ${term.postCount || 0} posts.`;
+    if (!window.confirm(`Delete ${term.name}? ${consequence}`)) return;
+    try {
+      const res = await fetch(`${ENDPOINTS[kind]}/${term.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        alert(await describeErrors(res));
+        return;
+      }
+      if (kind === 'category') {
+        setCategories(prev => prev
+          .filter(c => c.id !== term.id)
+          .map(c => c.parentId === term.id ? { ...c, parentId: (term as Category).parentId } : c));
+      } else {
+        setTags(prev => prev.filter(t => t.id !== term.id));
+        onPostsChanged();
+      }
+      if (form?.id === term.id) setForm(null);
+      if (merge?.source.id === term.id) setMerge(null);
+    } catch (error) {
+      console.error(`Failed to delete ${kind}:`, error);
+    }
+  };
+
+  // A category can't move below itself
+  const parentOptions = form?.kind === 'category'
+    ? flattenCategoryTree(categories).filter(({ category }) => !getDescendantIds(categories, form.id).includes(category.id))
+    : [];
+
+  // Nor can one merge into a category nested below it
+  const mergeTargets: { term: Category | TagRecord; depth: number }[] = !merge ? [] : merge.kind === 'category'
+    ? flattenCategoryTree(categories)
+      .filter(({ category }) => !getDescendantIds(categories, merge.source.id).includes(category.id))
+      .map(({ category, depth }) => ({ term: category, depth }))
+    : tags.filter(t => t.id !== merge.source.id).sort(byName).map(tag => ({ term: tag, depth: 0 }));
+
+  // Options can't be styled, indent nested categories with non-breaking spaces
+  const indent = (depth: number) => '\u00a0\u00a0'.repeat(depth);
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500";
+  const iconButtonClass = "p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors";
+
+  const renderActions = (kind: TermKind, term: Category | TagRecord) => (
+    <div className="flex items-center gap-2 shrink-0">
+      <a href={`/blog/${kind}/${term.slug}`} target="_blank" rel="noopener" className={iconButtonClass} title="View page">
+        <Eye size={18} />
+      </a>
+      <button onClick={() => openForm(kind, term)} className={iconButtonClass} title="Edit">
+        <Edit size={18} />
+      </button>
+      <Button variant="ghost" onClick={() => openMerge(kind, term)} className="text-xs px-2 py-1 h-auto">Merge</Button>
+      <button onClick={() => handleDelete(kind, term)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors" title="Delete">
+        <Trash2 size={18} />
+      </button>
+    </div>
+  );
+
+  const renderPostCount = (count?: number) => `${count || 0} ${count === 1 ? 'post' : 'posts'}`;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Categories & Tags</h1>
+          <p className="text-gray-500 mt-1">New names from posts and the AI are added automatically, tidy them up here.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => openForm('tag')} icon={<Plus size={18} />}>New Tag</Button>
+          <Button onClick={() => openForm('category')} icon={<Plus size={18} />}>New Category</Button>
+        </div>
+      </div>
+
+      {form && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">
+              {(form.kind === 'category' ? categories : tags).some(t => t.id === form.id) ? 'Edit' : 'New'} {LABELS[form.kind]}
+            </h2>
+            <button onClick={() => setForm(null)} className="p-2 hover:bg-gray-100 rounded-full transition-colors" aria-label="Close">
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm font-medium text-gray-700">Name
+              <input type="text" value={form.name} onChange={e => updateForm('name', e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+            {form.kind === 'category' && (
+              <label className="block text-sm font-medium text-gray-700">Parent
+                <select value={form.parentId} onChange={e => updateForm('parentId', e.target.value)} className={`mt-1 ${inputClass}`}>
+                  <option value="">None (top level)</option>
+                  {parentOptions.map(({ category, depth }) => (
+                    <option key={category.id} value={category.id}>{indent(depth)}{category.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+          <label className="block text-sm font-medium text-gray-700">Description
+            <textarea value={form.description} onChange={e => updateForm('description', e.target.value)} rows={3} placeholder="Shown on the public page" className={`mt-1 ${inputClass}`} />
+          </label>
+          <p className="text-xs text-gray-500">Renaming changes the public URL and updates every post using it.</p>
+          <div className="flex justify-end gap-3">
+            <Button variant="ghost" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} isLoading={isSaving} disabled={!form.name.trim()}>Save {LABELS[form.kind]}</Button>
+          </div>
+        </div>
+      )}
+
+      {merge && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Merge {merge.source.name}</h2>
+            <button onClick={() => setMerge(null)} className="p-2 hover:bg-gray-100 rounded-full transition-colors" aria-label="Close">
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+          <label className="block text-sm font-medium text-gray-700">Into
+            <select value={merge.targetId} onChange={e => setMerge(prev => prev ? { ...prev, targetId: e.target.value } : prev)} className={`mt-1 ${inputClass}`}>
+              <option value="">Choose a {merge.kind}</option>
+              {mergeTargets.map(({ term, depth }) => (
+                <option key={term.id} value={term.id}>{indent(depth)}{term.name}</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-gray-500">
+            Its {renderPostCount(merge.source.postCount)} move over{merge.kind === 'category' ? ', along with any nested categories,' : ''} and {merge.source.name} is deleted.
+          </p>
+          <div className="flex justify-end gap-3">
+            <Button variant="ghost" onClick={() => setMerge(null)}>Cancel</Button>
+            <Button onClick={handleMerge} isLoading={isSaving} disabled={!merge.targetId}>Merge</Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12 text-gray-400"><Loader className="animate-spin" size={20} /></div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <h2 className="px-6 py-4 border-b border-gray-200 text-lg font-semibold text-gray-900">Categories</h2>
+            {categories.length === 0 ? (
+              <p className="p-6 text-gray-500">No categories yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {flattenCategoryTree(categories).map(({ category, depth }) => (
+                  <div key={category.id} className="p-4 flex items-center justify-between gap-4" style={{ paddingLeft: `${1.5 + depth * 1.5}rem` }}>
+                    <div className="min-w-0">
+                      <h3 className="font-semibold text-gray-900 truncate">{category.name}</h3>
+                      <p className="text-xs text-gray-500 truncate">{renderPostCount(category.postCount)}{category.description ? ` · ${category.description}` : ''}</p>
+                    </div>
+                    {renderActions('category', category)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <h2 className="px-6 py-4 border-b border-gray-200 text-lg font-semibold text-gray-900">Tags</h2>
+            {tags.length === 0 ? (
+              <p className="p-6 text-gray-500">No tags yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {[...tags].sort(byName).map(tag => (
+                  <div key={tag.id} className="p-4 pl-6 flex items-center justify-between gap-4">
+                    <div className="min-w-0 flex items-center gap-2">
+                      <Tag size={14} className="text-green-600 shrink-0" />
+                      <div className="min-w-0">
+                        <h3 className="font-semibold text-gray-900 truncate">{tag.name}</h3>
+                        <p className="text-xs text-gray-500 truncate">{renderPostCount(tag.postCount)}{tag.description ? ` · ${tag.description}` : ''}</p>
+                      </div>
+                    </div>
+                    {renderActions('tag', tag)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxonomyView;
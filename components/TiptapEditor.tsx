@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useCallback, useEffect } from 'react';
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle } from 'react';
 import { marked } from 'marked';
 
 // Auto-detects Markdown and converts to HTML so legacy posts render correctly
@@ -50,6 +50,39 @@ interface TiptapEditorProps {
     placeholder?: string;
 }
 
+export interface TiptapEditorHandle {
+    // Links the first unlinked mention of text outside headings and code, or
+    // inserts text as a link at the cursor. Returns whether a mention was linked.
+    insertLink: (text: string, href: string) => boolean;
+}
+
+// Site links open in the same tab and keep their link equity, unlike the
+// toolbar's external links
+const INTERNAL_LINK_ATTRS = { target: null, rel: null };
+
+const isWordChar = (char: string | undefined) => !!char && /[a-z0-9\u00c0-\u024f]/i.test(char);
+
+// Document range of the first whole-word, case-insensitive match in a text
+// node that isn't already a link, in paragraphs, lists and quotes
+const findUnlinkedText = (editor: Editor, text: string): { from: number; to: number } | null => {
+    const needle = text.toLowerCase();
+    let range: { from: number; to: number } | null = null;
+    editor.state.doc.descendants((node, pos, parent) => {
+        if (range) return false;
+        if (!node.isText || !node.text || parent?.type.name === 'heading' || parent?.type.name === 'codeBlock') return;
+        if (node.marks.some(mark => mark.type.name === 'link')) return;
+
+        const haystack = node.text.toLowerCase();
+        for (let idx = haystack.indexOf(needle); idx !== -1; idx = haystack.indexOf(needle, idx + 1)) {
+            if (!isWordChar(node.text[idx - 1]) && !isWordChar(node.text[idx + needle.length])) {
+                range = { from: pos + idx, to: pos + idx + needle.length };
+                return false;
+            }
+        }
+    });
+    return range;
+};
+
 // ─── Toolbar Button ────────────────────────────────────────────────────────────
 const ToolbarButton = ({
     onClick,
@@ -210,7 +243,7 @@ const Toolbar = ({
 };
 
 // ─── Main Editor Component ─────────────────────────────────────────────────────
-const TiptapEditor: React.FC<TiptapEditorProps> = ({ value, onChange, placeholder = 'Write your masterpiece...' }) => {
+const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(({ value, onChange, placeholder = 'Write your masterpiece...' }, ref) => {
     const [isMediaModalOpen, setIsMediaModalOpen] = React.useState(false);
     const [mediaModalTab, setMediaModalTab] = React.useState<'storage' | 'url'>('storage');
 
@@ -254,6 +287,23 @@ const TiptapEditor: React.FC<TiptapEditorProps> = ({ value, onChange, placeholde
         }, 100);
     }, [editor]);
 
+    useImperativeHandle(ref, () => ({
+        insertLink: (text: string, href: string) => {
+            if (!editor) return false;
+            const range = findUnlinkedText(editor, text);
+            if (range) {
+                editor.chain().focus().setTextSelection(range).setLink({ href, ...INTERNAL_LINK_ATTRS }).run();
+                return true;
+            }
+            editor.chain().focus().insertContent({
+                type: 'text',
+                text,
+                marks: [{ type: 'link', attrs: { href, ...INTERNAL_LINK_ATTRS } }],
+            }).run();
+            return false;
+        },
+    }), [editor]);
+
     const openMediaModal = (tab: 'storage' | 'url' = 'storage') => {
         setMediaModalTab(tab);
         setIsMediaModalOpen(true);
@@ -294,6 +344,8 @@ const TiptapEditor: React.FC<TiptapEditorProps> = ({ value, onChange, placeholde
             />
         </div>
     );
-};
+});
+
+TiptapEditor.displayName = 'TiptapEditor';
 
 export default TiptapEditor;
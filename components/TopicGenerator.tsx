@@ -1,16 +1,19 @@
 import React, { useState } from 'react';
-import { Sparkles, ArrowRight, Target } from 'lucide-react';
-import { generateTopics } from '@/app/actions/gemini';
-import { GeneratedTopic } from '../types';
+import { Sparkles, ArrowRight, Target, Book, CheckCircle, Loader } from 'lucide-react';
+import { createSeries, draftSeriesPart, generateTopics, planSeries } from '@/app/actions/gemini';
+import { BlogPost, GeneratedTopic, SeriesPlan } from '../types';
 import Button from './Button';
 
 interface TopicGeneratorProps {
   onTopicSelect: (topic: string, tone: string) => void;
   onCancel: () => void;
+  // Called once every part of a planned series has been drafted
+  onSeriesDrafted: (posts: BlogPost[]) => void;
   trainingContext?: string;
 }
 
-const TopicGenerator: React.FC<TopicGeneratorProps> = ({ onTopicSelect, onCancel, trainingContext }) => {
+const TopicGenerator: React.FC<TopicGeneratorProps> = ({ onTopicSelect, onCancel, onSeriesDrafted, trainingContext }) => {
+  const [mode, setMode] = useState<'single' | 'series'>('single');
   const [niche, setNiche] = useState('');
   const [tone, setTone] = useState('Professional & Informative');
   const [suggestionCount, setSuggestionCount] = useState(3);
@@ -19,6 +22,14 @@ const TopicGenerator: React.FC<TopicGeneratorProps> = ({ onTopicSelect, onCancel
   const [topics, setTopics] = useState<GeneratedTopic[]>([]);
   const [error, setError] = useState<string | null>(null);
 
+  // Series mode: the plan is reviewed, then the parts are drafted one at a time
+  // so each builds on the last. A failed part can be retried, the drafted ones stay.
+  const [partCount, setPartCount] = useState(4);
+  const [plan, setPlan] = useState<SeriesPlan | null>(null);
+  const [seriesId, setSeriesId] = useState<string | null>(null);
+  const [draftedParts, setDraftedParts] = useState<BlogPost[]>([]);
+  const [isDrafting, setIsDrafting] = useState(false);
+
   const handleGenerate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!niche.trim()) return;
@@ -26,15 +37,45 @@ const TopicGenerator: React.FC<TopicGeneratorProps> = ({ onTopicSelect, onCancel
     setIsLoading(true);
     setError(null);
     try {
-      const results = await generateTopics(niche, trainingContext, suggestionCount);
-      setTopics(results);
+      if (mode === 'series') {
+        setPlan(await planSeries(niche, partCount, trainingContext));
+        setSeriesId(null);
+        setDraftedParts([]);
+      } else {
+        const results = await generateTopics(niche, trainingContext, suggestionCount);
+        setTopics(results);
+      }
     } catch (err) {
-      setError("Failed to find topics. Please try again.");
+      setError(mode === 'series' ? "Failed to plan the series. Please try again." : "Failed to find topics. Please try again.");
     } finally {
       setIsLoading(false);
     }
   };
 
+  const updatePlanPart = (index: number, title: string) => {
+    setPlan(prev => prev ? { ...prev, parts: prev.parts.map((part, i) => i === index ? { ...part, title } : part) } : prev);
+  };
+
+  const handleDraftSeries = async () => {
+    if (!plan) return;
+    setIsDrafting(true);
+    setError(null);
+    const drafted = [...draftedParts];
+    try {
+      const id = seriesId || (await createSeries(plan)).id;
+      setSeriesId(id);
+      for (let index = drafted.length; index < plan.parts.length; index++) {
+        drafted.push(await draftSeriesPart(id, plan, index, tone, trainingContext));
+        setDraftedParts([...drafted]);
+      }
+      onSeriesDrafted(drafted);
+    } catch {
+      setError(`Drafting stopped at part ${drafted.length + 1}. The parts drafted so far are saved, continue to try again.`);
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
   const tones = [
     "Professional & Informative",
     "Casual & Friendly",
@@ -48,10 +89,27 @@ const TopicGenerator: React.FC<TopicGeneratorProps> = ({ onTopicSelect, onCancel
     <div className="max-w-4xl mx-auto">
       <div className="mb-8 text-center">
         <h2 className="text-3xl font-bold text-gray-900 mb-2">What do you want to write about?</h2>
-        <p className="text-gray-500">Enter a niche or subject, and our AI will suggest viral-worthy topics.</p>
+        <p className="text-gray-500">
+          {mode === 'series'
+            ? 'Enter a niche, and our AI will plan a multi-part series and draft every part.'
+            : 'Enter a niche or subject, and our AI will suggest viral-worthy topics.'}
+        </p>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+        <div className="inline-flex rounded-lg border border-gray-200 p-1 mb-6">
+          {(['single', 'series'] as const).map(value => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setMode(value)}
+              disabled={isDrafting}
+              className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${mode === value ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              {value === 'single' ? 'Single post' : 'Series'}
+            </button>
+          ))}
+        </div>
         <form onSubmit={handleGenerate} className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
@@ -73,20 +131,35 @@ const TopicGenerator: React.FC<TopicGeneratorProps> = ({ onTopicSelect, onCancel
               </div>
             </div>
             <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Suggestions
-                </label>
-                <select
-                  value={suggestionCount}
-                  onChange={(e) => setSuggestionCount(parseInt(e.target.value))}
-                  className="block w-full pl-3 pr-10 py-3 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 bg-white"
-                >
-                  <option value={3}>3 Ideas</option>
-                  <option value={5}>5 Ideas</option>
-                  <option value={10}>10 Ideas</option>
-                </select>
-              </div>
+              {mode === 'series' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Parts
+                  </label>
+                  <select
+                    value={partCount}
+                    onChange={(e) => setPartCount(parseInt(e.target.value))}
+                    className="block w-full pl-3 pr-10 py-3 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                  >
+                    {[3, 4, 5, 6, 8].map(count => <option key={count} value={count}>{count} Parts</option>)}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Suggestions
+                  </label>
+                  <select
+                    value={suggestionCount}
+                    onChange={(e) => setSuggestionCount(parseInt(e.target.value))}
+                    className="block w-full pl-3 pr-10 py-3 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                  >
+                    <option value={3}>3 Ideas</option>
+                    <option value={5}>5 Ideas</option>
+                    <option value={10}>10 Ideas</option>
+                  </select>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Tone
@@ -105,45 +178,103 @@ const TopicGenerator: React.FC<TopicGeneratorProps> = ({ onTopicSelect, onCancel
             <Button
               type="submit"
               isLoading={isLoading}
-              icon={<Sparkles size={18} />}
+              disabled={isDrafting}
+              icon={mode === 'series' ? <Book size={18} /> : <Sparkles size={18} />}
               className="w-full md:w-auto"
             >
-              Generate Ideas
+              {mode === 'series' ? 'Plan Series' : 'Generate Ideas'}
             </Button>
           </div>
         </form>
 
-        <div className="mt-8 pt-8 border-t border-gray-100">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Or enter your own topic
-          </label>
-          <div className="flex flex-col md:flex-row gap-4">
+        {mode === 'single' && (
+          <div className="mt-8 pt-8 border-t border-gray-100">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Or enter your own topic
+            </label>
+            <div className="flex flex-col md:flex-row gap-4">
+              <input
+                type="text"
+                value={customTopic}
+                onChange={(e) => setCustomTopic(e.target.value)}
+                className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                placeholder="Enter your custom topic title here..."
+              />
+              <Button
+                variant="secondary"
+                onClick={() => customTopic.trim() && onTopicSelect(customTopic, tone)}
+                disabled={!customTopic.trim()}
+                className="whitespace-nowrap"
+              >
+                Use Custom Topic
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 mb-6 bg-red-50 text-red-700 rounded-lg border border-red-200 text-center">
+          {error}
+        </div>
+      )}
+
+      {mode === 'series' && plan && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6 animate-fade-in">
+          <div>
             <input
               type="text"
-              value={customTopic}
-              onChange={(e) => setCustomTopic(e.target.value)}
-              className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
-              placeholder="Enter your custom topic title here..."
+              value={plan.title}
+              onChange={(e) => setPlan({ ...plan, title: e.target.value })}
+              disabled={seriesId !== null}
+              className="w-full text-xl font-semibold text-gray-900 px-3 py-2 border border-gray-200 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-50"
+              aria-label="Series title"
             />
+            <p className="text-sm text-gray-500 mt-2 px-3">{plan.description}</p>
+          </div>
+          <ol className="space-y-3">
+            {plan.parts.map((part, index) => (
+              <li key={index} className="flex gap-4 items-start">
+                <span className="mt-2 w-6 text-right font-semibold text-gray-400 shrink-0">{index + 1}.</span>
+                <div className="flex-1">
+                  <input
+                    type="text"
+                    value={part.title}
+                    onChange={(e) => updatePlanPart(index, e.target.value)}
+                    disabled={index < draftedParts.length || isDrafting}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-50"
+                    aria-label={`Part ${index + 1} title`}
+                  />
+                  <p className="text-sm text-gray-500 mt-1 px-3">{part.summary}</p>
+                </div>
+                <span className="mt-2.5 w-5 shrink-0">
+                  {index < draftedParts.length
+                    ? <CheckCircle size={18} className="text-green-600" />
+                    : isDrafting && index === draftedParts.length && <Loader size={18} className="animate-spin text-indigo-600" />}
+                </span>
+              </li>
+            ))}
+          </ol>
+          <div className="flex flex-col sm:flex-row items-center justify-between gap-4 pt-4 border-t border-gray-100">
+            <p className="text-sm text-gray-500">
+              {isDrafting
+                ? `Drafting part ${draftedParts.length + 1} of ${plan.parts.length}…`
+                : 'Parts are saved as drafts in the series, review and publish them from the Dashboard.'}
+            </p>
             <Button
-              variant="secondary"
-              onClick={() => customTopic.trim() && onTopicSelect(customTopic, tone)}
-              disabled={!customTopic.trim()}
+              onClick={handleDraftSeries}
+              isLoading={isDrafting}
+              disabled={!plan.title.trim() || plan.parts.some(part => !part.title.trim())}
+              icon={<Sparkles size={18} />}
               className="whitespace-nowrap"
             >
-              Use Custom Topic
+              {draftedParts.length > 0 ? 'Continue Drafting' : `Draft ${plan.parts.length} Parts`}
             </Button>
           </div>
         </div>
-      </div>
-
-      {error && (
-        <div className="p-4 mb-6 bg-red-50 text-red-700 rounded-lg border border-red-200 text-center">
-          {error}
-        </div>
       )}
 
-      {topics.length > 0 && (
+      {mode === 'single' && topics.length > 0 && (
         <div className="space-y-4 animate-fade-in">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Suggested Topics</h3>
           <div className="grid grid-cols-1 gap-4">
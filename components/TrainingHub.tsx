@@ -63,7 +63,7 @@ const TrainingHub: React.FC<TrainingHubProps> = ({ favoriteModules, onToggleFavo
       title: newDataTitle,
       content: newDataContent,
       type: newDataType,
-      dateAdded: new Date().toLocaleDateString()
+      dateAdded: new Date().toISOString()
     };
 
     onTrainingDataChange([...trainingData, newData]);
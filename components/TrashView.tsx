@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { BlogPost } from '../types';
+import Button from './Button';
+import { Loader, RotateCcw, Trash2 } from 'lucide-react';
+
+interface TrashViewProps {
+  onRestored: (post: BlogPost) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashView: React.FC<TrashViewProps> = ({ onRestored }) => {
+  const [posts, setPosts] = useState<BlogPost[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTrash = async () => {
+      try {
+        const res = await fetch('/api/trash');
+        if (res.ok) {
+          const data = await res.json();
+          setPosts(data.posts);
+          setRetentionDays(data.retentionDays);
+        }
+      } catch (error) {
+        console.error("Failed to load trash:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchTrash();
+  }, []);
+
+  const getDaysLeft = (post: BlogPost) => {
+    const purgeAt = new Date(post.deletedAt as string).getTime() + retentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+  };
+
+  const handleRestore = async (post: BlogPost) => {
+    setBusyId(post.id);
+    try {
+      const res = await fetch(`/api/trash/${post.id}/restore`, { method: 'POST' });
+      if (!res.ok) throw new Error((await res.json()).error || 'Restore failed');
+      setPosts(prev => prev.filter(p => p.id !== post.id));
+      onRestored(await res.json());
+    } catch (error) {
+      console.error("Failed to restore post:", error);
+      alert(error instanceof Error && error.message ? error.message : "Failed to restore post.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (post: BlogPost) => {
+    if (!window.confirm(`Permanently delete "${post.title}"? Its revision history goes with it and this cannot be undone.`)) return;
+    setBusyId(post.id);
+    try {
+      const res = await fetch(`/api/trash/${post.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error || 'Delete failed');
+      setPosts(prev => prev.filter(p => p.id !== post.id));
+    } catch (error) {
+      console.error("Failed to delete post:", error);
+      alert(error instanceof Error && error.message ? error.message : "Failed to delete post.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!window.confirm(`Permanently delete all ${posts.length} posts in the trash? This cannot be undone.`)) return;
+    setBusyId('all');
+    try {
+      const res = await fetch('/api/trash', { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error || 'Emptying the trash failed');
+      setPosts([]);
+    } catch (error) {
+      console.error("Failed to empty trash:", error);
+      alert(error instanceof Error && error.message ? error.message : "Failed to empty trash.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+          <p className="text-gray-500 mt-1">
+            {retentionDays > 0
+              ? `Deleted posts are kept for ${retentionDays} days, then removed for good.`
+              : 'Deleted posts are kept until you remove them.'}
+          </p>
+        </div>
+        <Button variant="danger" onClick={handleEmptyTrash} isLoading={busyId === 'all'} disabled={posts.length === 0 || busyId !== null} icon={<Trash2 size={18} />}>
+          Empty Trash
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-400"><Loader className="animate-spin" size={20} /></div>
+        ) : posts.length === 0 ? (
+          <div className="p-12 text-center flex flex-col items-center">
+            <div className="bg-gray-50 p-4 rounded-full mb-4"><Trash2 className="h-8 w-8 text-gray-400" /></div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Trash is empty</h3>
+            <p className="text-gray-500 max-w-sm">Posts you delete from the dashboard end up here.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {posts.map(post => (
+              <div key={post.id} className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="text-lg font-semibold text-gray-900 truncate">{post.title}</h3>
+                  <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+                    <span className="capitalize">{post.status}</span>
+                    <span>Deleted {new Date(post.deletedAt as string).toLocaleString()}</span>
+                    {retentionDays > 0 && (
+                      <span className="text-red-600">Removed in {getDaysLeft(post)} days</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button variant="secondary" onClick={() => handleRestore(post)} disabled={busyId !== null} icon={<RotateCcw size={16} />}>Restore</Button>
+                  <Button variant="ghost" onClick={() => handlePurge(post)} disabled={busyId !== null} className="text-red-600 hover:bg-red-50" icon={<Trash2 size={16} />}>Delete forever</Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashView;
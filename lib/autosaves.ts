@@ -0,0 +1,49 @@
+import db, { Row } from './db';
+import { parseJson, toIsoString } from './repositories/mappers';
+import { PostAutosave } from '../types';
+
+const mapAutosaveRow = (row: Row): PostAutosave => ({
+    postId: row.postId as string,
+    topic: (row.topic as string | null) ?? undefined,
+    post: parseJson(row.snapshot, {}),
+    dateSaved: toIsoString(row.dateSaved) || ''
+});
+
+// Each post keeps only its latest autosave
+export const saveAutosave = async (autosave: Omit<PostAutosave, 'dateSaved'>): Promise<PostAutosave> => {
+    const dateSaved = new Date();
+    const { dialect } = db;
+    await db.execute(
+        `INSERT INTO post_autosaves (postId, topic, snapshot, dateSaved) VALUES (?, ?, ?, ?)
+        ${dialect.onConflictUpdate('postId', {
+            topic: dialect.excluded('topic'),
+            snapshot: dialect.excluded('snapshot'),
+            dateSaved: dialect.excluded('dateSaved')
+        })}`,
+        [autosave.postId, autosave.topic || null, JSON.stringify(autosave.post), dateSaved]
+    );
+    return { ...autosave, dateSaved: dateSaved.toISOString() };
+};
+
+export const getAutosave = async (postId: string): Promise<PostAutosave | null> => {
+    const rows = await db.query('SELECT * FROM post_autosaves WHERE postId = ?', [postId]);
+    return rows.length > 0 ? mapAutosaveRow(rows[0]) : null;
+};
+
+// The newest autosave for a topic whose post was never saved
+export const findUnsavedAutosave = async (topic: string): Promise<PostAutosave | null> => {
+    const rows = await db.query(
+        `SELECT a.* FROM post_autosaves a
+         LEFT JOIN posts p ON p.id = a.postId
+         WHERE a.topic = ? AND p.id IS NULL
+         ORDER BY a.dateSaved DESC
+         LIMIT 1`,
+        [topic]
+    );
+    return rows.length > 0 ? mapAutosaveRow(rows[0]) : null;
+};
+
+export const deleteAutosave = async (postId: string): Promise<boolean> => {
+    const result = await db.execute('DELETE FROM post_autosaves WHERE postId = ?', [postId]);
+    return result.affectedRows > 0;
+};
@@ -0,0 +1,49 @@
+import { Category } from '../types';
+
+// Walks the parentId links of a list of categories. Kept free of database
+// access so the editor can use it on what /api/categories returned. A parent
+// that no longer exists makes a category top-level, and a loop is cut where it
+// closes.
+
+// From the top-level category down to the category itself, empty when it isn't in the list
+export const getCategoryPath = (categories: Category[], id: string | undefined): Category[] => {
+    const byId = new Map(categories.map(category => [category.id, category]));
+    const path: Category[] = [];
+    let current = id ? byId.get(id) : undefined;
+    while (current && !path.includes(current)) {
+        path.unshift(current);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+};
+
+// Ids of the category and everything nested below it
+export const getDescendantIds = (categories: Category[], id: string): string[] => {
+    const ids = [id];
+    for (let i = 0; i < ids.length; i++) {
+        for (const category of categories) {
+            if (category.parentId === ids[i] && !ids.includes(category.id)) ids.push(category.id);
+        }
+    }
+    return ids;
+};
+
+// Depth-first with each category's depth, for indented lists and pickers.
+// Siblings keep the order they came in.
+export const flattenCategoryTree = (categories: Category[]): { category: Category; depth: number }[] => {
+    const ids = new Set(categories.map(category => category.id));
+    const isTopLevel = (category: Category) => !category.parentId || !ids.has(category.parentId);
+    const flattened: { category: Category; depth: number }[] = [];
+    const visited = new Set<string>();
+
+    const visit = (category: Category, depth: number) => {
+        if (visited.has(category.id)) return;
+        visited.add(category.id);
+        flattened.push({ category, depth });
+        categories.filter(child => child.parentId === category.id).forEach(child => visit(child, depth + 1));
+    };
+    categories.filter(isTopLevel).forEach(category => visit(category, 0));
+    // Whatever is left sits in a loop, list it at the top level rather than lose it
+    categories.forEach(category => visit(category, 0));
+    return flattened;
+};
@@ -0,0 +1,24 @@
+import { ChangeSet } from '../types';
+
+// Compares two versions of a collection by id. An item counts as updated when
+// any of its fields differ.
+export const getChangeSet = <T extends { id: string }>(previous: T[], next: T[]): ChangeSet<T> => {
+    const previousById = new Map(previous.map(item => [item.id, item]));
+    const nextIds = new Set(next.map(item => item.id));
+    const changes: ChangeSet<T> = { created: [], updated: [], deleted: [] };
+
+    for (const item of next) {
+        const before = previousById.get(item.id);
+        if (!before) {
+            changes.created.push(item);
+        } else if (JSON.stringify(before) !== JSON.stringify(item)) {
+            changes.updated.push(item);
+        }
+    }
+    changes.deleted = previous.filter(item => !nextIds.has(item.id)).map(item => item.id);
+
+    return changes;
+};
+
+export const isEmptyChangeSet = (changes: ChangeSet<unknown>) =>
+    changes.created.length === 0 && changes.updated.length === 0 && changes.deleted.length === 0;
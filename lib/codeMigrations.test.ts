@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Database } from './db';
+import { createSqliteDatabase } from './storage/sqlite';
+import { BlogPost } from '../types';
+import { CODE_MIGRATIONS } from './codeMigrations';
+import { PostRepository } from './repositories/PostRepository';
+
+const reslugTaxonomy = CODE_MIGRATIONS.find(migration => migration.name === 'taxonomy_slugs')!.run;
+
+const makePost = (id: string, categoryId: string): BlogPost => ({
+    id,
+    slug: id,
+    title: `Post ${id}`,
+    excerpt: '',
+    content: '',
+    keywords: [],
+    category: categoryId,
+    categoryId,
+    dateCreated: new Date().toISOString(),
+    status: 'draft',
+    readTime: '1 min read'
+});
+
+describe('taxonomy_slugs migration', () => {
+    let db: Database;
+
+    beforeEach(() => {
+        db = createSqliteDatabase(':memory:');
+    });
+
+    afterEach(() => db.close());
+
+    const addTerm = (table: string, id: string, name: string, dateCreated: string) =>
+        db.execute(`INSERT INTO ${table} (id, slug, name, dateCreated) VALUES (?, ?, ?, ?)`, [id, id, name, dateCreated]);
+
+    it('re-slugs categories and merges the ones that now share a slug into the oldest', async () => {
+        await addTerm('categories', 'ai/ml', 'AI/ML', '2030-01-01T00:00:00.000Z');
+        await addTerm('categories', 'ai-ml', 'AI ML', '2030-01-02T00:00:00.000Z');
+        await addTerm('categories', 'c#', 'C#', '2030-01-03T00:00:00.000Z');
+        await new PostRepository(db).insert(makePost('a', 'ai-ml'));
+
+        await reslugTaxonomy(db);
+
+        assert.deepEqual(
+            await db.query('SELECT id, slug FROM categories ORDER BY id'),
+            [{ id: 'ai/ml', slug: 'ai-ml' }, { id: 'c#', slug: 'c-sharp' }]
+        );
+        const post = await new PostRepository(db).findById('a');
+        assert.equal(post?.categoryId, 'ai/ml');
+        assert.equal(post?.category, 'AI/ML');
+    });
+
+    it('moves the posts of merged tags to the tag that is kept', async () => {
+        await addTerm('tags', 'tea  time', 'Tea  time', '2030-01-01T00:00:00.000Z');
+        await addTerm('tags', 'tea-time', 'tea time', '2030-01-02T00:00:00.000Z');
+        await db.execute('INSERT INTO post_tags (postId, tagId) VALUES (?, ?), (?, ?), (?, ?)', [
+            'a', 'tea  time', 'a', 'tea-time', 'b', 'tea-time'
+        ]);
+
+        await reslugTaxonomy(db);
+
+        assert.deepEqual(await db.query('SELECT id, slug FROM tags'), [{ id: 'tea  time', slug: 'tea-time' }]);
+        assert.deepEqual(
+            await db.query('SELECT postId, tagId FROM post_tags ORDER BY postId'),
+            [{ postId: 'a', tagId: 'tea  time' }, { postId: 'b', tagId: 'tea  time' }]
+        );
+    });
+});
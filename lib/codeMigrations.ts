@@ -0,0 +1,79 @@
+import type { Database } from './db';
+import { getCategorySlug, getTagSlug } from './schemaGenerator';
+
+// Migrations that compute values SQL can't. They are numbered along with the
+// files in migrations/ and recorded the same way, so never change one that has
+// been applied either, add another.
+export interface CodeMigration {
+    version: string;
+    name: string;
+    run: (db: Database) => Promise<void>;
+}
+
+interface TaxonomyRow {
+    id: string;
+    slug: string;
+    name: string;
+}
+
+// Groups the rows by the slug their name has now, oldest row first
+const groupBySlug = (rows: TaxonomyRow[], getSlug: (name: string) => string) => {
+    const groups = new Map<string, TaxonomyRow[]>();
+    for (const row of rows) {
+        const slug = getSlug(row.name);
+        groups.set(slug, [...(groups.get(slug) || []), row]);
+    }
+    return groups;
+};
+
+// Gives each row its new slug. Changed rows go through a temporary slug first
+// so the unique index never sees two rows with the same one.
+const applySlugs = async (db: Database, table: 'categories' | 'tags', groups: Map<string, TaxonomyRow[]>) => {
+    const changed = [...groups].flatMap(([slug, [keeper]]) => keeper.slug !== slug ? [{ id: keeper.id, slug }] : []);
+    for (const { id } of changed) {
+        await db.execute(`UPDATE ${table} SET slug = ? WHERE id = ?`, [`~${id}`, id]);
+    }
+    for (const { id, slug } of changed) {
+        await db.execute(`UPDATE ${table} SET slug = ? WHERE id = ?`, [slug, id]);
+    }
+};
+
+// Category and tag slugs used to keep punctuation and collapse only spaces,
+// and the 0007 backfill didn't even collapse those. Recomputes every slug with
+// getCategorySlug/getTagSlug and merges rows that now share one into the oldest.
+const reslugTaxonomy = async (db: Database) => {
+    const categories = groupBySlug(
+        await db.query<TaxonomyRow & Record<string, unknown>>('SELECT id, slug, name FROM categories ORDER BY dateCreated ASC, id ASC'),
+        getCategorySlug
+    );
+    for (const [keeper, ...duplicates] of categories.values()) {
+        for (const duplicate of duplicates) {
+            await db.execute('UPDATE posts SET categoryId = ?, category = ?, version = version + 1 WHERE categoryId = ?', [keeper.id, keeper.name, duplicate.id]);
+            await db.execute('UPDATE categories SET parentId = ? WHERE parentId = ?', [keeper.id, duplicate.id]);
+            await db.execute('DELETE FROM categories WHERE id = ?', [duplicate.id]);
+        }
+    }
+    // A category merged into one of its own children
+    await db.execute('UPDATE categories SET parentId = NULL WHERE parentId = id');
+    await applySlugs(db, 'categories', categories);
+
+    const tags = groupBySlug(
+        await db.query<TaxonomyRow & Record<string, unknown>>('SELECT id, slug, name FROM tags ORDER BY dateCreated ASC, id ASC'),
+        getTagSlug
+    );
+    for (const [keeper, ...duplicates] of tags.values()) {
+        for (const duplicate of duplicates) {
+            await db.execute(
+                `${db.dialect.insertIgnore} INTO post_tags (postId, tagId) SELECT postId, ? FROM post_tags WHERE tagId = ?`,
+                [keeper.id, duplicate.id]
+            );
+            await db.execute('DELETE FROM post_tags WHERE tagId = ?', [duplicate.id]);
+            await db.execute('DELETE FROM tags WHERE id = ?', [duplicate.id]);
+        }
+    }
+    await applySlugs(db, 'tags', tags);
+};
+
+export const CODE_MIGRATIONS: CodeMigration[] = [
+    { version: '0015', name: 'taxonomy_slugs', run: reslugTaxonomy }
+];
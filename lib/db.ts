@@ -1,39 +1,95 @@
-import mysql from 'mysql2/promise';
-
-let pool: mysql.Pool;
-
-if (process.env.NODE_ENV === 'production') {
-    pool = mysql.createPool({
-        host: process.env.DB_HOST,
-        user: process.env.DB_USER,
-        password: process.env.DB_PASSWORD,
-        database: process.env.DB_NAME,
-        port: Number(process.env.DB_PORT) || 3306,
-        waitForConnections: true,
-        connectionLimit: 10,
-        queueLimit: 0,
-        enableKeepAlive: true,
-        keepAliveInitialDelay: 0
-    });
-} else {
-    // In development, use a global variable to prevent multiple connections
-    // during hot reloading
-    if (!(global as any).mysqlPool) {
-        (global as any).mysqlPool = mysql.createPool({
-            host: process.env.DB_HOST,
-            user: process.env.DB_USER,
-            password: process.env.DB_PASSWORD,
-            database: process.env.DB_NAME,
-            port: Number(process.env.DB_PORT) || 3306,
-            waitForConnections: true,
-            connectionLimit: 10,
-            queueLimit: 0,
-            enableKeepAlive: true,
-            keepAliveInitialDelay: 0,
-            connectTimeout: 10000, // 10 seconds
-        });
-    }
-    pool = (global as any).mysqlPool;
+import { createMySqlDatabase } from './storage/mysql';
+import { createSqliteDatabase } from './storage/sqlite';
+
+export type Row = Record<string, unknown>;
+
+export interface ExecuteResult {
+    affectedRows: number;
+    insertId?: number;
+}
+
+// The few pieces of SQL that differ between MySQL and SQLite. Everything else
+// the repositories write is expected to run unchanged on both.
+export interface SqlDialect {
+    name: 'mysql' | 'sqlite';
+    // INSERT that silently skips rows whose key already exists
+    insertIgnore: string;
+    // Upsert on the primary key: `assignments` maps columns to expressions, and
+    // excluded(column) refers to the value the INSERT tried to write.
+    onConflictUpdate: (conflictColumn: string, assignments: Record<string, string>) => string;
+    excluded: (column: string) => string;
+    jsonArrayLength: (expression: string) => string;
+    // True when the JSON array in `expression` has an element equal to the next parameter
+    jsonArrayContains: (expression: string) => string;
 }
 
-export default pool;
+export interface Database {
+    dialect: SqlDialect;
+    query<T extends Row = Row>(sql: string, params?: unknown[]): Promise<T[]>;
+    execute(sql: string, params?: unknown[]): Promise<ExecuteResult>;
+    // Runs a script of several statements, used for migrations
+    exec(script: string): Promise<void>;
+    // Runs fn on a single connection, committing when it resolves and rolling back when it throws
+    transaction<T>(fn: (db: Database) => Promise<T>): Promise<T>;
+    // Keeps other processes out of fn, e.g. concurrent migration runs
+    withLock<T>(name: string, fn: () => Promise<T>): Promise<T>;
+    close(): Promise<void>;
+}
+
+export type StorageDriver = 'mysql' | 'sqlite';
+
+// DB_DRIVER=mysql (default) uses the DB_HOST/DB_USER/... settings.
+// DB_DRIVER=sqlite uses an embedded database at SQLITE_PATH, or an in-memory
+// one when SQLITE_PATH is ':memory:' (the default). It migrates itself on open.
+export const getStorageDriver = (): StorageDriver => {
+    const driver = (process.env.DB_DRIVER || 'mysql').toLowerCase();
+    if (driver !== 'mysql' && driver !== 'sqlite') {
+        throw new Error(`Unknown DB_DRIVER "${process.env.DB_DRIVER}", expected mysql or sqlite`);
+    }
+    return driver;
+};
+
+export const createDatabase = (driver: StorageDriver = getStorageDriver()): Database =>
+    driver === 'sqlite'
+        ? createSqliteDatabase(process.env.SQLITE_PATH || ':memory:')
+        : createMySqlDatabase();
+
+// Unique-key violations look different per driver
+export const isDuplicateKeyError = (error: unknown) => {
+    const code = (error as { code?: string })?.code;
+    return code === 'ER_DUP_ENTRY' || code === 'SQLITE_CONSTRAINT_UNIQUE' || code === 'SQLITE_CONSTRAINT_PRIMARYKEY';
+};
+
+let database: Database | undefined;
+
+// Created on first use, so scripts can load their environment before any import touches it
+export const getDatabase = (): Database => {
+    if (database) return database;
+
+    if (process.env.NODE_ENV === 'production') {
+        database = createDatabase();
+    } else {
+        // In development, use a global variable to prevent multiple connections
+        // during hot reloading (and to keep an in-memory database alive)
+        const globalForDb = global as unknown as { database?: Database };
+        if (!globalForDb.database) {
+            globalForDb.database = createDatabase();
+        }
+        database = globalForDb.database;
+    }
+    return database;
+};
+
+const db: Database = {
+    get dialect() {
+        return getDatabase().dialect;
+    },
+    query: (sql, params) => getDatabase().query(sql, params),
+    execute: (sql, params) => getDatabase().execute(sql, params),
+    exec: script => getDatabase().exec(script),
+    transaction: fn => getDatabase().transaction(fn),
+    withLock: (name, fn) => getDatabase().withLock(name, fn),
+    close: () => getDatabase().close()
+};
+
+export default db;
@@ -0,0 +1,76 @@
+export type DiffRowType = 'same' | 'removed' | 'added' | 'changed';
+
+export interface DiffRow {
+    type: DiffRowType;
+    left?: string;
+    right?: string;
+}
+
+// Splits HTML so each tag boundary starts a new line, keeping markup visible
+export const htmlToLines = (html: string): string[] => {
+    return html
+        .replace(/>\s*</g, '>\n<')
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean);
+};
+
+// Readable text, one line per block element
+export const htmlToTextLines = (html: string): string[] => {
+    return html
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<\/(p|h[1-6]|li|div|blockquote|pre|tr)>|<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+};
+
+// Line diff via longest common subsequence, laid out for a side-by-side view.
+// Adjacent removals and additions are paired up as changed rows.
+export const diffLines = (left: string[], right: string[]): DiffRow[] => {
+    const lcs: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0));
+    for (let i = left.length - 1; i >= 0; i--) {
+        for (let j = right.length - 1; j >= 0; j--) {
+            lcs[i][j] = left[i] === right[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const rows: DiffRow[] = [];
+    let removed: string[] = [];
+    let added: string[] = [];
+
+    const flush = () => {
+        const pairs = Math.max(removed.length, added.length);
+        for (let k = 0; k < pairs; k++) {
+            const type: DiffRowType = removed[k] !== undefined && added[k] !== undefined ? 'changed' : removed[k] !== undefined ? 'removed' : 'added';
+            rows.push({ type, left: removed[k], right: added[k] });
+        }
+        removed = [];
+        added = [];
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < left.length || j < right.length) {
+        if (i < left.length && j < right.length && left[i] === right[j]) {
+            flush();
+            rows.push({ type: 'same', left: left[i], right: right[j] });
+            i++;
+            j++;
+        } else if (j >= right.length || (i < left.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+            removed.push(left[i++]);
+        } else {
+            added.push(right[j++]);
+        }
+    }
+    flush();
+
+    return rows;
+};
@@ -0,0 +1,117 @@
+import { BlogPost, Category } from '../types';
+import { SITE_URL, getModifiedDate, getPublishedDate, stripSchemaHtml } from './schemaGenerator';
+import { escapeXml, cdata } from './xml';
+
+const FEED_TITLE = 'AutoBlog AI';
+const FEED_DESCRIPTION = 'The latest articles from AutoBlog AI';
+export const FEED_ITEM_LIMIT = 50;
+
+export interface FeedOptions {
+    // Titles and links the feed after a category. The posts are expected to be
+    // the category's already, including those of nested categories.
+    category?: Pick<Category, 'slug' | 'name'>;
+    // Path of the feed itself, used for the self link
+    selfPath: string;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml'
+};
+
+// Most cover images are extensionless service URLs (picsum, pollinations), which serve JPEG
+const getImageType = (url: string) => {
+    const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || '';
+    return IMAGE_TYPES[extension] || 'image/jpeg';
+};
+
+const getPostUrl = (post: BlogPost) => `${SITE_URL}/blog/${post.slug}`;
+
+const getFeedMeta = (posts: BlogPost[], options: FeedOptions) => {
+    return {
+        title: options.category ? `${FEED_TITLE} - ${options.category.name}` : FEED_TITLE,
+        link: options.category ? `${SITE_URL}/blog/category/${encodeURIComponent(options.category.slug)}` : `${SITE_URL}/blog`,
+        selfUrl: `${SITE_URL}${options.selfPath}`,
+        updated: posts.length > 0 ? new Date(Math.max(...posts.map(post => new Date(getModifiedDate(post)).getTime()))) : new Date()
+    };
+};
+
+// Keeps only what belongs in the requested feed, newest first
+export const selectFeedPosts = (posts: BlogPost[]) => posts
+    .filter(post => post.status === 'published')
+    .sort((a, b) => new Date(getPublishedDate(b)).getTime() - new Date(getPublishedDate(a)).getTime())
+    .slice(0, FEED_ITEM_LIMIT);
+
+export const buildRssFeed = (allPosts: BlogPost[], options: FeedOptions): string => {
+    const posts = selectFeedPosts(allPosts);
+    const meta = getFeedMeta(posts, options);
+
+    const items = posts.map(post => {
+        const url = getPostUrl(post);
+        return [
+            '    <item>',
+            `      <title>${escapeXml(post.title)}</title>`,
+            `      <link>${escapeXml(url)}</link>`,
+            `      <guid isPermaLink="true">${escapeXml(url)}</guid>`,
+            `      <pubDate>${new Date(getPublishedDate(post)).toUTCString()}</pubDate>`,
+            `      <description>${escapeXml(post.excerpt || '')}</description>`,
+            `      <content:encoded>${cdata(stripSchemaHtml(post.content || ''))}</content:encoded>`,
+            `      <category>${escapeXml(post.category)}</category>`,
+            ...(post.keywords || []).map(keyword => `      <category>${escapeXml(keyword)}</category>`),
+            ...(post.coverImage ? [`      <enclosure url="${escapeXml(post.coverImage)}" length="0" type="${getImageType(post.coverImage)}" />`] : []),
+            '    </item>'
+        ].join('\n');
+    }).join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(meta.title)}</title>
+    <link>${escapeXml(meta.link)}</link>
+    <description>${escapeXml(FEED_DESCRIPTION)}</description>
+    <language>en</language>
+    <lastBuildDate>${meta.updated.toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(meta.selfUrl)}" rel="self" type="application/rss+xml" />
+${items}
+  </channel>
+</rss>`;
+};
+
+export const buildAtomFeed = (allPosts: BlogPost[], options: FeedOptions): string => {
+    const posts = selectFeedPosts(allPosts);
+    const meta = getFeedMeta(posts, options);
+
+    const entries = posts.map(post => {
+        const url = getPostUrl(post);
+        const published = new Date(getPublishedDate(post)).toISOString();
+        const updated = new Date(getModifiedDate(post)).toISOString();
+        return [
+            '  <entry>',
+            `    <title>${escapeXml(post.title)}</title>`,
+            `    <link rel="alternate" type="text/html" href="${escapeXml(url)}" />`,
+            `    <id>${escapeXml(url)}</id>`,
+            `    <published>${published}</published>`,
+            `    <updated>${updated}</updated>`,
+            `    <summary>${escapeXml(post.excerpt || '')}</summary>`,
+            `    <content type="html">${escapeXml(stripSchemaHtml(post.content || ''))}</content>`,
+            `    <category term="${escapeXml(post.category)}" />`,
+            ...(post.keywords || []).map(keyword => `    <category term="${escapeXml(keyword)}" />`),
+            ...(post.coverImage ? [`    <link rel="enclosure" href="${escapeXml(post.coverImage)}" type="${getImageType(post.coverImage)}" />`] : []),
+            '  </entry>'
+        ].join('\n');
+    }).join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(meta.title)}</title>
+  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(meta.link)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(meta.selfUrl)}" />
+  <id>${escapeXml(meta.link)}</id>
+  <updated>${meta.updated.toISOString()}</updated>
+  <author><name>${escapeXml(FEED_TITLE)}</name></author>
+${entries}
+</feed>`;
+};
@@ -1,6 +1,7 @@
 import { GoogleGenAI, Type, Schema, GenerateContentResponse } from "@google/genai";
-import { BlogPost, GeneratedTopic, TrainingModule } from '../types';
+import { BlogPost, GeneratedTopic, SeriesPlan, TrainingModule } from '../types';
 import { getCombinedSchemaHtml } from "./schemaGenerator";
+import { slugify } from "./slugify";
 
 const apiKey = process.env.GEMINI_API_KEY;
 if (!apiKey) {
@@ -96,8 +97,16 @@ export const generateTopics = async (niche: string, trainingContext?: string, co
   }
 };
 
-// Helper to generate the full blog post
-export const generateFullPost = async (topic: string, tone: string, trainingContext?: string): Promise<Partial<BlogPost>> => {
+// Helper to generate the full blog post. Existing category names are offered to
+// the model so posts land in categories the blog already has. seriesContext
+// describes the series the post is a part of and what the earlier parts covered.
+export const generateFullPost = async (
+  topic: string,
+  tone: string,
+  trainingContext?: string,
+  categories: string[] = [],
+  seriesContext?: string
+): Promise<Partial<BlogPost>> => {
   const modelId = "gemini-2.0-flash";
 
   const schema: Schema = {
@@ -135,6 +144,12 @@ export const generateFullPost = async (topic: string, tone: string, trainingCont
   };
 
   const contextPrompt = trainingContext ? `\n\n[USER TRAINING/STYLE GUIDE]:\n${trainingContext}\n\nSTRICTLY ADHERE to the above style guide, facts, and rules in the content generation.` : "";
+  const categoryPrompt = categories.length > 0
+    ? `Use one of these existing categories, spelled exactly as given, if any fits: ${categories.map(name => `"${name}"`).join(', ')}. Only suggest a new category if none of them fits.`
+    : "Pick a short, general category.";
+  const seriesPrompt = seriesContext
+    ? `\n      7. **Series**: This post is one part of a multi-part series.\n${seriesContext}\n      Build on the earlier parts instead of repeating them, refer back to them where it helps, and stay within this part's scope so later parts have something left to cover. Do not add "Part N" to the title, the site adds the series navigation.`
+    : "";
 
   try {
     const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
@@ -147,6 +162,7 @@ export const generateFullPost = async (topic: string, tone: string, trainingCont
       3. **People Also Ask**: Generate 4-6 conversational Q&A pairs for the "People Also Ask" section. **MUST include both "question" and "answer" keys for EVERY item.** DO NOT leave the answer empty.
       4. **Geo**: Target ${tone.includes('UK') ? 'UK' : 'Global/US'} audience unless specified otherwise.
       5. **Tone**: ${tone}.
+      6. **Category**: ${categoryPrompt}${seriesPrompt}
       
       Ensure the JSON output is valid and complete.
       
@@ -172,6 +188,58 @@ export const generateFullPost = async (topic: string, tone: string, trainingCont
   }
 };
 
+// Helper to outline a multi-part series for a niche. Each part is planned to
+// build on the ones before it, the parts are drafted one by one afterwards.
+export const generateSeriesPlan = async (niche: string, partCount: number, trainingContext?: string): Promise<SeriesPlan> => {
+  const modelId = "gemini-2.0-flash";
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING, description: "The name of the series as a whole" },
+      description: { type: Type.STRING, description: "One or two sentences on what a reader gets from the whole series" },
+      parts: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING, description: "A catchy, SEO-friendly title for this part" },
+            summary: { type: Type.STRING, description: "What this part covers and which earlier parts it builds on" }
+          },
+          required: ["title", "summary"],
+        },
+        description: `Exactly ${partCount} parts, in reading order`
+      }
+    },
+    required: ["title", "description", "parts"]
+  };
+
+  const contextPrompt = trainingContext ? `\n\n[USER TRAINING/STYLE GUIDE]:\n${trainingContext}\n\nApply the above style/context to the series plan.` : "";
+
+  try {
+    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
+      model: modelId,
+      contents: `Plan a ${partCount}-part blog series for the niche: "${niche}". ${contextPrompt}
+      The parts are read in order: start from the fundamentals and let each part build on what the previous ones covered, without overlapping them.
+      Every part must stand on its own as a complete, search-friendly article.`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+        temperature: 0.6,
+      },
+    }));
+
+    const text = response.text;
+    if (!text) throw new Error("No series plan generated");
+
+    const plan = JSON.parse(text) as Omit<SeriesPlan, 'niche'>;
+    return { ...plan, niche, parts: (plan.parts || []).slice(0, partCount) };
+  } catch (error) {
+    console.error("Error generating series plan:", error);
+    throw new Error("Failed to plan the series. The AI model might be busy. Please try again.");
+  }
+};
+
 // Helper to generate a cover image or any image from a prompt
 export const generateCoverImage = async (prompt: string, isRawPrompt: boolean = false): Promise<string> => {
   // If it's a raw prompt, use it directly. If it's a topic, wrap it in a professional context.
@@ -215,7 +283,7 @@ export const generateAndPublishAutoPost = async (niche: string): Promise<BlogPos
     keywords: content.keywords || [],
     category: content.category || "Auto-Generated",
     readTime: content.readTime || "3 min read",
-    dateCreated: new Date().toLocaleString(),
+    dateCreated: new Date().toISOString(),
     status: 'published',
     geoTargeting: content.geoTargeting || "Global",
     aeoQuestions: content.aeoQuestions || [],
@@ -223,7 +291,7 @@ export const generateAndPublishAutoPost = async (niche: string): Promise<BlogPos
     commercialIntent: content.commercialIntent,
     isHowTo: content.isHowTo,
     steps: content.steps,
-    slug: (content.title || randomTopic.topic).toLowerCase().replace(/[^\w\s-]/g, '').replace(/[\s_-]+/g, '-').replace(/^-+|-+$/g, ''),
+    slug: slugify(content.title || randomTopic.topic),
     coverImage
   };
 
@@ -0,0 +1,150 @@
+import { BlogPost, InternalLinkSuggestion, OrphanPost } from '../types';
+import { htmlToTextLines } from './diff';
+import { postRepository } from './repositories';
+import { SITE_URL, getCategorySlug, getTagSlug, stripSchemaHtml } from './schemaGenerator';
+import { getSlugRedirects } from './slugs';
+import type { InternalLinkRequest } from './validation';
+
+// Internal links are plain <a href="/blog/<slug>"> links in a post's body.
+// Suggestions match the post being written against the published posts by
+// tags, category and title words, and look for anchor text the post already
+// contains: the target's title or one of its tags.
+
+export const MAX_LINK_SUGGESTIONS = 10;
+
+const STOP_WORDS = new Set([
+    'about', 'after', 'before', 'best', 'does', 'from', 'guide', 'have', 'into', 'more', 'most', 'should',
+    'than', 'that', 'their', 'them', 'they', 'this', 'what', 'when', 'where', 'which', 'while', 'with', 'your'
+]);
+
+// Slugs of the posts an HTML body links to, relative or on SITE_URL. Category,
+// tag, author and series pages have a second path segment and are left out.
+export const extractLinkedSlugs = (html: string): string[] => {
+    const slugs = new Set<string>();
+    for (const match of html.matchAll(/<a\s[^>]*href\s*=\s*["']([^"']+)["']/gi)) {
+        const href = match[1].startsWith(SITE_URL) ? match[1].slice(SITE_URL.length) : match[1];
+        const path = href.match(/^\/blog\/([^/?#]+)\/?(?:[?#].*)?$/);
+        if (!path) continue;
+        try {
+            slugs.add(decodeURIComponent(path[1]));
+        } catch {
+            slugs.add(path[1]);
+        }
+    }
+    return [...slugs];
+};
+
+// Body text that may become anchor text, existing links and headings left out
+const getLinkableText = (html: string) =>
+    htmlToTextLines(stripSchemaHtml(html).replace(/<(a|h[1-6])\b[^>]*>[\s\S]*?<\/\1>/gi, '\n')).join('\n');
+
+// Letters and digits, Latin scripts including accented letters
+export const WORD_CHARS = 'a-z0-9\\u00c0-\\u024f';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The phrase as written in the text, matched on whole words in any case
+const findPhrase = (text: string, phrase: string): string | null => {
+    const words = phrase.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+    if (words.length === 0) return null;
+    const match = text.match(new RegExp(`(^|[^${WORD_CHARS}])(${words.join('\\s+')})(?![${WORD_CHARS}])`, 'i'));
+    return match ? match[2] : null;
+};
+
+const getTitleWords = (title: string) =>
+    new Set(title.toLowerCase().split(new RegExp(`[^${WORD_CHARS}]+`)).filter(word => word.length > 3 && !STOP_WORDS.has(word)));
+
+// Maps slugs, current and former, to post ids
+const getSlugIndex = async (posts: Pick<BlogPost, 'id' | 'slug'>[]): Promise<Map<string, string>> => {
+    const index = new Map(posts.map(post => [post.slug, post.id]));
+    for (const redirect of await getSlugRedirects()) {
+        if (!index.has(redirect.slug)) index.set(redirect.slug, redirect.postId);
+    }
+    return index;
+};
+
+// Inbound links per published post from the other published posts. Links to a
+// former slug count for the post it redirects to.
+const countInboundLinks = (posts: BlogPost[], slugIndex: Map<string, string>): Map<string, number> => {
+    const counts = new Map(posts.map(post => [post.id, 0]));
+    for (const post of posts) {
+        for (const slug of extractLinkedSlugs(post.content)) {
+            const targetId = slugIndex.get(slug);
+            if (targetId && targetId !== post.id && counts.has(targetId)) {
+                counts.set(targetId, (counts.get(targetId) as number) + 1);
+            }
+        }
+    }
+    return counts;
+};
+
+export const findOrphanPosts = async (): Promise<OrphanPost[]> => {
+    const posts = await postRepository.findPublished();
+    const counts = countInboundLinks(posts, await getSlugIndex(posts));
+    return posts
+        .filter(post => counts.get(post.id) === 0)
+        .map(({ id, slug, title, category, dateCreated, datePublished }) => ({ id, slug, title, category, dateCreated, datePublished }));
+};
+
+// Published posts worth linking to from the post being edited, best first.
+// Posts it already links to are left out. Orphans get a small boost.
+export const suggestInternalLinks = async (source: InternalLinkRequest): Promise<InternalLinkSuggestion[]> => {
+    const posts = await postRepository.findPublished();
+    const slugIndex = await getSlugIndex(posts);
+    const counts = countInboundLinks(posts, slugIndex);
+
+    const linkedIds = new Set(extractLinkedSlugs(source.content).map(slug => slugIndex.get(slug)));
+    const text = getLinkableText(source.content);
+    const sourceTags = new Set(source.keywords.map(getTagSlug));
+    const sourceCategory = source.category ? getCategorySlug(source.category) : '';
+    const sourceTitleWords = getTitleWords(source.title);
+
+    const scored = posts
+        .filter(post => post.id !== source.postId && !linkedIds.has(post.id))
+        .map(post => {
+            const reasons: string[] = [];
+            let score = 0;
+
+            const sharedTags = post.keywords.filter(keyword => sourceTags.has(getTagSlug(keyword)));
+            if (sharedTags.length > 0) {
+                score += 3 * sharedTags.length;
+                reasons.push(`Shares ${sharedTags.length === 1 ? 'tag' : 'tags'} ${sharedTags.join(', ')}`);
+            }
+            if (sourceCategory && getCategorySlug(post.category) === sourceCategory) {
+                score += 2;
+                reasons.push(`Also in ${post.category}`);
+            }
+            const sharedWords = [...getTitleWords(post.title)].filter(word => sourceTitleWords.has(word));
+            if (sharedWords.length > 0) {
+                score += sharedWords.length;
+                reasons.push('Similar title');
+            }
+
+            // Longest phrase first, a full title beats a single tag
+            const phrases = [post.title, ...post.keywords].sort((a, b) => b.length - a.length);
+            const anchorText = phrases.map(phrase => findPhrase(text, phrase)).find(Boolean) || null;
+            if (anchorText) {
+                score += 3;
+                reasons.push(`Mentions "${anchorText}"`);
+            }
+            if (score === 0) return null;
+
+            const isOrphan = counts.get(post.id) === 0;
+            const suggestion: InternalLinkSuggestion = {
+                postId: post.id,
+                slug: post.slug,
+                title: post.title,
+                anchorText: anchorText || post.title,
+                inContent: !!anchorText,
+                reasons,
+                isOrphan
+            };
+            return { suggestion, score: score + (isOrphan ? 1 : 0) };
+        })
+        .filter((entry): entry is { suggestion: InternalLinkSuggestion; score: number } => entry !== null);
+
+    return scored
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_LINK_SUGGESTIONS)
+        .map(entry => entry.suggestion);
+};
@@ -0,0 +1,103 @@
+import type { Database } from './db';
+import { slugify } from './slugify';
+
+// MySQL databases created before the migration runner were set up by the old
+// server and kept up to date by migrate-db.js, so their tables may lack
+// columns and indexes 0001_initial_schema.sql creates. That file only creates
+// missing tables, the runner upgrades the existing ones with this first.
+
+// Columns of posts added after the old server created the table
+const POST_COLUMNS: Record<string, string> = {
+    slug: 'VARCHAR(255) NULL',
+    commercialIntent: 'BOOLEAN DEFAULT FALSE',
+    isHowTo: 'BOOLEAN DEFAULT FALSE',
+    steps: 'LONGTEXT',
+    // NULL until the row is first changed, readers fall back to dateCreated
+    dateModified: 'DATETIME NULL DEFAULT NULL ON UPDATE CURRENT_TIMESTAMP',
+    scheduledDate: 'DATETIME NULL'
+};
+
+const INDEXES: { table: string; name: string; definition: string }[] = [
+    { table: 'posts', name: 'idx_posts_status_date', definition: 'INDEX idx_posts_status_date (status, dateCreated)' },
+    { table: 'scheduled_slots', name: 'idx_scheduled_slots_schedule', definition: 'INDEX idx_scheduled_slots_schedule (scheduleId)' },
+    { table: 'scheduled_slots', name: 'idx_scheduled_slots_status_date', definition: 'INDEX idx_scheduled_slots_status_date (status, date, time)' }
+];
+
+const tableExists = async (db: Database, table: string) => {
+    const rows = await db.query(
+        'SELECT 1 FROM information_schema.TABLES WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+        [table]
+    );
+    return rows.length > 0;
+};
+
+const getColumnTypes = async (db: Database, table: string): Promise<Map<string, string>> => {
+    const rows = await db.query(
+        'SELECT COLUMN_NAME AS name, DATA_TYPE AS type FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+        [table]
+    );
+    return new Map(rows.map(row => [String(row.name), String(row.type).toLowerCase()]));
+};
+
+const indexExists = async (db: Database, table: string, name: string) => {
+    const rows = await db.query(
+        'SELECT 1 FROM information_schema.STATISTICS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ?',
+        [table, name]
+    );
+    return rows.length > 0;
+};
+
+// Every post gets a slug and duplicates get a numeric suffix, the oldest post
+// keeps the plain one. Posts without a slug get one from their title.
+const deduplicateSlugs = async (db: Database) => {
+    const rows = await db.query('SELECT id, slug, title FROM posts ORDER BY dateCreated ASC, id ASC');
+    // A new slug must not take one a later post already has
+    const existing = new Set(rows.map(row => row.slug as string | null).filter((slug): slug is string => !!slug));
+    const taken = new Set<string>();
+    for (const row of rows) {
+        const base = (row.slug as string | null) || slugify(String(row.title || '')) || String(row.id);
+        let slug = base;
+        for (let suffix = 2; taken.has(slug) || (slug !== row.slug && existing.has(slug)); suffix++) slug = `${base}-${suffix}`;
+        taken.add(slug);
+
+        if (slug !== row.slug) {
+            await db.execute('UPDATE posts SET slug = ?, dateModified = dateModified WHERE id = ?', [slug, row.id]);
+            console.log(`Migrate: Post ${row.id} slug ${row.slug ?? '(none)'} -> ${slug}`);
+        }
+    }
+};
+
+// Whether the database predates the runner: it has the app's tables but 0001
+// was never recorded
+export const isLegacyDatabase = async (db: Database): Promise<boolean> =>
+    db.dialect.name === 'mysql' && tableExists(db, 'posts');
+
+// Brings the tables of a pre-runner database to the shape 0001 creates
+export const upgradeLegacySchema = async (db: Database): Promise<void> => {
+    console.log('Migrate: Upgrading tables created before the migration runner');
+
+    const columns = await getColumnTypes(db, 'posts');
+    for (const [column, definition] of Object.entries(POST_COLUMNS)) {
+        if (!columns.has(column)) {
+            await db.execute(`ALTER TABLE posts ADD COLUMN ${column} ${definition}`);
+        }
+    }
+    if (columns.get('slug') !== undefined) {
+        await db.execute('ALTER TABLE posts MODIFY COLUMN slug VARCHAR(255) NULL');
+    }
+    // Generated cover images are stored inline as data URLs
+    if (columns.get('coverImage') === 'text') {
+        await db.execute('ALTER TABLE posts MODIFY COLUMN coverImage LONGTEXT');
+    }
+
+    await deduplicateSlugs(db);
+    if (!(await indexExists(db, 'posts', 'uniq_posts_slug'))) {
+        await db.execute('ALTER TABLE posts ADD UNIQUE INDEX uniq_posts_slug (slug)');
+    }
+
+    for (const index of INDEXES) {
+        if ((await tableExists(db, index.table)) && !(await indexExists(db, index.table, index.name))) {
+            await db.execute(`ALTER TABLE ${index.table} ADD ${index.definition}`);
+        }
+    }
+};
@@ -0,0 +1,138 @@
+// Points the database at SQLite, so it must come before the other imports from lib
+import { makePost } from './testHelpers';
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { linkCheckRunRepository, postRepository } from './repositories';
+import {
+    enqueueLinkAudit, extractPostUrls, fetchUrlStatus, getLinkAuditOverview, getPostLinkReport, isPrivateAddress,
+    runLinkAudit, runQueuedLinkAudit, UrlChecker
+} from './linkChecker';
+
+// Answers from a fixed table and records every URL it was asked about
+const stubChecker = (responses: Record<string, { statusCode?: number; error?: string }>) => {
+    const requested: string[] = [];
+    const checkUrl: UrlChecker = async url => {
+        requested.push(url);
+        return responses[url] ?? { statusCode: 200 };
+    };
+    return { checkUrl, requested };
+};
+
+describe('extractPostUrls', () => {
+    it('finds links, images and the cover image once each', () => {
+        const urls = extractPostUrls({
+            coverImage: 'https://cdn.example.com/cover.jpg',
+            content: `<p><a href="/blog/other">Other</a> <a href='#top'>Top</a> <a href="mailto:me@example.com">Mail</a>
+                <img src="https://cdn.example.com/cover.jpg"> <img src="https://cdn.example.com/a.png?x=1&amp;y=2">
+                <a href="https://example.com/">Home</a> <a href="https://example.com/">Again</a></p>`
+        });
+
+        assert.deepEqual(urls, [
+            { url: 'https://cdn.example.com/cover.jpg', kind: 'cover' },
+            { url: 'https://smmsurge.com/blog/other', kind: 'link' },
+            { url: 'https://cdn.example.com/a.png?x=1&y=2', kind: 'image' },
+            { url: 'https://example.com/', kind: 'link' }
+        ]);
+    });
+});
+
+describe('fetchUrlStatus', () => {
+    it('tells private addresses from public ones', () => {
+        for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe']) {
+            assert.equal(isPrivateAddress(address), true, address);
+        }
+        for (const address of ['8.8.8.8', '172.32.0.1', '2001:4860:4860::8888', '::ffff:8.8.8.8']) {
+            assert.equal(isPrivateAddress(address), false, address);
+        }
+    });
+
+    it('refuses loopback, private and link-local hosts without requesting them', async () => {
+        for (const url of ['http://127.0.0.1/', 'http://localhost:3000/admin', 'http://10.0.0.1/', 'http://169.254.169.254/latest/meta-data/', 'http://[::1]/',
+            'http://[::ffff:127.0.0.1]/', 'http://[::ffff:a9fe:a9fe]/latest/meta-data/']) {
+            const result = await fetchUrlStatus(url, 1000);
+            assert.equal(result.error, 'Not checked, the host is a private address', url);
+        }
+    });
+});
+
+describe('runLinkAudit', () => {
+    before(async () => {
+        await postRepository.insert(makePost('a', '<a href="https://example.com/gone">Gone</a> <a href="https://example.com/ok">Fine</a>'));
+        await postRepository.insert(makePost('b', '<a href="https://example.com/gone">Gone</a> <img src="https://example.com/busy.png">'));
+        await postRepository.insert(makePost('trashed', '<a href="https://example.com/trashed">Trashed</a>'));
+        await postRepository.trash('trashed', new Date());
+    });
+
+    it('requests each URL once and stores the results per post', async () => {
+        const { checkUrl, requested } = stubChecker({
+            'https://example.com/gone': { statusCode: 404 },
+            'https://example.com/busy.png': { statusCode: 429 }
+        });
+
+        const result = await runLinkAudit({ checkUrl, concurrency: 2 });
+
+        assert.deepEqual(result, { postsChecked: 2, urlsChecked: 3, broken: 2 });
+        assert.deepEqual([...requested].sort(), ['https://example.com/busy.png', 'https://example.com/gone', 'https://example.com/ok']);
+
+        const report = await getPostLinkReport('b');
+        assert.equal(report?.isOutdated, false);
+        assert.deepEqual(report?.checks.map(check => [check.url, check.isBroken]), [
+            ['https://example.com/gone', true],
+            ['https://example.com/busy.png', false]
+        ]);
+    });
+
+    it('records checker failures as broken', async () => {
+        const checkUrl: UrlChecker = async url => {
+            if (url.endsWith('/ok')) throw new Error('socket hang up');
+            return { statusCode: 200 };
+        };
+
+        await runLinkAudit({ postIds: ['a'], checkUrl });
+
+        const broken = (await getPostLinkReport('a'))?.checks.filter(check => check.isBroken);
+        assert.deepEqual(broken?.map(check => [check.url, check.error]), [['https://example.com/ok', 'socket hang up']]);
+    });
+
+    it('marks reports outdated once the post changes', async () => {
+        await postRepository.updateFields('b', { title: 'Edited' });
+
+        const overview = await getLinkAuditOverview();
+        assert.equal(overview.postsChecked, 2);
+        assert.deepEqual(overview.broken.map(link => [link.postId, link.url, link.isOutdated]), [
+            ['a', 'https://example.com/ok', false],
+            ['b', 'https://example.com/gone', true]
+        ]);
+    });
+});
+
+describe('queued link audits', () => {
+    it('queues each audit once and runs them from the tick', async () => {
+        const forA = await enqueueLinkAudit(['a']);
+        assert.equal((await enqueueLinkAudit(['a', 'a'])).id, forA.id);
+        const forAll = await enqueueLinkAudit();
+        assert.notEqual(forAll.id, forA.id);
+
+        assert.equal((await getPostLinkReport('a'))?.isQueued, true);
+        assert.equal((await getLinkAuditOverview()).latestRun?.status, 'queued');
+
+        const { checkUrl } = stubChecker({});
+        const runs = [await runQueuedLinkAudit({ checkUrl }), await runQueuedLinkAudit({ checkUrl })];
+        const byId = new Map(runs.map(run => [run?.id, run]));
+        assert.deepEqual([byId.get(forA.id)?.status, byId.get(forA.id)?.postsChecked], ['done', 1]);
+        assert.deepEqual([byId.get(forAll.id)?.status, byId.get(forAll.id)?.postsChecked, byId.get(forAll.id)?.broken], ['done', 2, 0]);
+
+        assert.equal(await runQueuedLinkAudit({ checkUrl }), null);
+        assert.equal((await getPostLinkReport('a'))?.isQueued, false);
+    });
+
+    it('fails runs left behind by a tick that died', async () => {
+        const run = await enqueueLinkAudit(['b']);
+        await linkCheckRunRepository.claimNext(new Date('2030-01-01T08:00:00Z'));
+
+        assert.equal(await runQueuedLinkAudit({}, new Date('2030-01-01T10:00:00Z')), null);
+        const failed = await linkCheckRunRepository.findById(run.id);
+        assert.equal(failed?.status, 'failed');
+        assert.equal((await getPostLinkReport('b'))?.isQueued, false);
+    });
+});
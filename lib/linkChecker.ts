@@ -0,0 +1,293 @@
+import { randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { BlogPost, LinkAuditOverview, LinkCheck, LinkCheckRun, PostLinkReport } from '../types';
+import { linkCheckRepository, linkCheckRunRepository, postRepository } from './repositories';
+import { SITE_URL, stripSchemaHtml } from './schemaGenerator';
+
+// The link audit collects every URL a post points at (links and images in the
+// content, and the cover image) and requests each one. Relative URLs are
+// checked on SITE_URL. A URL is broken when the request fails, times out or
+// gets an error status; 429 only means we were rate limited and counts as fine.
+// Audits are queued from the dashboard and run by the scheduler tick.
+
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_TIMEOUT_MS = 15000;
+const USER_AGENT = 'AutoBlogAI-LinkChecker/1.0';
+const MAX_REDIRECTS = 5;
+// A run still 'running' after this long was left behind by a tick that died
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+export interface UrlCheckResult {
+    statusCode?: number;
+    error?: string;
+}
+
+// Checks a single URL. The default requests it over the network, tests and
+// scripts can pass their own.
+export type UrlChecker = (url: string, timeoutMs: number) => Promise<UrlCheckResult>;
+
+export interface LinkAuditOptions {
+    // Only these posts, otherwise every post that isn't in the trash
+    postIds?: string[];
+    concurrency?: number;
+    timeoutMs?: number;
+    checkUrl?: UrlChecker;
+}
+
+export interface LinkAuditResult {
+    postsChecked: number;
+    urlsChecked: number;
+    broken: number;
+}
+
+const readPositiveInteger = (name: string, fallback: number): number => {
+    const value = process.env[name];
+    if (value === undefined || value === '') return fallback;
+
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+        throw new Error(`Invalid ${name} "${value}", expected a positive whole number`);
+    }
+    return number;
+};
+
+// How many URLs are requested at once
+export const getLinkCheckConcurrency = () => readPositiveInteger('LINK_CHECK_CONCURRENCY', DEFAULT_CONCURRENCY);
+
+export const getLinkCheckTimeoutMs = () => readPositiveInteger('LINK_CHECK_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+
+const decodeAttribute = (value: string) =>
+    value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'").trim();
+
+// Absolute http(s) URL, or null for anchors, mailto:, data: and the like
+const toCheckableUrl = (value: string): string | null => {
+    if (!value || value.startsWith('#')) return null;
+    try {
+        const url = new URL(value, SITE_URL);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+    } catch {
+        return null;
+    }
+};
+
+// Every URL the post points at, each once. The first place a URL shows up decides its kind.
+export const extractPostUrls = (post: Pick<BlogPost, 'content' | 'coverImage'>): { url: string; kind: LinkCheck['kind'] }[] => {
+    const found = new Map<string, LinkCheck['kind']>();
+    const add = (value: string, kind: LinkCheck['kind']) => {
+        const url = toCheckableUrl(decodeAttribute(value));
+        if (url && !found.has(url)) found.set(url, kind);
+    };
+
+    if (post.coverImage) add(post.coverImage, 'cover');
+    for (const match of stripSchemaHtml(post.content || '').matchAll(/<(a|img)\s[^>]*?\b(href|src)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi)) {
+        const tag = match[1].toLowerCase();
+        const attribute = match[2].toLowerCase();
+        if ((tag === 'a' && attribute === 'href') || (tag === 'img' && attribute === 'src')) {
+            add(match[3] ?? match[4], tag === 'a' ? 'link' : 'image');
+        }
+    }
+    return [...found].map(([url, kind]) => ({ url, kind }));
+};
+
+export const isBrokenResult = (result: UrlCheckResult) =>
+    !!result.error || (result.statusCode !== undefined && result.statusCode >= 400 && result.statusCode !== 429);
+
+// Loopback, private, link-local and other addresses that aren't on the public
+// internet. BlockList also matches IPv4-mapped IPv6 addresses in any notation.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+    ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]
+] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// Unspecified, loopback and IPv4-compatible, unique local, link-local
+for (const [network, prefix] of [['::', 96], ['fc00::', 7], ['fe80::', 10]] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isPrivateAddress = (address: string): boolean => {
+    const family = isIP(address);
+    if (!family) return false;
+    return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const PRIVATE_HOST_ERROR = 'Not checked, the host is a private address';
+
+// Post content is written by anyone with access to the dashboard, so the
+// server only connects to public addresses. Used as the connection's lookup,
+// the host is resolved once and the connection goes to the address checked here.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, { all: true, family: options.family }).then(entries => {
+        if (entries.length === 0) throw Object.assign(new Error(`No addresses for ${hostname}`), { code: 'ENOTFOUND' });
+        if (entries.some(entry => isPrivateAddress(entry.address))) throw new Error(PRIVATE_HOST_ERROR);
+        if (options.all) callback(null, entries);
+        else callback(null, entries[0].address, entries[0].family);
+    }).catch(error => callback(error, '', 0));
+};
+
+// A single request, redirects are followed by the caller. Only the status
+// matters, the body is never read.
+const requestOnce = (url: URL, method: 'HEAD' | 'GET', signal: AbortSignal): Promise<{ status: number; location?: string }> =>
+    new Promise((resolve, reject) => {
+        // IP literals are connected to without a lookup
+        const host = url.hostname.replace(/^\[|\]$/g, '');
+        if (isPrivateAddress(host)) return reject(new Error(PRIVATE_HOST_ERROR));
+
+        const send = url.protocol === 'https:' ? https.request : http.request;
+        const req = send(url, { method, signal, lookup: publicLookup, headers: { 'User-Agent': USER_AGENT } }, response => {
+            resolve({ status: response.statusCode ?? 0, location: response.headers.location });
+            response.destroy();
+        });
+        req.on('error', reject);
+        req.end();
+    });
+
+// Follows redirects by hand so every hop goes through the same checks
+const request = async (url: string, method: 'HEAD' | 'GET', timeoutMs: number): Promise<number> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        let current = new URL(url);
+        for (let redirects = 0; ; redirects++) {
+            const { status, location } = await requestOnce(current, method, controller.signal);
+            if (status < 300 || status >= 400 || !location) return status;
+            if (redirects === MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+            current = new URL(location, current);
+            if (current.protocol !== 'http:' && current.protocol !== 'https:') throw new Error(`Redirects to ${current.protocol} URL`);
+        }
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+// HEAD first, then GET for servers that refuse HEAD
+export const fetchUrlStatus: UrlChecker = async (url, timeoutMs) => {
+    try {
+        const status = await request(url, 'HEAD', timeoutMs);
+        if (status !== 403 && status !== 405 && status !== 501) return { statusCode: status };
+        return { statusCode: await request(url, 'GET', timeoutMs) };
+    } catch (error) {
+        const { name, message } = error as { name?: string; message?: string };
+        return { error: name === 'AbortError' ? `Timed out after ${timeoutMs} ms` : message || 'Request failed' };
+    }
+};
+
+// Runs `task` over every item with at most `concurrency` running at a time
+const mapWithConcurrency = async <T, R>(items: T[], concurrency: number, task: (item: T) => Promise<R>): Promise<R[]> => {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+};
+
+// Checks the posts' URLs and replaces their stored results. A URL used by
+// several posts is requested once. Takes as long as the slowest URLs, use
+// enqueueLinkAudit from request handlers.
+export const runLinkAudit = async (options: LinkAuditOptions = {}): Promise<LinkAuditResult> => {
+    const concurrency = options.concurrency ?? getLinkCheckConcurrency();
+    const timeoutMs = options.timeoutMs ?? getLinkCheckTimeoutMs();
+    const checkUrl = options.checkUrl ?? fetchUrlStatus;
+
+    const posts = options.postIds
+        ? (await Promise.all(options.postIds.map(id => postRepository.findById(id))))
+            .filter((post): post is BlogPost => !!post && !post.deletedAt)
+        : (await postRepository.query({})).posts as BlogPost[];
+
+    const urlsByPost = new Map(posts.map(post => [post.id, extractPostUrls(post)]));
+    const uniqueUrls = [...new Set([...urlsByPost.values()].flatMap(urls => urls.map(entry => entry.url)))];
+    const outcomes = await mapWithConcurrency(uniqueUrls, concurrency, url =>
+        checkUrl(url, timeoutMs).catch((error: Error): UrlCheckResult => ({ error: error.message || 'Request failed' })));
+    const outcomeByUrl = new Map(uniqueUrls.map((url, index) => [url, outcomes[index]]));
+
+    let broken = 0;
+    const dateChecked = new Date().toISOString();
+    for (const post of posts) {
+        const checks: LinkCheck[] = (urlsByPost.get(post.id) || []).map(({ url, kind }) => {
+            const outcome = outcomeByUrl.get(url) as UrlCheckResult;
+            return {
+                postId: post.id,
+                url,
+                kind,
+                isBroken: isBrokenResult(outcome),
+                statusCode: outcome.statusCode,
+                error: outcome.error,
+                postVersion: post.version ?? 1,
+                dateChecked
+            };
+        });
+        broken += checks.filter(check => check.isBroken).length;
+        await linkCheckRepository.replaceForPost(post.id, checks);
+    }
+
+    console.log(`Link audit: Checked ${uniqueUrls.length} URLs in ${posts.length} posts, ${broken} broken`);
+    return { postsChecked: posts.length, urlsChecked: uniqueUrls.length, broken };
+};
+
+const toRunKey = (postIds?: string[]) => postIds ? JSON.stringify([...new Set(postIds)].sort()) : null;
+
+// Queues an audit of `postIds`, or of every post, for the scheduler tick. The
+// same audit already waiting in the queue is returned instead of a new one.
+export const enqueueLinkAudit = async (postIds?: string[]): Promise<LinkCheckRun> => {
+    const key = toRunKey(postIds);
+    const queued = (await linkCheckRunRepository.findUnfinished())
+        .find(run => run.status === 'queued' && toRunKey(run.postIds) === key);
+    if (queued) return queued;
+
+    return linkCheckRunRepository.enqueue(randomUUID(), postIds && [...new Set(postIds)], new Date());
+};
+
+// Runs the oldest queued audit, called by the scheduler tick. Returns the run
+// once it is done or failed, or null when nothing was queued.
+export const runQueuedLinkAudit = async (options: Omit<LinkAuditOptions, 'postIds'> = {}, now = new Date()): Promise<LinkCheckRun | null> => {
+    const stale = await linkCheckRunRepository.failStale(new Date(now.getTime() - STALE_RUN_MS), now);
+    if (stale > 0) console.warn(`Link audit: Gave up on ${stale} run(s) left behind by an earlier tick`);
+
+    const run = await linkCheckRunRepository.claimNext(now);
+    if (!run) return null;
+
+    try {
+        const result = await runLinkAudit({ ...options, postIds: run.postIds });
+        await linkCheckRunRepository.finish(run.id, result, new Date());
+    } catch (error) {
+        console.error(`Link audit: Run ${run.id} failed:`, error);
+        await linkCheckRunRepository.fail(run.id, error instanceof Error ? error.message : String(error), new Date());
+    }
+    return linkCheckRunRepository.findById(run.id);
+};
+
+// The stored results for one post, null when the post doesn't exist
+export const getPostLinkReport = async (postId: string): Promise<PostLinkReport | null> => {
+    const post = await postRepository.findById(postId);
+    if (!post) return null;
+
+    const checks = await linkCheckRepository.findByPost(postId);
+    const unfinished = await linkCheckRunRepository.findUnfinished();
+    return {
+        postId,
+        checks,
+        isOutdated: checks.length > 0 && checks[0].postVersion !== (post.version ?? 1),
+        isQueued: unfinished.some(run => !run.postIds || run.postIds.includes(postId)),
+        dateChecked: checks[0]?.dateChecked
+    };
+};
+
+export const getLinkAuditOverview = async (): Promise<LinkAuditOverview> => {
+    const totals = await linkCheckRepository.getTotals();
+    return {
+        postsChecked: totals.posts,
+        urlsChecked: totals.urls,
+        lastChecked: totals.lastChecked,
+        broken: await linkCheckRepository.findBroken(),
+        latestRun: (await linkCheckRunRepository.findLatest()) ?? undefined
+    };
+};
@@ -0,0 +1,185 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Database, SqlDialect } from './db';
+import { CODE_MIGRATIONS, CodeMigration } from './codeMigrations';
+import { isLegacyDatabase, upgradeLegacySchema } from './legacySchema';
+import { toIsoString } from './repositories/mappers';
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), 'migrations');
+
+// Only one runner may apply migrations at a time
+const LOCK_NAME = 'schema_migrations';
+
+// Migration files are named <version>_<name>.sql, e.g. 0001_initial_schema.sql,
+// and are applied in version order. Write them in SQL both MySQL and SQLite
+// understand; when that is not possible, a <version>_<name>.<dialect>.sql file
+// replaces the shared one for that dialect. Changes SQL can't express are
+// code migrations, see lib/codeMigrations.ts.
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+?)(?:\.(mysql|sqlite))?\.sql$/;
+
+type DialectName = SqlDialect['name'];
+
+export interface Migration {
+    version: string;
+    name: string;
+    file: string;
+    sql: string;
+    checksum: string;
+    // Set for code migrations, run instead of the SQL
+    run?: (db: Database) => Promise<void>;
+}
+
+export interface AppliedMigration {
+    version: string;
+    name: string;
+    checksum: string;
+    appliedAt: string;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export interface MigrationStatus {
+    version: string;
+    name: string;
+    state: MigrationState;
+    appliedAt?: string;
+}
+
+export const getChecksum = (sql: string) => createHash('sha256').update(sql).digest('hex');
+
+export const loadMigrations = async (
+    dialect: DialectName,
+    dir: string = MIGRATIONS_DIR,
+    codeMigrations: CodeMigration[] = CODE_MIGRATIONS
+): Promise<Migration[]> => {
+    const files = (await fs.readdir(dir)).filter(file => file.endsWith('.sql')).sort();
+    const byVersion = new Map<string, { name: string; shared?: string; variant?: string }>();
+
+    for (const file of files) {
+        const match = file.match(MIGRATION_FILE_PATTERN);
+        if (!match) throw new Error(`Invalid migration file name: ${file} (expected <version>_<name>.sql)`);
+
+        const [, version, name, fileDialect] = match;
+        const entry = byVersion.get(version) || { name };
+        if (entry.name !== name) throw new Error(`Duplicate migration version: ${version}`);
+
+        if (!fileDialect) {
+            entry.shared = file;
+        } else if (fileDialect === dialect) {
+            entry.variant = file;
+        }
+        byVersion.set(version, entry);
+    }
+
+    const migrations: Migration[] = [];
+    for (const [version, entry] of byVersion) {
+        const file = entry.variant || entry.shared;
+        if (!file) throw new Error(`Migration ${version}_${entry.name} has no file for ${dialect}`);
+
+        const sql = await fs.readFile(path.join(dir, file), 'utf8');
+        migrations.push({ version, name: entry.name, file, sql, checksum: getChecksum(sql) });
+    }
+    for (const migration of codeMigrations) {
+        if (byVersion.has(migration.version)) throw new Error(`Duplicate migration version: ${migration.version}`);
+        migrations.push({
+            version: migration.version,
+            name: migration.name,
+            file: `${migration.version}_${migration.name} (code)`,
+            sql: '',
+            checksum: getChecksum(`code:${migration.name}`),
+            run: migration.run
+        });
+    }
+
+    return migrations.sort((a, b) => a.version.localeCompare(b.version));
+};
+
+const ensureMigrationsTable = async (db: Database) => {
+    await db.execute(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version VARCHAR(255) PRIMARY KEY,
+            name VARCHAR(255) NOT NULL,
+            checksum CHAR(64) NOT NULL,
+            appliedAt DATETIME NOT NULL
+        )
+    `);
+};
+
+const getAppliedMigrations = async (db: Database): Promise<AppliedMigration[]> => {
+    const rows = await db.query(
+        'SELECT version, name, checksum, appliedAt FROM schema_migrations ORDER BY version ASC'
+    );
+    return rows.map(row => ({
+        version: String(row.version),
+        name: String(row.name),
+        checksum: String(row.checksum),
+        appliedAt: toIsoString(row.appliedAt) || ''
+    }));
+};
+
+export const getMigrationStatus = async (db: Database, migrations?: Migration[]): Promise<MigrationStatus[]> => {
+    const files = migrations || await loadMigrations(db.dialect.name);
+    await ensureMigrationsTable(db);
+    const applied = await getAppliedMigrations(db);
+    const appliedByVersion = new Map(applied.map(row => [row.version, row]));
+
+    const statuses: MigrationStatus[] = files.map(migration => {
+        const row = appliedByVersion.get(migration.version);
+        if (!row) return { version: migration.version, name: migration.name, state: 'pending' };
+        return {
+            version: migration.version,
+            name: migration.name,
+            state: row.checksum === migration.checksum ? 'applied' : 'modified',
+            appliedAt: row.appliedAt
+        };
+    });
+
+    // Recorded in the database but no longer on disk
+    for (const row of applied) {
+        if (!files.some(migration => migration.version === row.version)) {
+            statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.appliedAt });
+        }
+    }
+
+    return statuses.sort((a, b) => a.version.localeCompare(b.version));
+};
+
+// Applies every pending migration in order and returns the ones that ran.
+// Refuses to run when an applied migration was edited or deleted, since the
+// database would no longer match what the files describe.
+export const runMigrations = async (db: Database, migrations?: Migration[]): Promise<Migration[]> => {
+    const files = migrations || await loadMigrations(db.dialect.name);
+
+    return db.withLock(LOCK_NAME, async () => {
+        const statuses = await getMigrationStatus(db, files);
+        const drifted = statuses.filter(status => status.state === 'modified' || status.state === 'missing');
+        if (drifted.length > 0) {
+            const list = drifted.map(status => `${status.version}_${status.name} (${status.state})`).join(', ');
+            throw new Error(`Applied migrations do not match the files on disk: ${list}`);
+        }
+
+        const pendingVersions = new Set(statuses.filter(status => status.state === 'pending').map(status => status.version));
+        const applied: Migration[] = [];
+
+        // The first run against a database that already has the app's tables
+        if (statuses.every(status => status.state === 'pending') && await isLegacyDatabase(db)) {
+            await upgradeLegacySchema(db);
+        }
+
+        for (const migration of files.filter(migration => pendingVersions.has(migration.version))) {
+            console.log(`Migrate: Applying ${migration.file}`);
+            // MySQL commits DDL implicitly, so a failing migration is not rolled back.
+            // The bookkeeping row is only written once every statement has succeeded.
+            if (migration.run) await migration.run(db);
+            else await db.exec(migration.sql);
+            await db.execute(
+                'INSERT INTO schema_migrations (version, name, checksum, appliedAt) VALUES (?, ?, ?, ?)',
+                [migration.version, migration.name, migration.checksum, new Date()]
+            );
+            applied.push(migration);
+        }
+
+        return applied;
+    });
+};
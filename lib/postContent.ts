@@ -0,0 +1,25 @@
+import { stripSchemaHtml } from './schemaGenerator';
+
+// Prepares stored post HTML for display: drops the duplicate H1 (the page
+// renders the title itself), the injected JSON-LD blocks, and any schema
+// fragments older AI generations leaked into the body text.
+export const cleanPostContent = (content: string) => {
+    let clean = stripSchemaHtml(content || '');
+
+    // Handle both raw Markdown header and HTML header
+    clean = clean.replace(/^#\s+.+\n*/, '');
+    clean = clean.replace(/<h1[^>]*>.*?<\/h1>/i, '');
+
+    // Strategy: Truncate content if a Schema.org block is detected
+    const schemaMatch = clean.match(/(?:```json\s*)?\{\s*"@context"\s*:\s*"https?:\/\/schema\.org"/i);
+    if (schemaMatch && schemaMatch.index !== undefined && schemaMatch.index > 100) {
+        clean = clean.substring(0, schemaMatch.index);
+    }
+
+    // Fallback cleans for fragments/JSON blocks
+    return clean
+        .replace(/```json\s*\{[\s\S]*?\n\s*\}\s*```/g, "")
+        .replace(/\{[\s\S]*?"@context"\s*:\s*"https?:\/\/schema\.org"[\s\S]*?\}/g, "")
+        .replace(/\[\s*\{[\s\S]*?"@type"\s*:\s*"Question"[\s\S]*?\]/g, "")
+        .replace(/"@type"\s*:\s*"Question"[\s\S]*?\}/g, "");
+};
@@ -0,0 +1,254 @@
+import db from './db';
+import { BlogPost, BulkPostRequest, BulkPostResult } from '../types';
+import { getUniqueSlug, isDuplicateSlugError, recordSlugChange } from './slugs';
+import { recordRevision, RevisionOptions } from './revisions';
+import { deleteAutosave } from './autosaves';
+import { indexPostTerms } from './relatedPosts';
+import { normalizePost, normalizePostPatch } from './taxonomy';
+import { PostRepository, postRepository, PostPatch, RelatedPostRepository, TagRepository, tagRepository } from './repositories';
+
+export const MAX_PAGE_SIZE = 100;
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// TRASH_RETENTION_DAYS (default 30) is how long trashed posts are kept before
+// the scheduler tick purges them. 0 keeps them until they are purged by hand.
+export const getTrashRetentionDays = (): number => {
+    const value = process.env.TRASH_RETENTION_DAYS;
+    if (value === undefined || value === '') return DEFAULT_TRASH_RETENTION_DAYS;
+
+    const days = Number(value);
+    if (!Number.isInteger(days) || days < 0) {
+        throw new Error(`Invalid TRASH_RETENTION_DAYS "${value}", expected a whole number of days`);
+    }
+    return days;
+};
+
+// History is best effort: the save itself has already succeeded
+const snapshotPost = async (post: BlogPost, options?: RevisionOptions) => {
+    try {
+        await recordRevision(post, options);
+    } catch (error) {
+        console.error(`Failed to record revision for post ${post.id}`, error);
+    }
+};
+
+// Until the terms are stored again, related posts score the post by tags and category
+const storePostTerms = async (post: BlogPost) => {
+    try {
+        await indexPostTerms(post);
+    } catch (error) {
+        console.error(`Failed to store the terms of post ${post.id}`, error);
+    }
+};
+
+// Updates only the supplied columns. A new slug is de-duplicated and the old one
+// kept as a redirect, a new category or keywords are matched to the taxonomy.
+// Returns false when the post doesn't exist or is in the trash.
+export const updatePost = async (id: string, input: PostPatch): Promise<boolean> => {
+    const { patch, tagIds } = await normalizePostPatch(input);
+    let updated: boolean;
+    if (patch.slug !== undefined) {
+        const existing = await postRepository.findById(id);
+        if (!existing || existing.deletedAt) return false;
+
+        const slug = await getUniqueSlug(patch.slug, patch.title || existing.title, id);
+        updated = await postRepository.updateFields(id, { ...patch, slug });
+        await recordSlugChange(id, existing.slug, slug);
+    } else {
+        updated = await postRepository.updateFields(id, patch);
+    }
+    if (updated && tagIds) await tagRepository.setPostTags(id, tagIds);
+
+    const saved = updated ? await postRepository.findById(id) : null;
+    if (saved) {
+        await snapshotPost(saved);
+        await storePostTerms(saved);
+    }
+    return updated;
+};
+
+// Same as history, a leftover autosave only means an extra restore prompt
+const discardAutosave = async (postId: string) => {
+    try {
+        await deleteAutosave(postId);
+    } catch (error) {
+        console.error(`Failed to discard autosave for post ${postId}`, error);
+    }
+};
+
+const SLUG_SAVE_ATTEMPTS = 3;
+
+// Thrown by savePost when the post was saved by someone else after the client loaded it
+export class PostConflictError extends Error {
+    constructor(public readonly current: BlogPost) {
+        super('Post was changed by someone else since it was loaded');
+        this.name = 'PostConflictError';
+    }
+}
+
+// Thrown by savePost for a post in the trash, restoring it is the only way back
+export class PostTrashedError extends Error {
+    constructor(public readonly postId: string) {
+        super('Post not found');
+        this.name = 'PostTrashedError';
+    }
+}
+
+// Creates or fully overwrites a post. The slug is made unique first, and when
+// it changed the old one is kept as a redirect. Every save is snapshotted as a
+// revision and replaces the editor's autosave, and its terms are stored for
+// related posts. The category and keywords are matched to the taxonomy, see
+// lib/taxonomy.ts. Returns the stored post.
+// When post.version is set, an existing post is only overwritten if it is still
+// at that version, otherwise PostConflictError carries the stored post. Saves
+// without a version always win. Posts in the trash throw PostTrashedError.
+export const savePost = async (input: BlogPost, revision?: RevisionOptions): Promise<BlogPost> => {
+    const existing = await postRepository.findById(input.id);
+    if (existing?.deletedAt) throw new PostTrashedError(input.id);
+    const expectedVersion = existing ? input.version : undefined;
+    if (existing && expectedVersion !== undefined && existing.version !== expectedVersion) {
+        throw new PostConflictError(existing);
+    }
+    const { post, tagIds } = await normalizePost(input);
+
+    for (let attempt = 1; ; attempt++) {
+        const slug = await getUniqueSlug(post.slug, post.title, post.id);
+        try {
+            if (existing) {
+                // Checked again in the UPDATE, someone may have saved since the read above
+                const updated = await postRepository.update({ ...post, slug }, expectedVersion);
+                if (!updated) {
+                    const current = await postRepository.findById(post.id);
+                    if (!current) throw new Error('Post not found');
+                    if (current.deletedAt) throw new PostTrashedError(post.id);
+                    throw new PostConflictError(current);
+                }
+            } else {
+                await postRepository.insert({ ...post, slug });
+            }
+            await recordSlugChange(post.id, existing?.slug, slug);
+            await tagRepository.setPostTags(post.id, tagIds);
+
+            const saved = (await postRepository.findById(post.id)) as BlogPost;
+            await snapshotPost(saved, revision);
+            await storePostTerms(saved);
+            await discardAutosave(post.id);
+            return saved;
+        } catch (error) {
+            // A concurrent save claimed the same slug between the check and the write
+            if (!isDuplicateSlugError(error) || attempt >= SLUG_SAVE_ATTEMPTS) throw error;
+        }
+    }
+};
+
+// Permanently deletes trashed posts along with their revisions, old-slug
+// redirects, autosave, related post terms and cache, and link checks. Ids of
+// posts that aren't in the trash are skipped. Returns how many posts were purged.
+export const purgeTrashedPosts = async (ids: string[]): Promise<number> => {
+    return db.transaction(async tx => {
+        const posts = new PostRepository(tx);
+        const trashed = await posts.findTrashedIds({ ids });
+        if (trashed.length === 0) return 0;
+
+        await tx.execute('DELETE FROM post_revisions WHERE postId IN (?)', [trashed]);
+        await tx.execute('DELETE FROM post_slug_redirects WHERE postId IN (?)', [trashed]);
+        await tx.execute('DELETE FROM post_autosaves WHERE postId IN (?)', [trashed]);
+        await tx.execute('DELETE FROM post_terms WHERE postId IN (?)', [trashed]);
+        await tx.execute('DELETE FROM related_posts_cache WHERE postId IN (?)', [trashed]);
+        await tx.execute('DELETE FROM link_checks WHERE postId IN (?)', [trashed]);
+        await tx.execute('DELETE FROM post_tags WHERE postId IN (?)', [trashed]);
+        return posts.delete(trashed);
+    });
+};
+
+// Purges everything that has been in the trash longer than the retention period
+export const purgeExpiredTrash = async (now: Date = new Date()): Promise<number> => {
+    const days = getTrashRetentionDays();
+    if (days === 0) return 0;
+
+    const expired = await postRepository.findTrashedIds({ deletedBefore: new Date(now.getTime() - days * DAY_MS) });
+    const purged = await purgeTrashedPosts(expired);
+    if (purged > 0) console.log(`Trash: Purged ${purged} posts deleted more than ${days} days ago`);
+    return purged;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const sameKeyword = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The change a bulk action makes to one post. `position` counts the posts
+// changed before it, so scheduled posts are spaced evenly.
+const getBulkPatch = (post: BlogPost, request: BulkPostRequest, position: number): PostPatch => {
+    switch (request.action) {
+        case 'publish':
+            return { status: 'published', scheduledDate: null };
+        case 'unpublish':
+            return { status: 'draft', scheduledDate: null };
+        case 'schedule': {
+            const start = new Date(request.startAt as string).getTime();
+            const scheduledDate = new Date(start + position * (request.intervalMinutes || 0) * MINUTE_MS);
+            return { status: 'scheduled', scheduledDate: scheduledDate.toISOString() };
+        }
+        case 'setCategory':
+            return { category: request.category };
+        case 'addKeywords': {
+            const added = (request.keywords || []).filter(keyword => !post.keywords.some(existing => sameKeyword(existing, keyword)));
+            return { keywords: [...post.keywords, ...added.map(keyword => keyword.trim())] };
+        }
+        case 'removeKeywords':
+            return { keywords: post.keywords.filter(existing => !(request.keywords || []).some(keyword => sameKeyword(existing, keyword))) };
+        default:
+            throw new Error(`Unsupported bulk action: ${request.action}`);
+    }
+};
+
+// Applies one action to many posts in a single transaction. Posts that can't
+// be changed (missing or in the trash) are reported and skipped, anything else
+// that goes wrong rolls the whole batch back.
+export const bulkUpdatePosts = async (request: BulkPostRequest): Promise<BulkPostResult> => {
+    const now = new Date();
+    const { succeeded, failures } = await db.transaction(async tx => {
+        const posts = new PostRepository(tx);
+        const succeeded: string[] = [];
+        const failures: BulkPostResult['failures'] = [];
+
+        for (const id of new Set(request.ids)) {
+            const post = await posts.findById(id);
+            if (!post) {
+                failures.push({ id, error: 'Post not found' });
+                continue;
+            }
+            if (post.deletedAt) {
+                failures.push({ id, error: 'Post is in the trash' });
+                continue;
+            }
+
+            if (request.action === 'delete') {
+                await posts.trash(id, now);
+            } else {
+                const { patch, tagIds } = await normalizePostPatch(getBulkPatch(post, request, succeeded.length), tx);
+                await posts.updateFields(id, patch);
+                if (tagIds) await new TagRepository(tx).setPostTags(id, tagIds);
+            }
+            succeeded.push(id);
+        }
+        if (succeeded.length > 0) await new RelatedPostRepository(tx).clear();
+
+        return { succeeded, failures };
+    });
+
+    if (request.action === 'delete') return { succeeded, posts: [], failures };
+
+    // History and terms are only written once the batch has committed
+    const updated: BlogPost[] = [];
+    for (const id of succeeded) {
+        const post = await postRepository.findById(id);
+        if (!post) continue;
+        await snapshotPost(post);
+        await storePostTerms(post);
+        updated.push(post);
+    }
+    return { succeeded, posts: updated, failures };
+};
@@ -0,0 +1,141 @@
+import { generateFullPost, generateCoverImage } from './geminiService';
+import { getCombinedSchemaHtml, SeriesMembership } from './schemaGenerator';
+import { getTrainingContext } from './scheduler';
+import { savePost } from './posts';
+import { invalidateRelatedPosts } from './relatedPosts';
+import { categoryRepository, postRepository, slotRepository } from './repositories';
+import { getCategoryPathByName } from './taxonomy';
+import { slugify } from './slugify';
+import { BlogPost, GeneratedTopic } from '../types';
+
+const AUTO_POST_TONE = "Professional & Engaging";
+// Far longer than generating a post takes, a claim this old belongs to a tick that died
+const CLAIM_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface PublishTickResult {
+    postsPublished: number;
+    slotsPublished: number;
+    claimsReleased: number;
+    errors: string[];
+}
+
+// Picks the suggestion used when the user never locked a topic for a slot:
+// the best SEO score wins, ties go to the earliest suggestion.
+export const pickAutomaticTopic = (topics: GeneratedTopic[]): GeneratedTopic | undefined => {
+    return topics.reduce<GeneratedTopic | undefined>((best, topic) => {
+        if (!best || (topic.seoScore || 0) > (best.seoScore || 0)) return topic;
+        return best;
+    }, undefined);
+};
+
+export interface BuildPostOptions {
+    tone?: string;
+    // Passed on to generateFullPost when the post is a part of a series
+    seriesContext?: string;
+    // The series and part the post is going to be added as, for its schema
+    series?: SeriesMembership;
+    // Defaults to a new id
+    id?: string;
+}
+
+// Turns a topic into a complete, published post with schema markup injected
+export const buildPostFromTopic = async (topic: GeneratedTopic, trainingContext?: string, options: BuildPostOptions = {}): Promise<BlogPost> => {
+    const categories = await categoryRepository.findAll();
+    const content = await generateFullPost(
+        topic.topic,
+        options.tone || AUTO_POST_TONE,
+        trainingContext,
+        categories.map(category => category.name),
+        options.seriesContext
+    );
+
+    let coverImage = topic.coverImage;
+    if (!coverImage) {
+        try {
+            coverImage = await generateCoverImage(topic.topic);
+        } catch (e) {
+            console.warn("Publisher: Cover image generation failed, using placeholder", e);
+            coverImage = `https://picsum.photos/800/400?random=${Date.now()}`;
+        }
+    }
+
+    const title = content.title || topic.topic;
+    const post: BlogPost = {
+        id: options.id || Date.now().toString(),
+        title,
+        content: content.content || "",
+        excerpt: content.excerpt || topic.excerpt || "",
+        keywords: content.keywords || topic.keywords || [],
+        category: content.category || topic.category || "Auto-Generated",
+        readTime: content.readTime || topic.readTime || "3 min read",
+        dateCreated: new Date().toISOString(),
+        status: 'published',
+        geoTargeting: content.geoTargeting || topic.geoTargeting || "Global",
+        aeoQuestions: content.aeoQuestions || topic.aeoQuestions || [],
+        seoScore: content.seoScore || topic.seoScore || 85,
+        commercialIntent: content.commercialIntent,
+        isHowTo: content.isHowTo,
+        steps: content.steps,
+        slug: slugify(title),
+        coverImage
+    };
+
+    post.content = `${post.content}\n\n${getCombinedSchemaHtml(post, null, await getCategoryPathByName(post.category), options.series)}`;
+    return post;
+};
+
+// The post a slot publishes is keyed on the slot, so publishing a slot again
+// after a failure further down finds the post instead of adding another one
+const getSlotPostId = (slotId: string) => `slot-${slotId}`;
+
+// Publishes slots whose date/time has passed. Each slot is claimed by moving it
+// to 'publishing' with a conditional UPDATE, so overlapping ticks can never
+// generate the same slot twice. On failure the slot is released again.
+export const publishDueSlots = async (limit: number, now: Date = new Date(), errors: string[] = []): Promise<number> => {
+    const slots = await slotRepository.findByStatus(['pending_selection', 'ready']);
+    // Slot dates and times are local
+    const dueSlots = slots.filter(slot => new Date(`${slot.date}T${slot.time}:00`) <= now).slice(0, limit);
+
+    if (dueSlots.length === 0) return 0;
+
+    const trainingContext = await getTrainingContext();
+    let published = 0;
+
+    for (const slot of dueSlots) {
+        if (!(await slotRepository.claim(slot.id, slot.status, now))) continue; // Another tick got here first
+
+        try {
+            const topic = slot.selectedTopic
+                || pickAutomaticTopic(slot.suggestedTopics)
+                || { topic: slot.niche, relevance: 'Scheduled niche' };
+
+            console.log(`Publisher: Publishing slot ${slot.id} with topic: ${topic.topic}`);
+            const postId = getSlotPostId(slot.id);
+            if (!(await postRepository.findById(postId))) {
+                await savePost(await buildPostFromTopic(topic, trainingContext, { id: postId }));
+            }
+
+            await slotRepository.markPublished(slot.id, topic);
+            published++;
+        } catch (error) {
+            console.error(`Publisher: Failed to publish slot ${slot.id}`, error);
+            errors.push(`${slot.id}: ${error instanceof Error ? error.message : String(error)}`);
+            await slotRepository.release(slot.id, slot.status);
+        }
+    }
+
+    return published;
+};
+
+export const runPublishTick = async (slotLimit: number = 1): Promise<PublishTickResult> => {
+    const errors: string[] = [];
+    const now = new Date();
+    const claimsReleased = await slotRepository.releaseStaleClaims(new Date(now.getTime() - CLAIM_TIMEOUT_MS));
+    if (claimsReleased > 0) console.warn(`Publisher: Released ${claimsReleased} slots claimed more than ${CLAIM_TIMEOUT_MS / 60000} minutes ago`);
+    const postsPublished = await postRepository.publishDue(now);
+    if (postsPublished > 0) await invalidateRelatedPosts();
+    const slotsPublished = await publishDueSlots(slotLimit, now, errors);
+
+    console.log(`Publisher: Published ${postsPublished} scheduled posts and ${slotsPublished} slots`);
+    return { postsPublished, slotsPublished, claimsReleased, errors };
+};
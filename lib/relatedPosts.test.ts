@@ -0,0 +1,75 @@
+// Points the database at SQLite, so it must come before the other imports from lib
+import { makePost } from './testHelpers';
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { BlogPost } from '../types';
+import { postRepository, postTermRepository, relatedPostRepository } from './repositories';
+import { bulkUpdatePosts, savePost } from './posts';
+import { cacheMissingRelatedPosts, getPostTerms, getRelatedPosts, indexMissingPostTerms } from './relatedPosts';
+
+describe('getPostTerms', () => {
+    it('counts words of three letters or more, the title twice', () => {
+        assert.deepEqual(getPostTerms({ title: 'Green tea', excerpt: 'Loose leaves', content: '<p>Green tea, so to speak plainly</p>' }), {
+            green: 0.3,
+            tea: 0.3,
+            loose: 0.1,
+            leaves: 0.1,
+            speak: 0.1,
+            plainly: 0.1
+        });
+    });
+});
+
+describe('getRelatedPosts', () => {
+    before(async () => {
+        await savePost(makePost('source', '<p>Steeping oolong leaves at the right temperature.</p>', { title: 'Steeping oolong' }));
+        await savePost(makePost('similar', '<p>Oolong leaves unfurl when steeping.</p>', { title: 'Oolong steeping guide' }));
+        await savePost(makePost('unrelated', '<p>Grinding coffee beans for espresso.</p>', { title: 'Espresso grind', category: 'Coffee' }));
+        await savePost(makePost('draft', '<p>Steeping oolong again.</p>', { title: 'Oolong draft', status: 'draft' }));
+    });
+
+    it('ranks published posts with similar text first', async () => {
+        const source = (await postRepository.findById('source')) as BlogPost;
+        const related = await getRelatedPosts(source);
+
+        assert.deepEqual(related.map(post => post.id), ['similar']);
+        assert.equal('content' in related[0], false);
+    });
+
+    it('scores posts without stored terms by tags and category, and stores nothing', async () => {
+        await postRepository.insert(makePost('legacy', '<p>Steeping oolong leaves.</p>', { title: 'Old oolong post', category: 'Coffee' }));
+        const source = (await postRepository.findById('unrelated')) as BlogPost;
+
+        assert.deepEqual((await getRelatedPosts(source)).map(post => post.id), ['legacy']);
+        assert.deepEqual(await postTermRepository.findMissingPostIds(10), ['legacy']);
+
+        assert.equal(await indexMissingPostTerms(), 1);
+        assert.deepEqual(await postTermRepository.findMissingPostIds(10), []);
+        const oolong = (await postRepository.findById('source')) as BlogPost;
+        assert.deepEqual((await getRelatedPosts(oolong)).map(post => post.id), ['similar', 'legacy']);
+    });
+
+    it('serves the cache the tick fills until a post is saved', async () => {
+        assert.equal(await relatedPostRepository.find('source'), null);
+        assert.equal(await cacheMissingRelatedPosts(), 4);
+        assert.deepEqual(await relatedPostRepository.find('source'), ['similar', 'legacy']);
+        assert.deepEqual(await relatedPostRepository.findMissingPostIds(10), []);
+
+        await relatedPostRepository.save('source', ['unrelated']);
+        const source = (await postRepository.findById('source')) as BlogPost;
+        assert.deepEqual((await getRelatedPosts(source)).map(post => post.id), ['unrelated']);
+
+        await savePost({ ...source, title: 'Steeping oolong, updated' });
+        assert.equal(await relatedPostRepository.find('source'), null);
+        assert.deepEqual((await getRelatedPosts(source)).map(post => post.id), ['similar', 'legacy']);
+        assert.equal(await relatedPostRepository.find('source'), null);
+    });
+
+    it('stores the terms of bulk edited posts', async () => {
+        await postRepository.insert(makePost('bulk', '<p>Matcha whisking.</p>', { title: 'Matcha' }));
+        assert.deepEqual(await postTermRepository.findMissingPostIds(10), ['bulk']);
+
+        await bulkUpdatePosts({ ids: ['bulk'], action: 'addKeywords', keywords: ['matcha'] });
+        assert.deepEqual(await postTermRepository.findMissingPostIds(10), []);
+    });
+});
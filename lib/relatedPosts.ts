@@ -0,0 +1,164 @@
+import { BlogPost, RelatedPost } from '../types';
+import { htmlToTextLines } from './diff';
+import { WORD_CHARS } from './internalLinks';
+import { PostSummary, PostTerms, postRepository, postTermRepository, relatedPostRepository } from './repositories';
+import { getCategorySlug, getTagSlug } from './schemaGenerator';
+
+// Related posts are scored locally against every other published post: text
+// similarity (TF-IDF weighted cosine over title, excerpt and body), shared tags
+// and the same category. Posts of the same series are left out, the series
+// block already lists them. Each post's term frequencies are stored when it is
+// saved, so scoring reads no other post bodies. Posts saved before that count
+// by tags and category alone until the scheduler tick has indexed them.
+//
+// The results are cached per post. Storing a post's terms, publishing,
+// trashing or restoring a post clears the cache, and the scheduler tick fills
+// it again. Pages only read it: until a post's row is back they score it on
+// the spot without storing the result.
+
+export const DEFAULT_RELATED_POSTS = 3;
+// The most any caller can ask for
+export const MAX_RELATED_POSTS = 6;
+// Only the most frequent terms of a post are stored
+const MAX_STORED_TERMS = 100;
+// Posts indexed and related posts cached per scheduler tick
+const DEFAULT_INDEX_BATCH = 20;
+
+const SIMILARITY_WEIGHT = 10;
+const SHARED_TAG_WEIGHT = 2;
+const SAME_CATEGORY_WEIGHT = 1;
+
+type TermVector = Map<string, number>;
+
+const tokenize = (text: string): string[] =>
+    text.toLowerCase().split(new RegExp(`[^${WORD_CHARS}]+`)).filter(word => word.length > 2);
+
+// The title counts twice, it says the most about what a post is about
+const getTerms = (post: Pick<BlogPost, 'title' | 'excerpt' | 'content'>) =>
+    tokenize([post.title, post.title, post.excerpt, ...htmlToTextLines(post.content)].join('\n'));
+
+const toRelatedPost = ({ id, slug, title, excerpt, category, coverImage, readTime, dateCreated, datePublished }: PostSummary): RelatedPost =>
+    ({ id, slug, title, excerpt, category, coverImage, readTime, dateCreated, datePublished });
+
+const toTermFrequencies = (terms: string[]): TermVector => {
+    const frequencies: TermVector = new Map();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    for (const [term, count] of frequencies) frequencies.set(term, count / terms.length);
+    return frequencies;
+};
+
+// Terms found in every document weigh nothing
+const getInverseDocumentFrequencies = (documents: TermVector[]): TermVector => {
+    const counts: TermVector = new Map();
+    for (const document of documents) {
+        for (const term of document.keys()) counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    const idf: TermVector = new Map();
+    for (const [term, count] of counts) idf.set(term, Math.log(documents.length / count));
+    return idf;
+};
+
+const weigh = (frequencies: TermVector, idf: TermVector): TermVector =>
+    new Map([...frequencies].map(([term, frequency]) => [term, frequency * (idf.get(term) || 0)]));
+
+const cosineSimilarity = (a: TermVector, b: TermVector): number => {
+    let dot = 0;
+    for (const [term, weight] of a) dot += weight * (b.get(term) || 0);
+    if (dot === 0) return 0;
+    const norm = (vector: TermVector) => Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+    return dot / (norm(a) * norm(b));
+};
+
+// The most frequent terms of `post`, as stored for it
+export const getPostTerms = (post: Pick<BlogPost, 'title' | 'excerpt' | 'content'>): PostTerms =>
+    Object.fromEntries(
+        [...toTermFrequencies(getTerms(post))]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_STORED_TERMS)
+    );
+
+// Every post's related posts may change with another post's, so the whole cache goes
+export const invalidateRelatedPosts = async (): Promise<void> => {
+    await relatedPostRepository.clear();
+};
+
+export const indexPostTerms = async (post: BlogPost): Promise<void> => {
+    await postTermRepository.save(post.id, getPostTerms(post));
+    await invalidateRelatedPosts();
+};
+
+// Stores the terms of up to `limit` posts saved before terms were recorded.
+// Returns how many were indexed.
+export const indexMissingPostTerms = async (limit: number = DEFAULT_INDEX_BATCH): Promise<number> => {
+    let indexed = 0;
+    for (const id of await postTermRepository.findMissingPostIds(limit)) {
+        const post = await postRepository.findById(id);
+        if (!post) continue;
+        await indexPostTerms(post);
+        indexed++;
+    }
+    return indexed;
+};
+
+// The MAX_RELATED_POSTS published posts most related to `post`, best first
+const scoreRelatedPosts = async (post: BlogPost): Promise<RelatedPost[]> => {
+    const { posts: published } = await postRepository.query({ status: 'published', summary: true });
+    const candidates = published
+        .filter(other => other.id !== post.id && !(post.seriesId && other.seriesId === post.seriesId));
+    if (candidates.length === 0) return [];
+
+    const storedTerms = await postTermRepository.findPublished();
+    const candidateTerms = candidates.map(candidate => {
+        const terms = storedTerms.get(candidate.id);
+        return terms ? new Map(Object.entries(terms)) : null;
+    });
+    // `post` has its body at hand, so its terms need not be stored yet
+    const sourceTerms = toTermFrequencies(getTerms(post));
+    const idf = getInverseDocumentFrequencies([sourceTerms, ...candidateTerms.filter((terms): terms is TermVector => !!terms)]);
+    const source = weigh(sourceTerms, idf);
+
+    const tags = new Set(post.keywords.map(getTagSlug));
+    const category = getCategorySlug(post.category);
+
+    return candidates
+        .map((candidate, index) => {
+            const terms = candidateTerms[index];
+            const sharedTags = candidate.keywords.filter(keyword => tags.has(getTagSlug(keyword))).length;
+            const score = (terms ? SIMILARITY_WEIGHT * cosineSimilarity(source, weigh(terms, idf)) : 0)
+                + SHARED_TAG_WEIGHT * sharedTags
+                + (getCategorySlug(candidate.category) === category ? SAME_CATEGORY_WEIGHT : 0);
+            return { candidate, score };
+        })
+        .filter(entry => entry.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_RELATED_POSTS)
+        .map(({ candidate }) => toRelatedPost(candidate));
+};
+
+// Caches the related posts of up to `limit` published posts that have no
+// cache row. Returns how many were cached.
+export const cacheMissingRelatedPosts = async (limit: number = DEFAULT_INDEX_BATCH): Promise<number> => {
+    let cached = 0;
+    for (const id of await relatedPostRepository.findMissingPostIds(limit)) {
+        const post = await postRepository.findById(id);
+        if (!post) continue;
+        await relatedPostRepository.save(id, (await scoreRelatedPosts(post)).map(related => related.id));
+        cached++;
+    }
+    return cached;
+};
+
+// The related posts to show with `post`, from the cache when it has them.
+// Never writes, it runs while public pages render.
+export const getRelatedPosts = async (post: BlogPost, limit: number = DEFAULT_RELATED_POSTS): Promise<RelatedPost[]> => {
+    const count = Math.min(limit, MAX_RELATED_POSTS);
+    const cachedIds = await relatedPostRepository.find(post.id);
+    if (!cachedIds) return (await scoreRelatedPosts(post)).slice(0, count);
+
+    const ids = cachedIds.slice(0, count);
+    const posts = new Map((await postRepository.findPublishedByIds(ids)).map(related => [related.id, related]));
+    return ids
+        .map(id => posts.get(id))
+        .filter((related): related is NonNullable<typeof related> => !!related)
+        .map(toRelatedPost);
+};
@@ -0,0 +1,52 @@
+import defaultDb, { Database } from '../db';
+import { Author } from '../../types';
+import { mapAuthorRow, toAuthorRow } from './mappers';
+
+export class AuthorRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    async findAll(): Promise<Author[]> {
+        const rows = await this.db.query('SELECT * FROM authors ORDER BY name ASC');
+        return rows.map(mapAuthorRow);
+    }
+
+    async findById(id: string): Promise<Author | null> {
+        const rows = await this.db.query('SELECT * FROM authors WHERE id = ?', [id]);
+        return rows.length > 0 ? mapAuthorRow(rows[0]) : null;
+    }
+
+    async findBySlug(slug: string): Promise<Author | null> {
+        const rows = await this.db.query('SELECT * FROM authors WHERE slug = ?', [slug]);
+        return rows.length > 0 ? mapAuthorRow(rows[0]) : null;
+    }
+
+    async isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+        const rows = await this.db.query(
+            'SELECT id FROM authors WHERE slug = ? AND id <> ? LIMIT 1',
+            [slug, excludeId || '']
+        );
+        return rows.length > 0;
+    }
+
+    // Creates or updates, the creation date is only written on insert
+    async save(author: Author): Promise<void> {
+        const row = toAuthorRow(author);
+        const columns = Object.keys(row);
+        const { dialect } = this.db;
+        const assignments = Object.fromEntries(columns.map(column => [column, dialect.excluded(column)]));
+        await this.db.execute(
+            `INSERT INTO authors (id, ${columns.join(', ')}, dateCreated) VALUES (?, ${columns.map(() => '?').join(', ')}, ?)
+            ${dialect.onConflictUpdate('id', assignments)}`,
+            [author.id, ...Object.values(row), new Date()]
+        );
+    }
+
+    // Their posts lose the byline rather than pointing at a missing author
+    async delete(id: string): Promise<boolean> {
+        return this.db.transaction(async tx => {
+            await tx.execute('UPDATE posts SET authorId = NULL WHERE authorId = ?', [id]);
+            const result = await tx.execute('DELETE FROM authors WHERE id = ?', [id]);
+            return result.affectedRows > 0;
+        });
+    }
+}
@@ -0,0 +1,64 @@
+import defaultDb, { Database } from '../db';
+import { Category } from '../../types';
+import { mapCategoryRow, toCategoryRow } from './mappers';
+
+export class CategoryRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    // With the number of posts filed directly under each, trashed ones left out
+    async findAll(): Promise<Category[]> {
+        const rows = await this.db.query(
+            `SELECT categories.*, (SELECT COUNT(*) FROM posts WHERE posts.categoryId = categories.id AND posts.deletedAt IS NULL) AS postCount
+            FROM categories ORDER BY name ASC`
+        );
+        return rows.map(mapCategoryRow);
+    }
+
+    async findById(id: string): Promise<Category | null> {
+        const rows = await this.db.query('SELECT * FROM categories WHERE id = ?', [id]);
+        return rows.length > 0 ? mapCategoryRow(rows[0]) : null;
+    }
+
+    async findBySlug(slug: string): Promise<Category | null> {
+        const rows = await this.db.query('SELECT * FROM categories WHERE slug = ?', [slug]);
+        return rows.length > 0 ? mapCategoryRow(rows[0]) : null;
+    }
+
+    async isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+        const rows = await this.db.query(
+            'SELECT id FROM categories WHERE slug = ? AND id <> ? LIMIT 1',
+            [slug, excludeId || '']
+        );
+        return rows.length > 0;
+    }
+
+    // Skipped when the slug already exists, so concurrent saves naming the same
+    // new category end up sharing one row. Look it up by slug afterwards.
+    async insertIfMissing(category: Category): Promise<void> {
+        const row = toCategoryRow(category);
+        const columns = Object.keys(row);
+        await this.db.execute(
+            `${this.db.dialect.insertIgnore} INTO categories (id, ${columns.join(', ')}, dateCreated) VALUES (?, ${columns.map(() => '?').join(', ')}, ?)`,
+            [category.id, ...Object.values(row), new Date()]
+        );
+    }
+
+    async update(category: Category): Promise<boolean> {
+        const row = toCategoryRow(category);
+        const result = await this.db.execute(
+            `UPDATE categories SET ${Object.keys(row).map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+            [...Object.values(row), category.id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    // Moves the direct children of one category under another, or to the top level
+    async reparentChildren(fromId: string, toParentId: string | null): Promise<void> {
+        await this.db.execute('UPDATE categories SET parentId = ? WHERE parentId = ?', [toParentId, fromId]);
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const result = await this.db.execute('DELETE FROM categories WHERE id = ?', [id]);
+        return result.affectedRows > 0;
+    }
+}
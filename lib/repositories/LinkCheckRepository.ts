@@ -0,0 +1,59 @@
+import { createHash } from 'crypto';
+import defaultDb, { Database } from '../db';
+import { BrokenLink, LinkCheck } from '../../types';
+import { mapLinkCheckRow, toIsoString, toLinkCheckRow } from './mappers';
+
+const hashUrl = (url: string) => createHash('sha1').update(url).digest('hex');
+
+// Results of the last link audit. Posts in the trash are left out of every
+// lookup, their rows go when they are purged.
+export class LinkCheckRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    // Broken ones first
+    async findByPost(postId: string): Promise<LinkCheck[]> {
+        const rows = await this.db.query('SELECT * FROM link_checks WHERE postId = ? ORDER BY isBroken DESC, url ASC', [postId]);
+        return rows.map(mapLinkCheckRow);
+    }
+
+    // Every broken URL with its post, most recently checked first
+    async findBroken(): Promise<BrokenLink[]> {
+        const rows = await this.db.query(
+            `SELECT link_checks.*, posts.title AS postTitle, posts.slug AS postSlug, posts.version AS currentVersion
+            FROM link_checks JOIN posts ON posts.id = link_checks.postId
+            WHERE link_checks.isBroken = ? AND posts.deletedAt IS NULL
+            ORDER BY link_checks.dateChecked DESC, posts.title ASC, link_checks.url ASC`,
+            [1]
+        );
+        return rows.map(row => ({
+            ...mapLinkCheckRow(row),
+            postTitle: row.postTitle as string,
+            postSlug: row.postSlug as string,
+            isOutdated: Number(row.currentVersion) !== Number(row.postVersion)
+        }));
+    }
+
+    async getTotals(): Promise<{ posts: number; urls: number; lastChecked?: string }> {
+        const rows = await this.db.query(
+            `SELECT COUNT(DISTINCT link_checks.postId) AS posts, COUNT(*) AS urls, MAX(link_checks.dateChecked) AS lastChecked
+            FROM link_checks JOIN posts ON posts.id = link_checks.postId WHERE posts.deletedAt IS NULL`
+        );
+        const { posts, urls, lastChecked } = rows[0];
+        return { posts: Number(posts), urls: Number(urls), lastChecked: toIsoString(lastChecked) };
+    }
+
+    // Replaces everything stored for the post with a new set of results
+    async replaceForPost(postId: string, checks: LinkCheck[]): Promise<void> {
+        await this.db.transaction(async tx => {
+            await tx.execute('DELETE FROM link_checks WHERE postId = ?', [postId]);
+            for (const check of checks) {
+                const row = toLinkCheckRow(check);
+                const columns = Object.keys(row);
+                await tx.execute(
+                    `INSERT INTO link_checks (urlHash, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')})`,
+                    [hashUrl(check.url), ...Object.values(row)]
+                );
+            }
+        });
+    }
+}
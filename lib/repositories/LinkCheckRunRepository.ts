@@ -0,0 +1,74 @@
+import defaultDb, { Database } from '../db';
+import { LinkCheckRun } from '../../types';
+import { mapLinkCheckRunRow } from './mappers';
+
+// Link audits waiting for the scheduler tick, and the ones it has run
+export class LinkCheckRunRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    async findById(id: string): Promise<LinkCheckRun | null> {
+        const rows = await this.db.query('SELECT * FROM link_check_runs WHERE id = ?', [id]);
+        return rows.length > 0 ? mapLinkCheckRunRow(rows[0]) : null;
+    }
+
+    async findLatest(): Promise<LinkCheckRun | null> {
+        const rows = await this.db.query('SELECT * FROM link_check_runs ORDER BY dateCreated DESC LIMIT 1');
+        return rows.length > 0 ? mapLinkCheckRunRow(rows[0]) : null;
+    }
+
+    // Queued and running, oldest first
+    async findUnfinished(): Promise<LinkCheckRun[]> {
+        const rows = await this.db.query(
+            "SELECT * FROM link_check_runs WHERE status IN ('queued', 'running') ORDER BY dateCreated ASC"
+        );
+        return rows.map(mapLinkCheckRunRow);
+    }
+
+    async enqueue(id: string, postIds: string[] | undefined, now: Date): Promise<LinkCheckRun> {
+        await this.db.execute(
+            "INSERT INTO link_check_runs (id, postIds, status, dateCreated) VALUES (?, ?, 'queued', ?)",
+            [id, postIds ? JSON.stringify(postIds) : null, now]
+        );
+        return (await this.findById(id)) as LinkCheckRun;
+    }
+
+    // Moves the oldest queued run to 'running'. Null when nothing is queued or
+    // another tick got there first.
+    async claimNext(now: Date): Promise<LinkCheckRun | null> {
+        const rows = await this.db.query(
+            "SELECT id FROM link_check_runs WHERE status = 'queued' ORDER BY dateCreated ASC LIMIT 1"
+        );
+        if (rows.length === 0) return null;
+
+        const id = rows[0].id as string;
+        const result = await this.db.execute(
+            "UPDATE link_check_runs SET status = 'running', dateStarted = ? WHERE id = ? AND status = 'queued'",
+            [now, id]
+        );
+        return result.affectedRows > 0 ? this.findById(id) : null;
+    }
+
+    async finish(id: string, totals: { postsChecked: number; urlsChecked: number; broken: number }, now: Date): Promise<void> {
+        await this.db.execute(
+            "UPDATE link_check_runs SET status = 'done', postsChecked = ?, urlsChecked = ?, broken = ?, error = NULL, dateFinished = ? WHERE id = ?",
+            [totals.postsChecked, totals.urlsChecked, totals.broken, now, id]
+        );
+    }
+
+    async fail(id: string, error: string, now: Date): Promise<void> {
+        await this.db.execute(
+            "UPDATE link_check_runs SET status = 'failed', error = ?, dateFinished = ? WHERE id = ?",
+            [error, now, id]
+        );
+    }
+
+    // Fails runs started before `startedBefore`, whose tick must have died
+    // mid-audit. Returns how many there were.
+    async failStale(startedBefore: Date, now: Date): Promise<number> {
+        const result = await this.db.execute(
+            "UPDATE link_check_runs SET status = 'failed', error = ?, dateFinished = ? WHERE status = 'running' AND dateStarted < ?",
+            ['Interrupted before it finished', now, startedBefore]
+        );
+        return result.affectedRows;
+    }
+}
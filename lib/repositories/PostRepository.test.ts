@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Database } from '../db';
+import { createSqliteDatabase } from '../storage/sqlite';
+import { BlogPost } from '../../types';
+import { PostRepository } from './PostRepository';
+
+const makePost = (id: string, overrides: Partial<BlogPost> = {}): BlogPost => ({
+    id,
+    slug: id,
+    title: `Post ${id}`,
+    excerpt: '',
+    content: `<p>Body of ${id}</p>`,
+    keywords: ['tea'],
+    category: 'Drinks',
+    dateCreated: new Date().toISOString(),
+    status: 'draft',
+    readTime: '1 min read',
+    ...overrides
+});
+
+describe('PostRepository on SQLite', () => {
+    let db: Database;
+    let posts: PostRepository;
+
+    beforeEach(() => {
+        db = createSqliteDatabase(':memory:');
+        posts = new PostRepository(db);
+    });
+
+    afterEach(() => db.close());
+
+    it('reads back what it inserted', async () => {
+        await posts.insert(makePost('a', { isHowTo: true, steps: ['Boil water'] }));
+
+        const post = await posts.findById('a');
+        assert.equal(post?.title, 'Post a');
+        assert.deepEqual(post?.keywords, ['tea']);
+        assert.equal(post?.isHowTo, true);
+        assert.deepEqual(post?.steps, ['Boil water']);
+        assert.equal(post?.version, 1);
+        assert.equal(post?.datePublished, undefined);
+    });
+
+    it('filters, pages and leaves out the body for summaries', async () => {
+        await posts.insert(makePost('a', { status: 'published' }));
+        await posts.insert(makePost('b', { status: 'published', keywords: ['coffee'] }));
+        await posts.insert(makePost('c'));
+
+        const published = await posts.query({ status: 'published' });
+        assert.equal(published.total, 2);
+
+        const coffee = await posts.query({ keyword: 'coffee' });
+        assert.deepEqual(coffee.posts.map(post => post.id), ['b']);
+
+        const page = await posts.query({ limit: 1, offset: 0, summary: true });
+        assert.equal(page.total, 3);
+        assert.equal(page.posts.length, 1);
+        assert.equal('content' in page.posts[0], false);
+    });
+
+    it('lists published posts without the body and limits the latest', async () => {
+        await posts.insert(makePost('a', { status: 'published' }));
+        await posts.insert(makePost('b', { status: 'published' }));
+        await posts.insert(makePost('c'));
+        await db.execute('UPDATE posts SET datePublished = ? WHERE id = ?', [new Date('2030-01-01T00:00:00.000Z'), 'b']);
+
+        const listing = await posts.findPublishedListing();
+        assert.deepEqual(listing.map(post => post.id), ['b', 'a']);
+        assert.equal('content' in listing[0], false);
+
+        const latest = await posts.findLatestPublished(1);
+        assert.deepEqual(latest.map(post => post.id), ['b']);
+        assert.equal(latest[0].content, '<p>Body of b</p>');
+    });
+
+    it('only updates while the expected version matches', async () => {
+        await posts.insert(makePost('a'));
+
+        assert.equal(await posts.update(makePost('a', { title: 'First' }), 1), true);
+        assert.equal(await posts.update(makePost('a', { title: 'Stale' }), 1), false);
+
+        const post = await posts.findById('a');
+        assert.equal(post?.title, 'First');
+        assert.equal(post?.version, 2);
+    });
+
+    it('stamps the first publication only', async () => {
+        await posts.insert(makePost('a'));
+        await posts.updateFields('a', { status: 'published' });
+        const first = (await posts.findById('a'))?.datePublished;
+        assert.ok(first);
+
+        await posts.updateFields('a', { status: 'draft' });
+        await posts.updateFields('a', { status: 'published' });
+        assert.equal((await posts.findById('a'))?.datePublished, first);
+    });
+
+    it('keeps trashed posts out of lookups and writes until restored', async () => {
+        await posts.insert(makePost('a', { status: 'published' }));
+        assert.equal(await posts.trash('a', new Date()), true);
+
+        assert.equal(await posts.findPublishedBySlug('a'), null);
+        assert.equal((await posts.query({})).total, 0);
+        assert.deepEqual(await posts.findTrashedIds(), ['a']);
+        assert.equal(await posts.isSlugTaken('a'), true);
+
+        assert.equal(await posts.updateFields('a', { title: 'Edited' }), false);
+        assert.equal(await posts.update(makePost('a', { title: 'Edited' })), false);
+        assert.equal(await posts.updateFields('a', { keywords: ['green tea'] }, { includeTrashed: true }), true);
+
+        assert.equal(await posts.restore('a'), true);
+        const post = await posts.findById('a');
+        assert.equal(post?.title, 'Post a');
+        assert.deepEqual(post?.keywords, ['green tea']);
+    });
+});
@@ -0,0 +1,347 @@
+import defaultDb, { Database } from '../db';
+import { BlogPost, PostSummary } from '../../types';
+import { mapPostRow, toIsoString, toPostPatchRow, toPostRow } from './mappers';
+
+export type { PostSummary };
+
+export type PublishedPostSummary = Pick<BlogPost, 'slug' | 'title' | 'category' | 'coverImage' | 'dateCreated' | 'dateModified' | 'datePublished' | 'authorId' | 'seriesId'>;
+
+export interface PostQuery {
+    status?: BlogPost['status'];
+    category?: string;
+    keyword?: string;
+    // Tag slug, unlike keyword this also matches spelling variants of the tag
+    tag?: string;
+    // Inclusive dateCreated range, anything Date can parse
+    from?: string;
+    to?: string;
+    // Free-text search over title, excerpt and content
+    q?: string;
+    limit?: number;
+    offset?: number;
+    // Leave out the post body, for list views
+    summary?: boolean;
+}
+
+// Nullable columns accept null in a patch to clear them
+export type PostPatch = Partial<Omit<BlogPost, 'id' | 'dateCreated' | 'dateModified' | 'datePublished' | 'deletedAt' | 'version' | 'coverImage' | 'scheduledDate' | 'geoTargeting' | 'authorId' | 'categoryId' | 'seriesId' | 'seriesPart'>> & {
+    coverImage?: string | null;
+    scheduledDate?: string | null;
+    geoTargeting?: string | null;
+    authorId?: string | null;
+};
+
+const SUMMARY_COLUMNS = [
+    'id', 'slug', 'title', 'excerpt', 'keywords', 'category', 'dateCreated', 'dateModified', 'datePublished', 'deletedAt', 'version', 'status',
+    'readTime', 'coverImage', 'scheduledDate', 'geoTargeting', 'aeoQuestions', 'seoScore', 'commercialIntent', 'isHowTo', 'steps', 'authorId', 'categoryId', 'seriesId', 'seriesPart'
+];
+
+// '!' rather than a backslash, which MySQL and SQLite quote differently
+const escapeLike = (value: string) => value.replace(/[!%_]/g, match => `!${match}`);
+
+// Trashed posts only show up in findById, the trash lookups and isSlugTaken,
+// since they keep their slug until purged.
+export class PostRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    async findById(id: string): Promise<BlogPost | null> {
+        const rows = await this.db.query('SELECT * FROM posts WHERE id = ?', [id]);
+        return rows.length > 0 ? mapPostRow(rows[0]) : null;
+    }
+
+    async findBySlug(slug: string): Promise<BlogPost | null> {
+        const rows = await this.db.query('SELECT * FROM posts WHERE slug = ? AND deletedAt IS NULL ORDER BY dateCreated DESC LIMIT 1', [slug]);
+        return rows.length > 0 ? mapPostRow(rows[0]) : null;
+    }
+
+    async findPublished(): Promise<BlogPost[]> {
+        const rows = await this.db.query(
+            "SELECT * FROM posts WHERE status = 'published' AND deletedAt IS NULL ORDER BY datePublished DESC"
+        );
+        return rows.map(mapPostRow);
+    }
+
+    // Without the post body, for the blog index
+    async findPublishedListing(): Promise<PostSummary[]> {
+        const rows = await this.db.query(
+            `SELECT ${SUMMARY_COLUMNS.join(', ')} FROM posts WHERE status = 'published' AND deletedAt IS NULL ORDER BY datePublished DESC`
+        );
+        return rows.map(mapPostRow);
+    }
+
+    // The newest published posts, for feeds
+    async findLatestPublished(limit: number): Promise<BlogPost[]> {
+        const rows = await this.db.query(
+            "SELECT * FROM posts WHERE status = 'published' AND deletedAt IS NULL ORDER BY datePublished DESC LIMIT ?",
+            [limit]
+        );
+        return rows.map(mapPostRow);
+    }
+
+    // Lightweight projection for indexes that don't need the post body
+    async findPublishedSummaries(): Promise<PublishedPostSummary[]> {
+        const rows = await this.db.query(
+            "SELECT slug, title, category, coverImage, dateCreated, dateModified, datePublished, authorId, seriesId FROM posts WHERE status = 'published' AND deletedAt IS NULL ORDER BY datePublished DESC"
+        );
+        return rows.map(row => ({
+            slug: row.slug as string,
+            title: row.title as string,
+            category: row.category as string,
+            coverImage: (row.coverImage as string) || undefined,
+            dateCreated: toIsoString(row.dateCreated) || '',
+            dateModified: toIsoString(row.dateModified),
+            datePublished: toIsoString(row.datePublished),
+            authorId: (row.authorId as string | null) ?? undefined,
+            seriesId: (row.seriesId as string | null) ?? undefined
+        }));
+    }
+
+    async findPublishedByAuthor(authorId: string): Promise<BlogPost[]> {
+        const rows = await this.db.query(
+            "SELECT * FROM posts WHERE status = 'published' AND authorId = ? AND deletedAt IS NULL ORDER BY datePublished DESC",
+            [authorId]
+        );
+        return rows.map(mapPostRow);
+    }
+
+    // Posts filed directly under any of the categories
+    async findPublishedInCategories(categoryIds: string[]): Promise<BlogPost[]> {
+        if (categoryIds.length === 0) return [];
+        const rows = await this.db.query(
+            "SELECT * FROM posts WHERE status = 'published' AND categoryId IN (?) AND deletedAt IS NULL ORDER BY datePublished DESC",
+            [categoryIds]
+        );
+        return rows.map(mapPostRow);
+    }
+
+    async findPublishedByTag(tagId: string): Promise<BlogPost[]> {
+        const rows = await this.db.query(
+            `SELECT posts.* FROM posts JOIN post_tags ON post_tags.postId = posts.id
+            WHERE post_tags.tagId = ? AND posts.status = 'published' AND posts.deletedAt IS NULL ORDER BY posts.datePublished DESC`,
+            [tagId]
+        );
+        return rows.map(mapPostRow);
+    }
+
+    // Published posts among `ids`, without the post body and in no particular order
+    async findPublishedByIds(ids: string[]): Promise<PostSummary[]> {
+        if (ids.length === 0) return [];
+        const rows = await this.db.query(
+            `SELECT ${SUMMARY_COLUMNS.join(', ')} FROM posts WHERE status = 'published' AND id IN (?) AND deletedAt IS NULL`,
+            [ids]
+        );
+        return rows.map(mapPostRow);
+    }
+
+    // Every part of a series in order, drafts included, without the post body
+    async findSeriesParts(seriesId: string): Promise<PostSummary[]> {
+        const rows = await this.db.query(
+            `SELECT ${SUMMARY_COLUMNS.join(', ')} FROM posts WHERE seriesId = ? AND deletedAt IS NULL ORDER BY seriesPart ASC, dateCreated ASC`,
+            [seriesId]
+        );
+        return rows.map(mapPostRow);
+    }
+
+    async findPublishedBySlug(slug: string): Promise<BlogPost | null> {
+        const rows = await this.db.query(
+            "SELECT * FROM posts WHERE status = 'published' AND slug = ? AND deletedAt IS NULL ORDER BY datePublished DESC LIMIT 1",
+            [slug]
+        );
+        return rows.length > 0 ? mapPostRow(rows[0]) : null;
+    }
+
+    async query(query: PostQuery): Promise<{ posts: (BlogPost | PostSummary)[]; total: number }> {
+        const conditions: string[] = ['deletedAt IS NULL'];
+        const values: unknown[] = [];
+
+        if (query.status) {
+            conditions.push('status = ?');
+            values.push(query.status);
+        }
+        if (query.category) {
+            conditions.push('category = ?');
+            values.push(query.category);
+        }
+        if (query.keyword) {
+            conditions.push(this.db.dialect.jsonArrayContains('keywords'));
+            values.push(query.keyword);
+        }
+        if (query.tag) {
+            conditions.push('EXISTS (SELECT 1 FROM post_tags JOIN tags ON tags.id = post_tags.tagId WHERE post_tags.postId = posts.id AND tags.slug = ?)');
+            values.push(query.tag);
+        }
+        if (query.from) {
+            conditions.push('dateCreated >= ?');
+            values.push(new Date(query.from));
+        }
+        if (query.to) {
+            conditions.push('dateCreated <= ?');
+            values.push(new Date(query.to));
+        }
+        if (query.q) {
+            const pattern = `%${escapeLike(query.q)}%`;
+            conditions.push("(title LIKE ? ESCAPE '!' OR excerpt LIKE ? ESCAPE '!' OR content LIKE ? ESCAPE '!')");
+            values.push(pattern, pattern, pattern);
+        }
+
+        const where = `WHERE ${conditions.join(' AND ')}`;
+        const columns = query.summary ? SUMMARY_COLUMNS.join(', ') : '*';
+        const pagination = query.limit ? 'LIMIT ? OFFSET ?' : '';
+        const pageValues = query.limit ? [query.limit, query.offset || 0] : [];
+
+        const rows = await this.db.query(
+            `SELECT ${columns} FROM posts ${where} ORDER BY dateCreated DESC ${pagination}`,
+            [...values, ...pageValues]
+        );
+        const countRows = await this.db.query(`SELECT COUNT(*) AS total FROM posts ${where}`, values);
+
+        return { posts: rows.map(mapPostRow), total: Number(countRows[0].total) };
+    }
+
+    async isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+        const rows = await this.db.query(
+            'SELECT id FROM posts WHERE slug = ? AND id <> ? LIMIT 1',
+            [slug, excludeId || '']
+        );
+        return rows.length > 0;
+    }
+
+    // Most recently deleted first, without the post body
+    async findTrashed(): Promise<PostSummary[]> {
+        const rows = await this.db.query(
+            `SELECT ${SUMMARY_COLUMNS.join(', ')} FROM posts WHERE deletedAt IS NOT NULL ORDER BY deletedAt DESC`
+        );
+        return rows.map(mapPostRow);
+    }
+
+    // Ids of trashed posts, optionally only among `ids` or only those deleted before a date
+    async findTrashedIds(filter: { ids?: string[]; deletedBefore?: Date } = {}): Promise<string[]> {
+        const conditions = ['deletedAt IS NOT NULL'];
+        const values: unknown[] = [];
+        if (filter.ids) {
+            if (filter.ids.length === 0) return [];
+            conditions.push('id IN (?)');
+            values.push(filter.ids);
+        }
+        if (filter.deletedBefore) {
+            conditions.push('deletedAt <= ?');
+            values.push(filter.deletedBefore);
+        }
+
+        const rows = await this.db.query(`SELECT id FROM posts WHERE ${conditions.join(' AND ')}`, values);
+        return rows.map(row => row.id as string);
+    }
+
+    // Deliberately no ON DUPLICATE KEY UPDATE: with the unique slug index a slug
+    // collision would update the *other* post instead of failing.
+    async insert(post: BlogPost): Promise<void> {
+        const now = new Date();
+        const row = {
+            ...toPostRow(post),
+            dateCreated: now,
+            datePublished: post.status === 'published' ? now : null
+        };
+        const columns = Object.keys(row);
+        await this.db.execute(
+            `INSERT INTO posts (id, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')})`,
+            [post.id, ...Object.values(row)]
+        );
+    }
+
+    // Overwrites everything but the creation date, posts in the trash are left
+    // alone. With expectedVersion the write only happens while the stored
+    // version still matches, false means it didn't.
+    async update(post: BlogPost, expectedVersion?: number): Promise<boolean> {
+        return this.updateColumns(post.id, toPostRow(post), { expectedVersion });
+    }
+
+    // Writes only the fields present in the patch. categoryId is not part of
+    // PostPatch since clients never set it, lib/taxonomy.ts does. Posts in the
+    // trash are left alone unless includeTrashed is set, which lib/taxonomy.ts
+    // uses to carry tag merges over to them.
+    async updateFields(id: string, patch: PostPatch & { categoryId?: string | null }, options: { includeTrashed?: boolean } = {}): Promise<boolean> {
+        return this.updateColumns(id, toPostPatchRow(patch), options);
+    }
+
+    // Files every post of one category under another, trashed ones included.
+    // With `to` null they keep their category name but lose the link.
+    async reassignCategory(fromId: string, to: { id: string; name: string } | null): Promise<number> {
+        const result = to
+            ? await this.db.execute('UPDATE posts SET categoryId = ?, category = ?, version = version + 1 WHERE categoryId = ?', [to.id, to.name, fromId])
+            : await this.db.execute('UPDATE posts SET categoryId = NULL WHERE categoryId = ?', [fromId]);
+        return result.affectedRows;
+    }
+
+    // Moves a post to the trash. False when it doesn't exist or is already there.
+    async trash(id: string, now: Date): Promise<boolean> {
+        const result = await this.db.execute('UPDATE posts SET deletedAt = ? WHERE id = ? AND deletedAt IS NULL', [now, id]);
+        return result.affectedRows > 0;
+    }
+
+    // Takes a post back out of the trash. False when it isn't in the trash.
+    async restore(id: string): Promise<boolean> {
+        const result = await this.db.execute('UPDATE posts SET deletedAt = NULL WHERE id = ? AND deletedAt IS NOT NULL', [id]);
+        return result.affectedRows > 0;
+    }
+
+    // Removes the rows for good, see purgeTrashedPosts for the full cleanup
+    async delete(ids: string[]): Promise<number> {
+        if (ids.length === 0) return 0;
+        const result = await this.db.execute('DELETE FROM posts WHERE id IN (?)', [ids]);
+        return result.affectedRows;
+    }
+
+    // Flips scheduled posts whose scheduledDate has passed to published.
+    // The status condition on the UPDATE makes each promotion happen exactly once.
+    async publishDue(now: Date): Promise<number> {
+        const rows = await this.db.query(
+            "SELECT id FROM posts WHERE status = 'scheduled' AND scheduledDate IS NOT NULL AND scheduledDate <= ? AND deletedAt IS NULL",
+            [now]
+        );
+        let published = 0;
+
+        for (const row of rows) {
+            const result = await this.db.execute(
+                "UPDATE posts SET status = 'published', datePublished = COALESCE(datePublished, ?), scheduledDate = NULL, version = version + 1 WHERE id = ? AND status = 'scheduled'",
+                [now, row.id]
+            );
+            published += result.affectedRows;
+        }
+
+        return published;
+    }
+
+    private async updateColumns(
+        id: string,
+        row: Record<string, unknown>,
+        { expectedVersion, includeTrashed = false }: { expectedVersion?: number; includeTrashed?: boolean }
+    ): Promise<boolean> {
+        const columns = Object.keys(row);
+        if (columns.length === 0) {
+            const post = await this.findById(id);
+            return !!post && (includeTrashed || !post.deletedAt);
+        }
+
+        const assignments = columns.map(column => `${column} = ?`);
+        const values = Object.values(row);
+        // Only the first publication is stamped, unpublishing and republishing keeps it
+        if (row.status === 'published') {
+            assignments.push('datePublished = COALESCE(datePublished, ?)');
+            values.push(new Date());
+        }
+        assignments.push('version = version + 1');
+
+        const conditions = ['id = ?'];
+        values.push(id);
+        if (!includeTrashed) conditions.push('deletedAt IS NULL');
+        if (expectedVersion !== undefined) {
+            conditions.push('version = ?');
+            values.push(expectedVersion);
+        }
+        const result = await this.db.execute(
+            `UPDATE posts SET ${assignments.join(', ')} WHERE ${conditions.join(' AND ')}`,
+            values
+        );
+        return result.affectedRows > 0;
+    }
+}
@@ -0,0 +1,46 @@
+import defaultDb, { Database } from '../db';
+import { parseJson } from './mappers';
+
+// Term frequencies by term
+export type PostTerms = Record<string, number>;
+
+// The terms lib/relatedPosts.ts scores posts with, one row per post, written
+// whenever the post is saved
+export class PostTermRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    // By post id, for the published posts that have been indexed
+    async findPublished(): Promise<Map<string, PostTerms>> {
+        const rows = await this.db.query(
+            `SELECT post_terms.postId, post_terms.terms FROM post_terms
+             JOIN posts ON posts.id = post_terms.postId
+             WHERE posts.status = 'published' AND posts.deletedAt IS NULL`
+        );
+        return new Map(rows.map(row => [row.postId as string, parseJson<PostTerms>(row.terms, {})]));
+    }
+
+    // Posts saved before their terms were recorded
+    async findMissingPostIds(limit: number): Promise<string[]> {
+        const rows = await this.db.query(
+            `SELECT posts.id FROM posts
+             LEFT JOIN post_terms ON post_terms.postId = posts.id
+             WHERE post_terms.postId IS NULL AND posts.deletedAt IS NULL
+             ORDER BY posts.dateCreated DESC
+             LIMIT ?`,
+            [limit]
+        );
+        return rows.map(row => row.id as string);
+    }
+
+    async save(postId: string, terms: PostTerms): Promise<void> {
+        const { dialect } = this.db;
+        await this.db.execute(
+            `INSERT INTO post_terms (postId, terms, dateComputed) VALUES (?, ?, ?)
+            ${dialect.onConflictUpdate('postId', {
+                terms: dialect.excluded('terms'),
+                dateComputed: dialect.excluded('dateComputed')
+            })}`,
+            [postId, JSON.stringify(terms), new Date()]
+        );
+    }
+}
@@ -0,0 +1,43 @@
+import defaultDb, { Database } from '../db';
+import { parseJson } from './mappers';
+
+// Computed related posts, one row per post, best first. lib/relatedPosts.ts
+// decides when they are computed and cleared.
+export class RelatedPostRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    async find(postId: string): Promise<string[] | null> {
+        const rows = await this.db.query('SELECT relatedIds FROM related_posts_cache WHERE postId = ?', [postId]);
+        return rows.length > 0 ? parseJson<string[]>(rows[0].relatedIds, []) : null;
+    }
+
+    // Published posts without a row, newest first
+    async findMissingPostIds(limit: number): Promise<string[]> {
+        const rows = await this.db.query(
+            `SELECT posts.id FROM posts
+             LEFT JOIN related_posts_cache ON related_posts_cache.postId = posts.id
+             WHERE related_posts_cache.postId IS NULL AND posts.status = 'published' AND posts.deletedAt IS NULL
+             ORDER BY posts.datePublished DESC
+             LIMIT ?`,
+            [limit]
+        );
+        return rows.map(row => row.id as string);
+    }
+
+    async save(postId: string, relatedIds: string[]): Promise<void> {
+        const { dialect } = this.db;
+        await this.db.execute(
+            `INSERT INTO related_posts_cache (postId, relatedIds, dateComputed) VALUES (?, ?, ?)
+            ${dialect.onConflictUpdate('postId', {
+                relatedIds: dialect.excluded('relatedIds'),
+                dateComputed: dialect.excluded('dateComputed')
+            })}`,
+            [postId, JSON.stringify(relatedIds), new Date()]
+        );
+    }
+
+    // Any change to one post can change the related posts of every other
+    async clear(): Promise<void> {
+        await this.db.execute('DELETE FROM related_posts_cache');
+    }
+}
@@ -0,0 +1,34 @@
+import defaultDb, { Database } from '../db';
+import { NicheSchedule } from '../../types';
+import { mapScheduleRow, toScheduleRow } from './mappers';
+
+export class ScheduleRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    async findAll(): Promise<NicheSchedule[]> {
+        const rows = await this.db.query('SELECT * FROM schedules');
+        return rows.map(mapScheduleRow);
+    }
+
+    async save(schedule: NicheSchedule): Promise<void> {
+        const row = toScheduleRow(schedule);
+        const columns = Object.keys(row);
+        const { dialect } = this.db;
+        const assignments = Object.fromEntries(columns.map(column => [column, dialect.excluded(column)]));
+        await this.db.execute(
+            `INSERT INTO schedules (id, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')})
+            ${dialect.onConflictUpdate('id', assignments)}`,
+            [schedule.id, ...Object.values(row)]
+        );
+    }
+
+    // Takes the schedule's slots with it, except those the publisher has
+    // claimed or published
+    async delete(id: string): Promise<boolean> {
+        return this.db.transaction(async tx => {
+            await tx.execute("DELETE FROM scheduled_slots WHERE scheduleId = ? AND status NOT IN ('publishing', 'published')", [id]);
+            const result = await tx.execute('DELETE FROM schedules WHERE id = ?', [id]);
+            return result.affectedRows > 0;
+        });
+    }
+}
@@ -0,0 +1,82 @@
+import defaultDb, { Database, Row } from '../db';
+import { Series } from '../../types';
+import { mapSeriesRow, toSeriesRow } from './mappers';
+
+export class SeriesRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    async findAll(): Promise<Series[]> {
+        const rows = await this.db.query('SELECT * FROM series ORDER BY title ASC');
+        return this.withPostIds(rows);
+    }
+
+    async findById(id: string): Promise<Series | null> {
+        const rows = await this.db.query('SELECT * FROM series WHERE id = ?', [id]);
+        return (await this.withPostIds(rows))[0] || null;
+    }
+
+    async findBySlug(slug: string): Promise<Series | null> {
+        const rows = await this.db.query('SELECT * FROM series WHERE slug = ?', [slug]);
+        return (await this.withPostIds(rows))[0] || null;
+    }
+
+    async isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+        const rows = await this.db.query(
+            'SELECT id FROM series WHERE slug = ? AND id <> ? LIMIT 1',
+            [slug, excludeId || '']
+        );
+        return rows.length > 0;
+    }
+
+    // Creates or updates the title and description, the parts are left alone
+    async save(series: Series): Promise<void> {
+        const row = toSeriesRow(series);
+        const columns = Object.keys(row);
+        const { dialect } = this.db;
+        const assignments = Object.fromEntries(columns.map(column => [column, dialect.excluded(column)]));
+        await this.db.execute(
+            `INSERT INTO series (id, ${columns.join(', ')}, dateCreated) VALUES (?, ${columns.map(() => '?').join(', ')}, ?)
+            ${dialect.onConflictUpdate('id', assignments)}`,
+            [series.id, ...Object.values(row), new Date()]
+        );
+    }
+
+    // Makes exactly these posts the parts, in this order. A post that was part
+    // of another series leaves it. Trashed parts keep their place for when
+    // they are restored.
+    async setPosts(seriesId: string, postIds: string[]): Promise<void> {
+        await this.db.transaction(async tx => {
+            await tx.execute('UPDATE posts SET seriesId = NULL, seriesPart = NULL WHERE seriesId = ? AND deletedAt IS NULL', [seriesId]);
+            for (const [index, postId] of postIds.entries()) {
+                await tx.execute('UPDATE posts SET seriesId = ?, seriesPart = ? WHERE id = ?', [seriesId, index + 1, postId]);
+            }
+        });
+    }
+
+    // Adds the post as the last part
+    async appendPost(seriesId: string, postId: string): Promise<void> {
+        await this.db.transaction(async tx => {
+            const rows = await tx.query('SELECT MAX(seriesPart) AS lastPart FROM posts WHERE seriesId = ?', [seriesId]);
+            const part = Number(rows[0]?.lastPart || 0) + 1;
+            await tx.execute('UPDATE posts SET seriesId = ?, seriesPart = ? WHERE id = ?', [seriesId, part, postId]);
+        });
+    }
+
+    // The posts stay, as standalone posts
+    async delete(id: string): Promise<boolean> {
+        return this.db.transaction(async tx => {
+            await tx.execute('UPDATE posts SET seriesId = NULL, seriesPart = NULL WHERE seriesId = ?', [id]);
+            const result = await tx.execute('DELETE FROM series WHERE id = ?', [id]);
+            return result.affectedRows > 0;
+        });
+    }
+
+    private async withPostIds(rows: Row[]): Promise<Series[]> {
+        if (rows.length === 0) return [];
+        const parts = await this.db.query(
+            'SELECT id, seriesId FROM posts WHERE seriesId IN (?) AND deletedAt IS NULL ORDER BY seriesPart ASC, dateCreated ASC',
+            [rows.map(row => row.id)]
+        );
+        return rows.map(row => mapSeriesRow(row, parts.filter(part => part.seriesId === row.id).map(part => part.id as string)));
+    }
+}
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Database } from '../db';
+import { createSqliteDatabase } from '../storage/sqlite';
+import { ScheduledSlot } from '../../types';
+import { ScheduleRepository } from './ScheduleRepository';
+import { SlotRepository } from './SlotRepository';
+
+const makeSlot = (id: string, overrides: Partial<ScheduledSlot> = {}): ScheduledSlot => ({
+    id,
+    scheduleId: 'tea',
+    niche: 'Tea',
+    date: '2030-01-01',
+    time: '09:00',
+    status: 'pending_selection',
+    suggestedTopics: [],
+    ...overrides
+});
+
+const topic = { topic: 'Oolong', relevance: 'Seasonal' };
+
+describe('SlotRepository on SQLite', () => {
+    let db: Database;
+    let slots: SlotRepository;
+    let schedules: ScheduleRepository;
+
+    beforeEach(async () => {
+        db = createSqliteDatabase(':memory:');
+        slots = new SlotRepository(db);
+        schedules = new ScheduleRepository(db);
+        await schedules.save({ id: 'tea', niche: 'Tea', startDate: '2030-01-01', endDate: '2030-01-31', launchTime: '09:00' });
+    });
+
+    afterEach(() => db.close());
+
+    it('only inserts missing slots', async () => {
+        assert.equal(await slots.insertIfMissing(makeSlot('a')), true);
+        assert.equal(await slots.insertIfMissing(makeSlot('a', { status: 'ready' })), false);
+        assert.equal((await slots.findAll())[0].status, 'pending_selection');
+    });
+
+    it('keeps deleted slots as skipped so they are not recreated or revived', async () => {
+        await slots.insertIfMissing(makeSlot('a'));
+        assert.equal(await slots.delete('a'), true);
+
+        assert.deepEqual(await slots.findAll(), []);
+        assert.equal(await slots.insertIfMissing(makeSlot('a')), false);
+        await slots.save(makeSlot('a', { status: 'ready', selectedTopic: topic }));
+        assert.deepEqual((await slots.findByStatus(['skipped'])).map(slot => slot.id), ['a']);
+    });
+
+    it("doesn't let a client save move a claimed slot", async () => {
+        await slots.insertIfMissing(makeSlot('a', { status: 'ready', selectedTopic: topic }));
+        assert.equal(await slots.claim('a', 'ready'), true);
+        assert.equal(await slots.claim('a', 'ready'), false);
+
+        await slots.save(makeSlot('a', { status: 'pending_selection' }));
+        assert.equal((await slots.findAll())[0].status, 'publishing');
+        assert.equal(await slots.delete('a'), false);
+    });
+
+    it('releases claims older than the cutoff to their previous status', async () => {
+        await slots.insertIfMissing(makeSlot('stale-ready', { status: 'ready', selectedTopic: topic }));
+        await slots.insertIfMissing(makeSlot('stale-pending'));
+        await slots.insertIfMissing(makeSlot('fresh', { status: 'ready', selectedTopic: topic }));
+        await slots.claim('stale-ready', 'ready', new Date('2030-01-01T08:00:00Z'));
+        await slots.claim('stale-pending', 'pending_selection', new Date('2030-01-01T08:00:00Z'));
+        await slots.claim('fresh', 'ready', new Date('2030-01-01T09:00:00Z'));
+
+        assert.equal(await slots.releaseStaleClaims(new Date('2030-01-01T08:30:00Z')), 2);
+        const statuses = Object.fromEntries((await slots.findAll()).map(slot => [slot.id, slot.status]));
+        assert.deepEqual(statuses, { 'stale-ready': 'ready', 'stale-pending': 'pending_selection', fresh: 'publishing' });
+    });
+
+    it('deletes a schedule with its unpublished slots', async () => {
+        await slots.insertIfMissing(makeSlot('pending'));
+        await slots.insertIfMissing(makeSlot('skipped'));
+        await slots.delete('skipped');
+        await slots.insertIfMissing(makeSlot('published', { status: 'ready', selectedTopic: topic }));
+        await slots.claim('published', 'ready');
+        await slots.markPublished('published', topic);
+
+        assert.equal(await schedules.delete('tea'), true);
+        assert.deepEqual(await schedules.findAll(), []);
+        assert.deepEqual((await slots.findByStatus(['pending_selection', 'skipped', 'published'])).map(slot => slot.id), ['published']);
+    });
+});
@@ -0,0 +1,125 @@
+import defaultDb, { Database } from '../db';
+import { GeneratedTopic, ScheduledSlot } from '../../types';
+import { mapSlotRow, toSlotRow } from './mappers';
+
+// Deleted slots stay behind as 'skipped' rows, otherwise the next tick would
+// materialize them again from their schedule.
+export class SlotRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    async findAll(): Promise<ScheduledSlot[]> {
+        const rows = await this.db.query("SELECT * FROM scheduled_slots WHERE status <> 'skipped'");
+        return rows.map(mapSlotRow);
+    }
+
+    // Soonest first
+    async findByStatus(statuses: ScheduledSlot['status'][]): Promise<ScheduledSlot[]> {
+        const rows = await this.db.query(
+            'SELECT * FROM scheduled_slots WHERE status IN (?) ORDER BY date ASC, time ASC',
+            [statuses]
+        );
+        return rows.map(mapSlotRow);
+    }
+
+    // Pending slots the scheduler has not generated suggestions for yet, soonest first
+    async findAwaitingTopics(limit: number): Promise<ScheduledSlot[]> {
+        const rows = await this.db.query(
+            `SELECT * FROM scheduled_slots
+             WHERE status = 'pending_selection'
+               AND (suggestedTopics IS NULL OR ${this.db.dialect.jsonArrayLength('suggestedTopics')} = 0)
+             ORDER BY date ASC, time ASC
+             LIMIT ?`,
+            [limit]
+        );
+        return rows.map(mapSlotRow);
+    }
+
+    // The client syncs its whole (possibly stale) slot list, so never let it
+    // revert a slot the publisher has claimed or published, bring back a
+    // deleted one, or wipe topics the scheduler generated since the page was loaded.
+    async save(slot: ScheduledSlot): Promise<void> {
+        const row = toSlotRow(slot);
+        const { dialect } = this.db;
+        const locked = "status IN ('publishing', 'published', 'skipped')";
+        await this.db.execute(
+            `INSERT INTO scheduled_slots (id, scheduleId, niche, date, time, status, suggestedTopics, selectedTopic, suggestionCount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ${dialect.onConflictUpdate('id', {
+                selectedTopic: `CASE WHEN ${locked} THEN selectedTopic ELSE ${dialect.excluded('selectedTopic')} END`,
+                suggestedTopics: `CASE WHEN ${dialect.jsonArrayLength(dialect.excluded('suggestedTopics'))} = 0 THEN suggestedTopics ELSE ${dialect.excluded('suggestedTopics')} END`,
+                suggestionCount: dialect.excluded('suggestionCount'),
+                // Last, MySQL evaluates the assignments in order and the ones above read the old status
+                status: `CASE WHEN ${locked} THEN status ELSE ${dialect.excluded('status')} END`
+            })}`,
+            [slot.id, row.scheduleId, row.niche, row.date, row.time, row.status, row.suggestedTopics, row.selectedTopic, row.suggestionCount]
+        );
+    }
+
+    // Existing slots are left untouched. Returns whether the slot was created.
+    async insertIfMissing(slot: ScheduledSlot): Promise<boolean> {
+        const row = toSlotRow(slot);
+        const result = await this.db.execute(
+            `${this.db.dialect.insertIgnore} INTO scheduled_slots (id, scheduleId, niche, date, time, status, suggestedTopics, selectedTopic, suggestionCount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [slot.id, row.scheduleId, row.niche, row.date, row.time, row.status, row.suggestedTopics, row.selectedTopic, row.suggestionCount]
+        );
+        return result.affectedRows > 0;
+    }
+
+    // Marks the slot skipped rather than removing the row. A slot that is
+    // being published is kept, the publisher still needs it.
+    async delete(id: string): Promise<boolean> {
+        const result = await this.db.execute(
+            "UPDATE scheduled_slots SET status = 'skipped' WHERE id = ? AND status NOT IN ('publishing', 'skipped')",
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    // Only writes if the slot is still empty, a concurrent tick may have filled it
+    async setSuggestedTopicsIfEmpty(id: string, topics: GeneratedTopic[]): Promise<boolean> {
+        const result = await this.db.execute(
+            `UPDATE scheduled_slots SET suggestedTopics = ?
+             WHERE id = ? AND status = 'pending_selection'
+               AND (suggestedTopics IS NULL OR ${this.db.dialect.jsonArrayLength('suggestedTopics')} = 0)`,
+            [JSON.stringify(topics), id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    // Moves the slot to 'publishing' if it is still in the expected status.
+    // Returns false when another tick got there first.
+    async claim(id: string, fromStatus: ScheduledSlot['status'], now: Date = new Date()): Promise<boolean> {
+        const result = await this.db.execute(
+            "UPDATE scheduled_slots SET status = 'publishing', claimedAt = ? WHERE id = ? AND status = ?",
+            [now, id, fromStatus]
+        );
+        return result.affectedRows > 0;
+    }
+
+    async markPublished(id: string, topic: GeneratedTopic): Promise<void> {
+        await this.db.execute(
+            "UPDATE scheduled_slots SET status = 'published', selectedTopic = ?, claimedAt = NULL WHERE id = ?",
+            [JSON.stringify(topic), id]
+        );
+    }
+
+    // Hands a claimed slot back after a failed publish
+    async release(id: string, status: ScheduledSlot['status']): Promise<void> {
+        await this.db.execute(
+            "UPDATE scheduled_slots SET status = ?, claimedAt = NULL WHERE id = ? AND status = 'publishing'",
+            [status, id]
+        );
+    }
+
+    // Hands back claims made before `claimedBefore`, whose tick must have died
+    // before it could publish or release them. A slot with a selected topic
+    // was 'ready' when it was claimed. Returns how many were released.
+    async releaseStaleClaims(claimedBefore: Date): Promise<number> {
+        const result = await this.db.execute(
+            `UPDATE scheduled_slots
+             SET status = CASE WHEN selectedTopic IS NULL THEN 'pending_selection' ELSE 'ready' END, claimedAt = NULL
+             WHERE status = 'publishing' AND (claimedAt IS NULL OR claimedAt < ?)`,
+            [claimedBefore]
+        );
+        return result.affectedRows;
+    }
+}
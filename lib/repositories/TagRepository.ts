@@ -0,0 +1,93 @@
+import defaultDb, { Database } from '../db';
+import { Tag } from '../../types';
+import { mapTagRow, toTagRow } from './mappers';
+
+export class TagRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    // With the number of posts carrying each, trashed ones left out
+    async findAll(): Promise<Tag[]> {
+        const rows = await this.db.query(
+            `SELECT tags.*, (SELECT COUNT(*) FROM post_tags JOIN posts ON posts.id = post_tags.postId
+                WHERE post_tags.tagId = tags.id AND posts.deletedAt IS NULL) AS postCount
+            FROM tags ORDER BY name ASC`
+        );
+        return rows.map(mapTagRow);
+    }
+
+    async findById(id: string): Promise<Tag | null> {
+        const rows = await this.db.query('SELECT * FROM tags WHERE id = ?', [id]);
+        return rows.length > 0 ? mapTagRow(rows[0]) : null;
+    }
+
+    async findBySlug(slug: string): Promise<Tag | null> {
+        const rows = await this.db.query('SELECT * FROM tags WHERE slug = ?', [slug]);
+        return rows.length > 0 ? mapTagRow(rows[0]) : null;
+    }
+
+    async findBySlugs(slugs: string[]): Promise<Tag[]> {
+        if (slugs.length === 0) return [];
+        const rows = await this.db.query('SELECT * FROM tags WHERE slug IN (?)', [slugs]);
+        return rows.map(mapTagRow);
+    }
+
+    async isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+        const rows = await this.db.query(
+            'SELECT id FROM tags WHERE slug = ? AND id <> ? LIMIT 1',
+            [slug, excludeId || '']
+        );
+        return rows.length > 0;
+    }
+
+    // Skipped when the slug already exists, see CategoryRepository.insertIfMissing
+    async insertIfMissing(tag: Tag): Promise<void> {
+        const row = toTagRow(tag);
+        const columns = Object.keys(row);
+        await this.db.execute(
+            `${this.db.dialect.insertIgnore} INTO tags (id, ${columns.join(', ')}, dateCreated) VALUES (?, ${columns.map(() => '?').join(', ')}, ?)`,
+            [tag.id, ...Object.values(row), new Date()]
+        );
+    }
+
+    async update(tag: Tag): Promise<boolean> {
+        const row = toTagRow(tag);
+        const result = await this.db.execute(
+            `UPDATE tags SET ${Object.keys(row).map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+            [...Object.values(row), tag.id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    // Ids of every post carrying the tag, trashed ones included
+    async findPostIds(tagId: string): Promise<string[]> {
+        const rows = await this.db.query('SELECT postId FROM post_tags WHERE tagId = ?', [tagId]);
+        return rows.map(row => row.postId as string);
+    }
+
+    // Replaces the post's tags with exactly these
+    async setPostTags(postId: string, tagIds: string[]): Promise<void> {
+        await this.db.transaction(async tx => {
+            await tx.execute('DELETE FROM post_tags WHERE postId = ?', [postId]);
+            for (const tagId of new Set(tagIds)) {
+                await tx.execute(`${tx.dialect.insertIgnore} INTO post_tags (postId, tagId) VALUES (?, ?)`, [postId, tagId]);
+            }
+        });
+    }
+
+    // Gives every post carrying one tag the other one instead
+    async movePosts(fromTagId: string, toTagId: string): Promise<void> {
+        await this.db.execute(
+            `${this.db.dialect.insertIgnore} INTO post_tags (postId, tagId) SELECT postId, ? FROM post_tags WHERE tagId = ?`,
+            [toTagId, fromTagId]
+        );
+        await this.db.execute('DELETE FROM post_tags WHERE tagId = ?', [fromTagId]);
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.db.transaction(async tx => {
+            await tx.execute('DELETE FROM post_tags WHERE tagId = ?', [id]);
+            const result = await tx.execute('DELETE FROM tags WHERE id = ?', [id]);
+            return result.affectedRows > 0;
+        });
+    }
+}
@@ -0,0 +1,29 @@
+import defaultDb, { Database } from '../db';
+import { TrainingData } from '../../types';
+import { mapTrainingDataRow, toTrainingDataRow } from './mappers';
+
+export class TrainingDataRepository {
+    constructor(private readonly db: Database = defaultDb) {}
+
+    async findAll(): Promise<TrainingData[]> {
+        const rows = await this.db.query('SELECT * FROM training_data');
+        return rows.map(mapTrainingDataRow);
+    }
+
+    async save(data: TrainingData): Promise<void> {
+        const row = toTrainingDataRow(data);
+        const columns = Object.keys(row);
+        const { dialect } = this.db;
+        const assignments = Object.fromEntries(columns.map(column => [column, dialect.excluded(column)]));
+        await this.db.execute(
+            `INSERT INTO training_data (id, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')})
+            ${dialect.onConflictUpdate('id', assignments)}`,
+            [data.id, ...Object.values(row)]
+        );
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const result = await this.db.execute('DELETE FROM training_data WHERE id = ?', [id]);
+        return result.affectedRows > 0;
+    }
+}
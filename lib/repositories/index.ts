@@ -0,0 +1,31 @@
+import { AuthorRepository } from './AuthorRepository';
+import { CategoryRepository } from './CategoryRepository';
+import { LinkCheckRepository } from './LinkCheckRepository';
+import { LinkCheckRunRepository } from './LinkCheckRunRepository';
+import { PostRepository } from './PostRepository';
+import { PostTermRepository } from './PostTermRepository';
+import { RelatedPostRepository } from './RelatedPostRepository';
+import { ScheduleRepository } from './ScheduleRepository';
+import { SeriesRepository } from './SeriesRepository';
+import { SlotRepository } from './SlotRepository';
+import { TagRepository } from './TagRepository';
+import { TrainingDataRepository } from './TrainingDataRepository';
+
+export { AuthorRepository, CategoryRepository, LinkCheckRepository, LinkCheckRunRepository, PostRepository, PostTermRepository, RelatedPostRepository, ScheduleRepository, SeriesRepository, SlotRepository, TagRepository, TrainingDataRepository };
+export type { PostPatch, PostQuery, PostSummary, PublishedPostSummary } from './PostRepository';
+export type { PostTerms } from './PostTermRepository';
+
+// Shared instances on the default database. To run several calls in one
+// transaction, construct your own inside db.transaction(tx => ...).
+export const authorRepository = new AuthorRepository();
+export const categoryRepository = new CategoryRepository();
+export const linkCheckRepository = new LinkCheckRepository();
+export const linkCheckRunRepository = new LinkCheckRunRepository();
+export const postRepository = new PostRepository();
+export const postTermRepository = new PostTermRepository();
+export const relatedPostRepository = new RelatedPostRepository();
+export const scheduleRepository = new ScheduleRepository();
+export const seriesRepository = new SeriesRepository();
+export const slotRepository = new SlotRepository();
+export const tagRepository = new TagRepository();
+export const trainingDataRepository = new TrainingDataRepository();
@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BlogPost, ScheduledSlot } from '../../types';
+import {
+    mapLinkCheckRow, mapPostRow, mapScheduleRow, mapSlotRow, parseJson, toDateKey, toIsoString,
+    toLinkCheckRow, toPostPatchRow, toPostRow, toSlotRow
+} from './mappers';
+
+const post: BlogPost = {
+    id: 'p1',
+    slug: 'brewing-green-tea',
+    title: 'Brewing Green Tea',
+    excerpt: 'Cooler water, shorter steeps.',
+    content: '<p>Hello</p>',
+    keywords: ['tea', 'green tea'],
+    category: 'Drinks',
+    dateCreated: '2030-01-01T09:00:00.000Z',
+    status: 'draft',
+    readTime: '3 min read',
+    aeoQuestions: [{ question: 'How hot?', answer: '80°C' }],
+    commercialIntent: true,
+    isHowTo: false,
+    steps: []
+};
+
+describe('parseJson', () => {
+    it('parses strings and passes parsed values through', () => {
+        assert.deepEqual(parseJson('["a","b"]', []), ['a', 'b']);
+        assert.deepEqual(parseJson(['a'], []), ['a']);
+    });
+
+    it('falls back on empty and missing values', () => {
+        assert.deepEqual(parseJson('', []), []);
+        assert.deepEqual(parseJson(null, ['x']), ['x']);
+        assert.deepEqual(parseJson(undefined, ['x']), ['x']);
+    });
+});
+
+describe('dates', () => {
+    it('turns Date objects and strings into ISO strings', () => {
+        assert.equal(toIsoString(new Date('2030-01-01T09:00:00Z')), '2030-01-01T09:00:00.000Z');
+        assert.equal(toIsoString('2030-01-01T09:00:00.000Z'), '2030-01-01T09:00:00.000Z');
+        assert.equal(toIsoString(null), undefined);
+    });
+
+    it('keys DATE columns by their local calendar day', () => {
+        assert.equal(toDateKey(new Date(2030, 0, 5)), '2030-01-05');
+        assert.equal(toDateKey('2030-01-05T00:00:00.000Z'), '2030-01-05');
+    });
+});
+
+describe('posts', () => {
+    it('round-trips a post through its row', () => {
+        const row = { ...toPostRow(post), id: post.id, dateCreated: new Date(post.dateCreated), dateModified: null, deletedAt: null, version: 1 };
+        const mapped = mapPostRow(row);
+
+        assert.deepEqual(mapped.keywords, post.keywords);
+        assert.deepEqual(mapped.aeoQuestions, post.aeoQuestions);
+        assert.equal(mapped.commercialIntent, true);
+        assert.equal(mapped.isHowTo, false);
+        assert.equal(mapped.dateCreated, post.dateCreated);
+        assert.equal(mapped.dateModified, undefined);
+        assert.equal(mapped.deletedAt, undefined);
+        assert.equal(mapped.authorId, undefined);
+    });
+
+    it('stores JSON columns as strings and booleans as 0/1', () => {
+        const row = toPostRow(post);
+        assert.equal(row.keywords, '["tea","green tea"]');
+        assert.equal(row.commercialIntent, 1);
+        assert.equal(row.isHowTo, 0);
+        assert.equal(row.scheduledDate, null);
+    });
+
+    it('maps MySQL TINYINT and JSON values as they come back', () => {
+        const mapped = mapPostRow({ ...toPostRow(post), keywords: ['tea'], commercialIntent: 0, isHowTo: 1, dateCreated: post.dateCreated });
+        assert.deepEqual(mapped.keywords, ['tea']);
+        assert.equal(mapped.commercialIntent, false);
+        assert.equal(mapped.isHowTo, true);
+    });
+
+    it('writes only patchable fields that are present', () => {
+        const row = toPostPatchRow({ title: 'New', keywords: ['a'], isHowTo: true, scheduledDate: null, excerpt: undefined, id: 'evil' } as never);
+        assert.deepEqual(row, { title: 'New', keywords: '["a"]', isHowTo: 1, scheduledDate: null });
+    });
+});
+
+describe('slots', () => {
+    it('round-trips a slot through its row', () => {
+        const slot: ScheduledSlot = {
+            id: 's1',
+            scheduleId: 'sched',
+            niche: 'Tea',
+            date: '2030-01-05',
+            time: '09:00',
+            status: 'ready',
+            suggestedTopics: [],
+            selectedTopic: { topic: 'Oolong', relevance: 'Seasonal', keywords: ['oolong'] }
+        };
+        const row = toSlotRow(slot);
+        assert.equal(row.selectedTopic, JSON.stringify(slot.selectedTopic));
+
+        const mapped = mapSlotRow({ ...row, id: slot.id, date: new Date(2030, 0, 5), time: '09:00:00' });
+        assert.deepEqual(mapped, { ...slot, suggestionCount: 5 });
+    });
+
+    it('maps a missing selected topic to undefined', () => {
+        const mapped = mapSlotRow({ id: 's1', scheduleId: 'x', niche: 'Tea', date: '2030-01-05', time: '09:00:00', status: 'pending_selection', suggestedTopics: null, selectedTopic: null });
+        assert.equal(mapped.selectedTopic, undefined);
+        assert.deepEqual(mapped.suggestedTopics, []);
+    });
+
+    it('trims schedule times to HH:mm', () => {
+        const schedule = mapScheduleRow({ id: 'a', niche: 'Tea', startDate: '2030-01-01', endDate: '2030-01-31', launchTime: '09:30:00', suggestionCount: null });
+        assert.equal(schedule.launchTime, '09:30');
+        assert.equal(schedule.suggestionCount, undefined);
+    });
+});
+
+describe('link checks', () => {
+    it('round-trips a link check through its row', () => {
+        const check = { postId: 'p1', url: 'https://example.com/', kind: 'link' as const, isBroken: true, statusCode: 404, postVersion: 2, dateChecked: '2030-01-01T09:00:00.000Z' };
+        const mapped = mapLinkCheckRow(toLinkCheckRow(check));
+        assert.deepEqual(mapped, { ...check, error: undefined });
+    });
+});
@@ -0,0 +1,270 @@
+import type { Row } from '../db';
+import { Author, BlogPost, Category, LinkCheck, LinkCheckRun, NicheSchedule, ScheduledSlot, Series, Tag, TrainingData } from '../../types';
+import type { PostPatch } from './PostRepository';
+
+// Conversions between database rows and the models in types.ts. Kept free of
+// any database access so they can be tested on plain objects.
+
+// JSON columns come back as strings or already parsed, depending on the column type
+export const parseJson = <T>(value: unknown, fallback: T): T => {
+    if (typeof value === 'string') return value ? JSON.parse(value) : fallback;
+    return (value as T) ?? fallback;
+};
+
+export const toIsoString = (value: unknown): string | undefined => {
+    if (!value) return undefined;
+    return value instanceof Date ? value.toISOString() : String(value);
+};
+
+// ISO strings from the API into values a DATETIME column accepts
+export const toDbDate = (value: string | null | undefined): Date | null => value ? new Date(value) : null;
+
+// MySQL DATE columns come back as Date objects (local midnight), while the
+// client sends plain YYYY-MM-DD strings. Normalize both to a YYYY-MM-DD key.
+export const toDateKey = (value: string | Date): string => {
+    if (value instanceof Date) {
+        const month = (value.getMonth() + 1).toString().padStart(2, '0');
+        const day = value.getDate().toString().padStart(2, '0');
+        return `${value.getFullYear()}-${month}-${day}`;
+    }
+    return value.substring(0, 10);
+};
+
+// TIME columns come back as HH:mm:ss, the models use HH:mm
+export const toTimeKey = (value: string): string => value.substring(0, 5);
+
+export const mapPostRow = (row: Row): BlogPost => ({
+    ...(row as unknown as BlogPost),
+    keywords: parseJson(row.keywords, []),
+    aeoQuestions: parseJson(row.aeoQuestions, []),
+    steps: parseJson(row.steps, []),
+    commercialIntent: Boolean(row.commercialIntent),
+    isHowTo: Boolean(row.isHowTo),
+    dateCreated: toIsoString(row.dateCreated) || '',
+    dateModified: toIsoString(row.dateModified),
+    datePublished: toIsoString(row.datePublished),
+    deletedAt: toIsoString(row.deletedAt),
+    scheduledDate: toIsoString(row.scheduledDate),
+    authorId: (row.authorId as string | null) ?? undefined,
+    categoryId: (row.categoryId as string | null) ?? undefined,
+    seriesId: (row.seriesId as string | null) ?? undefined,
+    seriesPart: (row.seriesPart as number | null) ?? undefined
+});
+
+// Column values for a full write. The date columns are maintained by the
+// repository and the database, never taken from the client, and series
+// membership only changes through SeriesRepository.
+export const toPostRow = (post: BlogPost) => ({
+    slug: post.slug,
+    title: post.title,
+    excerpt: post.excerpt,
+    content: post.content,
+    keywords: JSON.stringify(post.keywords || []),
+    category: post.category,
+    status: post.status,
+    readTime: post.readTime,
+    coverImage: post.coverImage ?? null,
+    geoTargeting: post.geoTargeting ?? null,
+    seoScore: post.seoScore ?? null,
+    aeoQuestions: JSON.stringify(post.aeoQuestions || []),
+    commercialIntent: post.commercialIntent ? 1 : 0,
+    isHowTo: post.isHowTo ? 1 : 0,
+    steps: JSON.stringify(post.steps || []),
+    scheduledDate: toDbDate(post.scheduledDate),
+    authorId: post.authorId || null,
+    categoryId: post.categoryId || null
+});
+
+// Column names are interpolated into the UPDATE, so only these ever get through
+const PATCHABLE_POST_COLUMNS = new Set([
+    'slug', 'title', 'excerpt', 'content', 'keywords', 'category', 'status', 'readTime', 'coverImage',
+    'geoTargeting', 'seoScore', 'aeoQuestions', 'commercialIntent', 'isHowTo', 'steps', 'scheduledDate', 'authorId', 'categoryId'
+]);
+
+// Column values for the fields present in a patch
+export const toPostPatchRow = (patch: PostPatch & { categoryId?: string | null }): Record<string, unknown> => {
+    const row: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(patch)) {
+        if (value === undefined || !PATCHABLE_POST_COLUMNS.has(field)) continue;
+        switch (field) {
+            case 'keywords':
+            case 'aeoQuestions':
+            case 'steps':
+                row[field] = JSON.stringify(value);
+                break;
+            case 'commercialIntent':
+            case 'isHowTo':
+                row[field] = value ? 1 : 0;
+                break;
+            case 'scheduledDate':
+                row[field] = toDbDate(value as string | null);
+                break;
+            default:
+                row[field] = value;
+        }
+    }
+    return row;
+};
+
+export const mapScheduleRow = (row: Row): NicheSchedule => ({
+    id: row.id as string,
+    niche: row.niche as string,
+    startDate: toDateKey(row.startDate as string | Date),
+    endDate: toDateKey(row.endDate as string | Date),
+    launchTime: toTimeKey(String(row.launchTime)),
+    suggestionCount: (row.suggestionCount as number | null) ?? undefined
+});
+
+export const toScheduleRow = (schedule: NicheSchedule) => ({
+    niche: schedule.niche,
+    startDate: toDateKey(schedule.startDate),
+    endDate: toDateKey(schedule.endDate),
+    launchTime: toTimeKey(schedule.launchTime),
+    suggestionCount: schedule.suggestionCount || 5
+});
+
+export const mapSlotRow = (row: Row): ScheduledSlot => ({
+    id: row.id as string,
+    scheduleId: row.scheduleId as string,
+    niche: row.niche as string,
+    date: toDateKey(row.date as string | Date),
+    time: toTimeKey(String(row.time)),
+    status: row.status as ScheduledSlot['status'],
+    suggestedTopics: parseJson(row.suggestedTopics, []),
+    selectedTopic: parseJson<ScheduledSlot['selectedTopic'] | null>(row.selectedTopic, null) ?? undefined,
+    suggestionCount: (row.suggestionCount as number | null) ?? undefined
+});
+
+export const toSlotRow = (slot: ScheduledSlot) => ({
+    scheduleId: slot.scheduleId,
+    niche: slot.niche,
+    date: toDateKey(slot.date),
+    time: toTimeKey(slot.time),
+    status: slot.status,
+    suggestedTopics: JSON.stringify(slot.suggestedTopics || []),
+    selectedTopic: slot.selectedTopic ? JSON.stringify(slot.selectedTopic) : null,
+    suggestionCount: slot.suggestionCount || 5
+});
+
+export const mapTrainingDataRow = (row: Row): TrainingData => ({
+    id: row.id as string,
+    title: row.title as string,
+    content: row.content as string,
+    type: row.type as TrainingData['type'],
+    dateAdded: String(row.dateAdded ?? '')
+});
+
+export const toTrainingDataRow = (data: TrainingData) => ({
+    title: data.title,
+    content: data.content,
+    type: data.type,
+    dateAdded: data.dateAdded
+});
+
+export const mapAuthorRow = (row: Row): Author => ({
+    id: row.id as string,
+    slug: row.slug as string,
+    name: row.name as string,
+    jobTitle: (row.jobTitle as string | null) || undefined,
+    bio: (row.bio as string | null) || undefined,
+    avatarUrl: (row.avatarUrl as string | null) || undefined,
+    socialProfiles: parseJson(row.socialProfiles, []),
+    dateCreated: toIsoString(row.dateCreated) || ''
+});
+
+// The creation date is set by the repository
+export const toAuthorRow = (author: Author) => ({
+    slug: author.slug,
+    name: author.name,
+    jobTitle: author.jobTitle || null,
+    bio: author.bio || null,
+    avatarUrl: author.avatarUrl || null,
+    socialProfiles: JSON.stringify(author.socialProfiles || [])
+});
+
+const toPostCount = (value: unknown) => value === undefined || value === null ? undefined : Number(value);
+
+export const mapCategoryRow = (row: Row): Category => ({
+    id: row.id as string,
+    slug: row.slug as string,
+    name: row.name as string,
+    description: (row.description as string | null) || undefined,
+    parentId: (row.parentId as string | null) || undefined,
+    dateCreated: toIsoString(row.dateCreated) || '',
+    postCount: toPostCount(row.postCount)
+});
+
+// The creation date is set by the repository
+export const toCategoryRow = (category: Category) => ({
+    slug: category.slug,
+    name: category.name,
+    description: category.description || null,
+    parentId: category.parentId || null
+});
+
+export const mapTagRow = (row: Row): Tag => ({
+    id: row.id as string,
+    slug: row.slug as string,
+    name: row.name as string,
+    description: (row.description as string | null) || undefined,
+    dateCreated: toIsoString(row.dateCreated) || '',
+    postCount: toPostCount(row.postCount)
+});
+
+export const toTagRow = (tag: Tag) => ({
+    slug: tag.slug,
+    name: tag.name,
+    description: tag.description || null
+});
+
+export const mapSeriesRow = (row: Row, postIds: string[]): Series => ({
+    id: row.id as string,
+    slug: row.slug as string,
+    title: row.title as string,
+    description: (row.description as string | null) || undefined,
+    dateCreated: toIsoString(row.dateCreated) || '',
+    postIds
+});
+
+// The creation date is set by the repository, the parts by setPosts
+export const toSeriesRow = (series: Series) => ({
+    slug: series.slug,
+    title: series.title,
+    description: series.description || null
+});
+
+export const mapLinkCheckRow = (row: Row): LinkCheck => ({
+    postId: row.postId as string,
+    url: row.url as string,
+    kind: row.kind as LinkCheck['kind'],
+    isBroken: Boolean(row.isBroken),
+    statusCode: (row.statusCode as number | null) ?? undefined,
+    error: (row.error as string | null) || undefined,
+    postVersion: Number(row.postVersion),
+    dateChecked: toIsoString(row.dateChecked) || ''
+});
+
+// The URL hash is added by the repository
+export const toLinkCheckRow = (check: LinkCheck) => ({
+    postId: check.postId,
+    url: check.url,
+    kind: check.kind,
+    isBroken: check.isBroken ? 1 : 0,
+    statusCode: check.statusCode ?? null,
+    error: check.error || null,
+    postVersion: check.postVersion,
+    dateChecked: new Date(check.dateChecked)
+});
+
+export const mapLinkCheckRunRow = (row: Row): LinkCheckRun => ({
+    id: row.id as string,
+    postIds: parseJson<string[] | null>(row.postIds, null) ?? undefined,
+    status: row.status as LinkCheckRun['status'],
+    postsChecked: (row.postsChecked as number | null) ?? undefined,
+    urlsChecked: (row.urlsChecked as number | null) ?? undefined,
+    broken: (row.broken as number | null) ?? undefined,
+    error: (row.error as string | null) || undefined,
+    dateCreated: toIsoString(row.dateCreated) || '',
+    dateStarted: toIsoString(row.dateStarted),
+    dateFinished: toIsoString(row.dateFinished)
+});
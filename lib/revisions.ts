@@ -0,0 +1,59 @@
+import db, { Row } from './db';
+import { parseJson, toIsoString } from './repositories/mappers';
+import { BlogPost, PostRevision } from '../types';
+
+export interface RevisionOptions {
+    reason?: PostRevision['reason'];
+    restoredFromId?: number;
+}
+
+// Fields a restore brings back. Publishing state stays as it is now, restoring
+// an old draft must not unpublish a live post.
+export const RESTORABLE_FIELDS: (keyof BlogPost)[] = [
+    'slug', 'title', 'excerpt', 'content', 'keywords', 'category', 'readTime', 'coverImage',
+    'geoTargeting', 'aeoQuestions', 'seoScore', 'commercialIntent', 'isHowTo', 'steps'
+];
+
+const mapRevisionRow = (row: Row, includeSnapshot: boolean): PostRevision => ({
+    id: Number(row.id),
+    postId: row.postId as string,
+    title: row.title as string,
+    reason: row.reason as PostRevision['reason'],
+    restoredFromId: row.restoredFromId != null ? Number(row.restoredFromId) : undefined,
+    dateCreated: toIsoString(row.dateCreated) || '',
+    post: includeSnapshot ? parseJson<BlogPost | undefined>(row.snapshot, undefined) : undefined
+});
+
+// Snapshots the post as stored after a save. Revisions are append-only.
+export const recordRevision = async (post: BlogPost, options: RevisionOptions = {}) => {
+    await db.execute(
+        'INSERT INTO post_revisions (postId, title, snapshot, reason, restoredFromId, dateCreated) VALUES (?, ?, ?, ?, ?, ?)',
+        [post.id, post.title, JSON.stringify(post), options.reason || 'save', options.restoredFromId || null, new Date()]
+    );
+};
+
+// Newest first, without the snapshots
+export const listRevisions = async (postId: string): Promise<PostRevision[]> => {
+    const rows = await db.query(
+        'SELECT id, postId, title, reason, restoredFromId, dateCreated FROM post_revisions WHERE postId = ? ORDER BY id DESC',
+        [postId]
+    );
+    return rows.map(row => mapRevisionRow(row, false));
+};
+
+export const getRevision = async (postId: string, revisionId: number): Promise<PostRevision | null> => {
+    const rows = await db.query(
+        'SELECT * FROM post_revisions WHERE postId = ? AND id = ?',
+        [postId, revisionId]
+    );
+    return rows.length > 0 ? mapRevisionRow(rows[0], true) : null;
+};
+
+// The post to save when restoring: the current post with the revision's content on top
+export const applyRevision = (current: BlogPost, revision: BlogPost): BlogPost => {
+    const restored: BlogPost = { ...current };
+    for (const field of RESTORABLE_FIELDS) {
+        (restored as unknown as Record<string, unknown>)[field] = revision[field];
+    }
+    return restored;
+};
@@ -0,0 +1,102 @@
+import { generateTopics } from './geminiService';
+import { scheduleRepository, slotRepository, trainingDataRepository } from './repositories';
+import { toDateKey, toTimeKey } from './repositories/mappers';
+import { NicheSchedule, ScheduledSlot } from '../types';
+
+const DEFAULT_SUGGESTION_COUNT = 5;
+
+export interface SchedulerTickResult {
+    slotsCreated: number;
+    slotsFilled: number;
+    errors: string[];
+}
+
+// Slot ids are derived from the schedule and the day so that re-running the
+// expansion always targets the same rows.
+export const getSlotId = (scheduleId: string, date: string) => `${scheduleId}-${date}`;
+
+// Expands a schedule into one slot per day between startDate and endDate (inclusive)
+export const expandSchedule = (schedule: NicheSchedule): ScheduledSlot[] => {
+    const slots: ScheduledSlot[] = [];
+    // Parse as local midnight, `new Date('YYYY-MM-DD')` would parse as UTC
+    const current = new Date(`${toDateKey(schedule.startDate)}T00:00:00`);
+    const end = new Date(`${toDateKey(schedule.endDate)}T00:00:00`);
+
+    if (isNaN(current.getTime()) || isNaN(end.getTime())) return slots;
+
+    while (current <= end) {
+        const date = toDateKey(current);
+        slots.push({
+            id: getSlotId(schedule.id, date),
+            scheduleId: schedule.id,
+            niche: schedule.niche,
+            date,
+            time: toTimeKey(schedule.launchTime),
+            status: 'pending_selection',
+            suggestedTopics: []
+        });
+        current.setDate(current.getDate() + 1);
+    }
+
+    return slots;
+};
+
+export const getTrainingContext = async (): Promise<string> => {
+    const data = await trainingDataRepository.findAll();
+    return data.map(d => `[${String(d.type).toUpperCase()}] ${d.title}: ${d.content}`).join('\n\n');
+};
+
+// Inserts any missing slots for every schedule. Existing slots are left untouched.
+// Days before today are inserted as skipped: a schedule whose start date is in
+// the past must not make the publisher catch up on every day it missed.
+// Returns how many slots were created for publishing.
+export const materializeSlots = async (now: Date = new Date()): Promise<number> => {
+    const schedules = await scheduleRepository.findAll();
+    const today = toDateKey(now);
+    let created = 0;
+
+    for (const schedule of schedules) {
+        const suggestionCount = schedule.suggestionCount || DEFAULT_SUGGESTION_COUNT;
+
+        for (const slot of expandSchedule(schedule)) {
+            const isPast = slot.date < today;
+            const inserted = await slotRepository.insertIfMissing({ ...slot, suggestionCount, status: isPast ? 'skipped' : slot.status });
+            if (inserted && !isPast) created++;
+        }
+    }
+
+    return created;
+};
+
+// Generates topic suggestions for pending slots that have none yet, soonest first.
+// Limited per tick because each call is a full Gemini generation.
+export const fillSuggestedTopics = async (limit: number, errors: string[] = []): Promise<number> => {
+    const slots = await slotRepository.findAwaitingTopics(limit);
+    if (slots.length === 0) return 0;
+
+    const trainingContext = await getTrainingContext();
+    let filled = 0;
+
+    for (const slot of slots) {
+        try {
+            const topics = await generateTopics(slot.niche, trainingContext, slot.suggestionCount || DEFAULT_SUGGESTION_COUNT);
+            if (topics.length === 0) continue;
+
+            if (await slotRepository.setSuggestedTopicsIfEmpty(slot.id, topics)) filled++;
+        } catch (error) {
+            console.error(`Scheduler: Failed to generate topics for slot ${slot.id}`, error);
+            errors.push(`${slot.id}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    return filled;
+};
+
+export const runSchedulerTick = async (topicLimit: number = 3): Promise<SchedulerTickResult> => {
+    const errors: string[] = [];
+    const slotsCreated = await materializeSlots();
+    const slotsFilled = await fillSuggestedTopics(topicLimit, errors);
+
+    console.log(`Scheduler: Created ${slotsCreated} slots, filled ${slotsFilled} with topics`);
+    return { slotsCreated, slotsFilled, errors };
+};
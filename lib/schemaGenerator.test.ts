@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BlogPost } from '../types';
+import { generateBlogPostingSchema, getCategorySlug, getCombinedSchemaHtml } from './schemaGenerator';
+
+const post: BlogPost = {
+    id: 'a',
+    slug: 'brewing-oolong',
+    title: 'Brewing Oolong',
+    excerpt: '',
+    content: '<p>Rinse the leaves first.</p>',
+    keywords: ['tea'],
+    category: 'Drinks',
+    dateCreated: '2030-01-01T09:00:00.000Z',
+    status: 'draft',
+    readTime: '1 min read'
+};
+
+describe('generateBlogPostingSchema', () => {
+    it('leaves out isPartOf for standalone posts', () => {
+        const schema = generateBlogPostingSchema(post);
+        assert.equal('isPartOf' in schema, false);
+        assert.equal('position' in schema, false);
+    });
+
+    it('names the series and the part for series parts', () => {
+        const schema = generateBlogPostingSchema(post, null, { series: { slug: 'tea-basics', title: 'Tea Basics' }, part: 2 });
+        assert.deepEqual(schema.isPartOf, {
+            '@type': 'CreativeWorkSeries',
+            name: 'Tea Basics',
+            url: 'https://smmsurge.com/blog/series/tea-basics'
+        });
+        assert.equal(schema.position, 2);
+    });
+
+    it('carries the series into the injected schema HTML', () => {
+        const html = getCombinedSchemaHtml(post, null, [], { series: { slug: 'tea-basics', title: 'Tea Basics' }, part: 1 });
+        assert.match(html, /"@type":\s*"CreativeWorkSeries"/);
+    });
+});
+
+describe('getCategorySlug', () => {
+    it('keeps only URL-safe characters', () => {
+        assert.equal(getCategorySlug('AI/ML'), 'ai-ml');
+        assert.equal(getCategorySlug('C#'), 'c-sharp');
+        assert.equal(getCategorySlug('Tips & Tricks?'), 'tips-and-tricks');
+        assert.equal(getCategorySlug(' Café  au\tlait '), 'cafe-au-lait');
+    });
+
+    it('falls back to code points for names without any', () => {
+        assert.equal(getCategorySlug('日本'), '65e5-672c');
+    });
+});
@@ -1,34 +1,118 @@
-import { BlogPost } from '../types';
+import { Author, BlogPost, Category, Series } from '../types';
+import { slugify } from './slugify';
 
-export const generateBlogPostingSchema = (post: BlogPost) => {
+export const SITE_URL = 'https://smmsurge.com';
+
+// Category and tag slugs are derived from the name, so two spellings that only
+// differ in case, spacing or punctuation are the same category or tag. Names
+// with no letters or digits slugify can keep, e.g. in another script, are
+// spelled out as their code points.
+export const getCategorySlug = (category: string) => {
+    const name = category.trim();
+    return slugify(name) || [...name].map(char => (char.codePointAt(0) as number).toString(16)).join('-');
+};
+export const getTagSlug = getCategorySlug;
+
+type PostDates = Pick<BlogPost, 'dateCreated' | 'dateModified' | 'datePublished'>;
+
+// Drafts and previews have not been published yet, fall back to when they were created
+export const getPublishedDate = (post: PostDates) => post.datePublished || post.dateCreated;
+
+// dateModified stays empty until a saved post is changed
+export const getModifiedDate = (post: PostDates) => post.dateModified || getPublishedDate(post);
+
+export const getAuthorUrl = (author: Pick<Author, 'slug'>) => `${SITE_URL}/blog/author/${author.slug}`;
+
+export const generatePersonSchema = (author: Author) => {
+    return {
+        "@type": "Person",
+        "@id": `${getAuthorUrl(author)}#person`,
+        "name": author.name,
+        "url": getAuthorUrl(author),
+        ...(author.jobTitle && { "jobTitle": author.jobTitle }),
+        ...(author.bio && { "description": author.bio }),
+        ...(author.avatarUrl && { "image": author.avatarUrl }),
+        ...(author.socialProfiles.length > 0 && { "sameAs": author.socialProfiles }),
+        "worksFor": {
+            "@type": "Organization",
+            "name": "AutoBlog"
+        }
+    };
+};
+
+// Byline for posts without an author
+const SITE_AUTHOR_SCHEMA = {
+    "@type": "Person",
+    "name": "AutoBlog AI",
+    "jobTitle": "AI Content Creator",
+    "worksFor": {
+        "@type": "Organization",
+        "name": "AutoBlog"
+    }
+};
+
+// A post's place in its series, part counts from 1
+export interface SeriesMembership {
+    series: Pick<Series, 'slug' | 'title'>;
+    part: number;
+}
+
+export const generateBlogPostingSchema = (post: BlogPost, author?: Author | null, membership?: SeriesMembership | null) => {
     return {
         "@type": "BlogPosting",
         "headline": post.title,
         "description": post.excerpt,
         "image": post.coverImage,
-        "author": {
-            "@type": "Person",
-            "name": "AutoBlog AI",
-            "jobTitle": "AI Content Creator",
-            "worksFor": {
-                "@type": "Organization",
-                "name": "AutoBlog"
-            }
-        },
+        "author": author ? generatePersonSchema(author) : SITE_AUTHOR_SCHEMA,
         "publisher": {
             "@type": "Organization",
             "name": "AutoBlog",
             "logo": {
                 "@type": "ImageObject",
-                "url": "https://smmsurge.com/logo.png" // Fallback logo
+                "url": `${SITE_URL}/logo.png` // Fallback logo
             }
         },
-        "datePublished": post.dateCreated,
-        "dateModified": new Date().toISOString(), // Use current for now, or post.dateModified if added
+        "datePublished": getPublishedDate(post),
+        "dateModified": getModifiedDate(post),
         "mainEntityOfPage": {
             "@type": "WebPage",
-            "@id": `https://smmsurge.com/blog/${post.slug}`
-        }
+            "@id": `${SITE_URL}/blog/${post.slug}`
+        },
+        ...(membership && {
+            "isPartOf": {
+                "@type": "CreativeWorkSeries",
+                "name": membership.series.title,
+                "url": getSeriesUrl(membership.series)
+            },
+            "position": membership.part
+        })
+    };
+};
+
+// For /blog/author/<slug>
+export const generateProfilePageSchema = (author: Author) => {
+    return {
+        "@type": "ProfilePage",
+        "url": getAuthorUrl(author),
+        "mainEntity": generatePersonSchema(author)
+    };
+};
+
+export const getSeriesUrl = (series: Pick<Series, 'slug'>) => `${SITE_URL}/blog/series/${series.slug}`;
+
+// For /blog/series/<slug>, parts are the published posts in order
+export const generateSeriesSchema = (series: Series, parts: Pick<BlogPost, 'slug' | 'title'>[]) => {
+    return {
+        "@type": "CreativeWorkSeries",
+        "name": series.title,
+        "description": series.description,
+        "url": getSeriesUrl(series),
+        "hasPart": parts.map((part, idx) => ({
+            "@type": "BlogPosting",
+            "position": idx + 1,
+            "headline": part.title,
+            "url": `${SITE_URL}/blog/${part.slug}`
+        }))
     };
 };
 
@@ -36,8 +120,8 @@ export const generateOrganizationSchema = () => {
     return {
         "@type": "Organization",
         "name": "AutoBlog AI",
-        "url": "https://smmsurge.com",
-        "logo": "https://smmsurge.com/logo.png",
+        "url": SITE_URL,
+        "logo": `${SITE_URL}/logo.png`,
         "sameAs": [
             "https://twitter.com/autoblogai",
             "https://facebook.com/autoblogai",
@@ -51,35 +135,29 @@ export const generateOrganizationSchema = () => {
     };
 };
 
-export const generateBreadcrumbSchema = (post: BlogPost) => {
+type BreadcrumbCategory = Pick<Category, 'slug' | 'name'>;
+
+// categoryPath runs from the top-level category down to the post's own. Without
+// it the post's category name is the only level.
+export const generateBreadcrumbSchema = (post: BlogPost, categoryPath?: BreadcrumbCategory[]) => {
+    const categories: BreadcrumbCategory[] = categoryPath && categoryPath.length > 0
+        ? categoryPath
+        : [{ name: post.category, slug: getCategorySlug(post.category) }];
+    const trail = [
+        { name: "Home", item: SITE_URL },
+        { name: "Blog", item: `${SITE_URL}/blog` },
+        ...categories.map(category => ({ name: category.name, item: `${SITE_URL}/blog/category/${encodeURIComponent(category.slug)}` })),
+        { name: post.title, item: `${SITE_URL}/blog/${post.slug}` }
+    ];
+
     return {
         "@type": "BreadcrumbList",
-        "itemListElement": [
-            {
-                "@type": "ListItem",
-                "position": 1,
-                "name": "Home",
-                "item": "https://smmsurge.com"
-            },
-            {
-                "@type": "ListItem",
-                "position": 2,
-                "name": "Blog",
-                "item": "https://smmsurge.com/blog"
-            },
-            {
-                "@type": "ListItem",
-                "position": 3,
-                "name": post.category,
-                "item": `https://smmsurge.com/blog/category/${post.category.toLowerCase().replace(/\s+/g, '-')}`
-            },
-            {
-                "@type": "ListItem",
-                "position": 4,
-                "name": post.title,
-                "item": `https://smmsurge.com/blog/${post.slug}`
-            }
-        ]
+        "itemListElement": trail.map((entry, idx) => ({
+            "@type": "ListItem",
+            "position": idx + 1,
+            "name": entry.name,
+            "item": entry.item
+        }))
     };
 };
 
@@ -144,11 +222,11 @@ export const generateServiceSchema = (post: BlogPost) => {
     };
 };
 
-export const aggregateSchemas = (post: BlogPost) => {
+export const aggregateSchemas = (post: BlogPost, author?: Author | null, categoryPath?: BreadcrumbCategory[], membership?: SeriesMembership | null) => {
     const schemas: any[] = [
         {
             "@context": "https://schema.org",
-            ...generateBlogPostingSchema(post)
+            ...generateBlogPostingSchema(post, author, membership)
         },
         {
             "@context": "https://schema.org",
@@ -156,7 +234,7 @@ export const aggregateSchemas = (post: BlogPost) => {
         },
         {
             "@context": "https://schema.org",
-            ...generateBreadcrumbSchema(post)
+            ...generateBreadcrumbSchema(post, categoryPath)
         }
     ];
 
@@ -172,9 +250,15 @@ export const aggregateSchemas = (post: BlogPost) => {
     return schemas;
 };
 
-export const getCombinedSchemaHtml = (post: BlogPost) => {
-    const schemas = aggregateSchemas(post);
+export const getCombinedSchemaHtml = (post: BlogPost, author?: Author | null, categoryPath?: BreadcrumbCategory[], membership?: SeriesMembership | null) => {
+    const schemas = aggregateSchemas(post, author, categoryPath, membership);
     return schemas.map(schema =>
         `<script type="application/ld+json">${JSON.stringify(schema, null, 2)}</script>`
     ).join('\n');
 };
+
+// Removes the JSON-LD blocks injected by getCombinedSchemaHtml, for outputs
+// that render the content body and emit (or don't want) schema separately.
+export const stripSchemaHtml = (html: string) => {
+    return html.replace(/<script\s+type=["']application\/ld\+json["'][^>]*>[\s\S]*?<\/script>/gi, '').trim();
+};
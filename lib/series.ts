@@ -0,0 +1,138 @@
+import { BlogPost, Series, SeriesPlan } from '../types';
+import { buildPostFromTopic } from './publisher';
+import { savePost } from './posts';
+import { PostSummary, postRepository, seriesRepository } from './repositories';
+import { slugify } from './slugify';
+
+// A series is an ordered list of posts. Each post keeps its own page, the
+// series adds a "Part N of M" block to them and a landing page listing the
+// parts. Parts that aren't published yet are counted but their titles stay hidden.
+
+export interface SeriesPartLink {
+    part: number;
+    // Only set for published parts
+    slug?: string;
+    title?: string;
+    excerpt?: string;
+}
+
+export interface SeriesNavigation {
+    series: Series;
+    part: number;
+    parts: SeriesPartLink[];
+    previous?: SeriesPartLink;
+    next?: SeriesPartLink;
+}
+
+const toPartLinks = (posts: PostSummary[]): SeriesPartLink[] =>
+    posts.map((post, index) => post.status === 'published'
+        ? { part: index + 1, slug: post.slug, title: post.title, excerpt: post.excerpt }
+        : { part: index + 1 });
+
+// The block shown on a published post, null when it isn't part of a series
+export const getSeriesNavigation = async (post: BlogPost): Promise<SeriesNavigation | null> => {
+    if (!post.seriesId) return null;
+    const series = await seriesRepository.findById(post.seriesId);
+    if (!series) return null;
+
+    const posts = await postRepository.findSeriesParts(series.id);
+    const index = posts.findIndex(part => part.id === post.id);
+    if (index === -1) return null;
+
+    const parts = toPartLinks(posts);
+    return {
+        series,
+        part: index + 1,
+        parts,
+        previous: parts.slice(0, index).reverse().find(part => part.slug),
+        next: parts.slice(index + 1).find(part => part.slug)
+    };
+};
+
+// Everything a series landing page shows, null until a part is published
+export const getSeriesListing = async (slug: string) => {
+    const series = await seriesRepository.findBySlug(slug);
+    if (!series) return null;
+
+    const parts = toPartLinks(await postRepository.findSeriesParts(series.id));
+    if (!parts.some(part => part.slug)) return null;
+    return { series, parts };
+};
+
+// Series slugs are derived from the title once, like author slugs they are not
+// renamed with it. Taken slugs get a numeric suffix.
+export const getUniqueSeriesSlug = async (title: string, id: string): Promise<string> => {
+    const base = slugify(title) || 'series';
+    let slug = base;
+    for (let suffix = 2; await seriesRepository.isSlugTaken(slug, id); suffix++) {
+        slug = `${base}-${suffix}`;
+    }
+    return slug;
+};
+
+export const createSeriesFromPlan = async (plan: SeriesPlan): Promise<Series> => {
+    const id = Date.now().toString();
+    const series: Series = {
+        id,
+        slug: await getUniqueSeriesSlug(plan.title, id),
+        title: plan.title,
+        description: plan.description,
+        dateCreated: '',
+        postIds: []
+    };
+    await seriesRepository.save(series);
+    return (await seriesRepository.findById(id)) as Series;
+};
+
+// What the model is told about the series when it writes one part: the plan
+// for the part itself, what the parts before it already covered and what is
+// left for the parts after it.
+const buildSeriesContext = (series: Series, plan: SeriesPlan, index: number, previous: PostSummary[]): string => {
+    const part = plan.parts[index];
+    const lines = [
+        `Series: "${series.title}"${series.description ? ` - ${series.description}` : ''}`,
+        `This is part ${index + 1} of ${plan.parts.length}: "${part.title}". It covers: ${part.summary}`
+    ];
+    if (previous.length > 0) {
+        lines.push('Earlier parts, already published or drafted:');
+        previous.forEach((post, position) => lines.push(`${position + 1}. "${post.title}": ${post.excerpt}`));
+    }
+    const upcoming = plan.parts.slice(index + 1);
+    if (upcoming.length > 0) {
+        lines.push('Later parts, leave these subjects to them:');
+        upcoming.forEach((later, position) => lines.push(`${index + position + 2}. "${later.title}": ${later.summary}`));
+    }
+    return lines.join('\n');
+};
+
+// Writes one part of a planned series as a draft and appends it to the series.
+// Parts are drafted in order so each one can build on the ones before it.
+export const draftSeriesPart = async (
+    seriesId: string,
+    plan: SeriesPlan,
+    index: number,
+    tone?: string,
+    trainingContext?: string
+): Promise<BlogPost> => {
+    const series = await seriesRepository.findById(seriesId);
+    if (!series) throw new Error('Series not found');
+    const part = plan.parts[index];
+    if (!part) throw new Error(`The plan has no part ${index + 1}`);
+
+    // The draft is appended after the parts already there, its schema is
+    // generated with that position
+    const previous = await postRepository.findSeriesParts(seriesId);
+    const post = await buildPostFromTopic(
+        { topic: part.title, relevance: part.summary },
+        trainingContext,
+        {
+            tone,
+            seriesContext: buildSeriesContext(series, plan, index, previous),
+            series: { series, part: previous.length + 1 }
+        }
+    );
+
+    const saved = await savePost({ ...post, status: 'draft' });
+    await seriesRepository.appendPost(seriesId, saved.id);
+    return (await postRepository.findById(saved.id)) as BlogPost;
+};
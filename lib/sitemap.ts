@@ -0,0 +1,118 @@
+import { Author, BlogPost, Series } from '../types';
+import { SITE_URL, getAuthorUrl, getCategorySlug, getModifiedDate, getSeriesUrl } from './schemaGenerator';
+import { escapeXml } from './xml';
+
+// Protocol limit per sitemap file, see https://www.sitemaps.org/protocol.html
+export const SITEMAP_URL_LIMIT = 50000;
+
+export type SitemapPost = Pick<BlogPost, 'slug' | 'title' | 'category' | 'coverImage' | 'dateCreated' | 'dateModified' | 'datePublished' | 'authorId' | 'seriesId'>;
+
+export type SitemapAuthor = Pick<Author, 'id' | 'slug'>;
+
+export type SitemapSeries = Pick<Series, 'id' | 'slug'>;
+
+export interface SitemapEntry {
+    loc: string;
+    lastmod?: string;
+    image?: { loc: string; title: string };
+}
+
+const toLastmod = (value?: string) => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const getPostLastmod = (post: SitemapPost) => toLastmod(getModifiedDate(post));
+
+const latest = (a?: string, b?: string) => (!a || (b && b > a)) ? b : a;
+
+// Blog index, one entry per category page, one per author and series with
+// published posts, then every post. Callers must only pass published posts.
+export const buildSitemapEntries = (posts: SitemapPost[], authors: SitemapAuthor[] = [], series: SitemapSeries[] = []): SitemapEntry[] => {
+    const categories = new Map<string, string | undefined>();
+    const authorLastmods = new Map<string, string | undefined>();
+    const seriesLastmods = new Map<string, string | undefined>();
+    let blogLastmod: string | undefined;
+
+    const postEntries = posts.map(post => {
+        const lastmod = getPostLastmod(post);
+        blogLastmod = latest(blogLastmod, lastmod);
+        if (post.category) {
+            const slug = getCategorySlug(post.category);
+            categories.set(slug, latest(categories.get(slug), lastmod));
+        }
+        if (post.authorId) {
+            authorLastmods.set(post.authorId, latest(authorLastmods.get(post.authorId), lastmod));
+        }
+        if (post.seriesId) {
+            seriesLastmods.set(post.seriesId, latest(seriesLastmods.get(post.seriesId), lastmod));
+        }
+
+        return {
+            loc: `${SITE_URL}/blog/${encodeURIComponent(post.slug)}`,
+            lastmod,
+            image: post.coverImage ? { loc: post.coverImage, title: post.title } : undefined
+        };
+    });
+
+    const categoryEntries = Array.from(categories.entries()).map(([slug, lastmod]) => ({
+        loc: `${SITE_URL}/blog/category/${encodeURIComponent(slug)}`,
+        lastmod
+    }));
+
+    const authorEntries = authors
+        .filter(author => authorLastmods.has(author.id))
+        .map(author => ({ loc: getAuthorUrl(author), lastmod: authorLastmods.get(author.id) }));
+
+    const seriesEntries = series
+        .filter(entry => seriesLastmods.has(entry.id))
+        .map(entry => ({ loc: getSeriesUrl(entry), lastmod: seriesLastmods.get(entry.id) }));
+
+    return [{ loc: `${SITE_URL}/blog`, lastmod: blogLastmod }, ...categoryEntries, ...authorEntries, ...seriesEntries, ...postEntries];
+};
+
+export const getSitemapPageCount = (entries: SitemapEntry[]) => Math.max(1, Math.ceil(entries.length / SITEMAP_URL_LIMIT));
+
+// Page numbers start at 1
+export const getSitemapPage = (entries: SitemapEntry[], page: number) => {
+    return entries.slice((page - 1) * SITEMAP_URL_LIMIT, page * SITEMAP_URL_LIMIT);
+};
+
+export const buildUrlset = (entries: SitemapEntry[]): string => {
+    const urls = entries.map(entry => [
+        '  <url>',
+        `    <loc>${escapeXml(entry.loc)}</loc>`,
+        ...(entry.lastmod ? [`    <lastmod>${entry.lastmod}</lastmod>`] : []),
+        ...(entry.image ? [
+            '    <image:image>',
+            `      <image:loc>${escapeXml(entry.image.loc)}</image:loc>`,
+            `      <image:title>${escapeXml(entry.image.title)}</image:title>`,
+            '    </image:image>'
+        ] : []),
+        '  </url>'
+    ].join('\n')).join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+${urls}
+</urlset>`;
+};
+
+export const buildSitemapIndex = (entries: SitemapEntry[]): string => {
+    const sitemaps = Array.from({ length: getSitemapPageCount(entries) }, (_, idx) => {
+        const page = idx + 1;
+        const lastmod = getSitemapPage(entries, page).reduce<string | undefined>((acc, entry) => latest(acc, entry.lastmod), undefined);
+        return [
+            '  <sitemap>',
+            `    <loc>${SITE_URL}/sitemaps/${page}.xml</loc>`,
+            ...(lastmod ? [`    <lastmod>${lastmod}</lastmod>`] : []),
+            '  </sitemap>'
+        ].join('\n');
+    }).join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps}
+</sitemapindex>`;
+};
@@ -0,0 +1,26 @@
+// Leaves room under the VARCHAR(255) column for a de-duplication suffix
+const MAX_SLUG_LENGTH = 200;
+
+// Symbols that tell names apart, "C++" and "C#" aren't "C"
+const SPELLED_OUT: [RegExp, string][] = [
+    [/&/g, ' and '],
+    [/\+/g, ' plus '],
+    [/([a-z])#/g, '$1 sharp']
+];
+
+// The one slug format used everywhere: lowercase ASCII letters and digits
+// joined by single dashes. Accents are dropped ("Café" -> "cafe"), any other
+// character separates words.
+export const slugify = (text: string) => {
+    let slug = text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/['’]/g, '');
+    for (const [pattern, replacement] of SPELLED_OUT) slug = slug.replace(pattern, replacement);
+    return slug
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .substring(0, MAX_SLUG_LENGTH)
+        .replace(/-+$/g, '');
+};
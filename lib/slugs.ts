@@ -0,0 +1,67 @@
+import db, { isDuplicateKeyError } from './db';
+import { slugify } from './slugify';
+import { postRepository } from './repositories';
+
+const MAX_SUFFIX_ATTEMPTS = 100;
+
+// A slug is taken when another post uses it, or when it redirects to another
+// post. A post may always take back one of its own former slugs.
+const isSlugTaken = async (slug: string, postId?: string): Promise<boolean> => {
+    if (await postRepository.isSlugTaken(slug, postId)) return true;
+
+    const redirects = await db.query(
+        'SELECT postId FROM post_slug_redirects WHERE slug = ? AND postId <> ? LIMIT 1',
+        [slug, postId || '']
+    );
+    return redirects.length > 0;
+};
+
+// Normalizes the requested slug (falling back to the title) and appends -2, -3, ...
+// until it is free. The unique index on posts.slug remains the final guarantee,
+// see isDuplicateSlugError for retrying when a concurrent save wins the race.
+export const getUniqueSlug = async (requested: string, fallbackTitle: string, postId?: string): Promise<string> => {
+    const base = slugify(requested || '') || slugify(fallbackTitle || '') || 'untitled';
+
+    for (let i = 1; i <= MAX_SUFFIX_ATTEMPTS; i++) {
+        const candidate = i === 1 ? base : `${base}-${i}`;
+        if (!(await isSlugTaken(candidate, postId))) return candidate;
+    }
+
+    return `${base}-${Date.now()}`;
+};
+
+export const isDuplicateSlugError = (error: unknown) => {
+    return isDuplicateKeyError(error) && /slug/i.test((error as Error).message || '');
+};
+
+// Call after a post's slug has changed so the old URL keeps working. Taking back
+// a former slug removes its redirect, the live post wins.
+export const recordSlugChange = async (postId: string, oldSlug: string | undefined, newSlug: string) => {
+    if (oldSlug && oldSlug !== newSlug) {
+        const { dialect } = db;
+        await db.execute(
+            `INSERT INTO post_slug_redirects (slug, postId, dateCreated) VALUES (?, ?, ?)
+            ${dialect.onConflictUpdate('slug', { postId: dialect.excluded('postId'), dateCreated: dialect.excluded('dateCreated') })}`,
+            [oldSlug, postId, new Date()]
+        );
+    }
+    await db.execute('DELETE FROM post_slug_redirects WHERE slug = ?', [newSlug]);
+};
+
+// Current slug of the published post an old slug now points to, if any. Posts
+// in the trash don't count.
+export const resolveSlugRedirect = async (slug: string): Promise<string | null> => {
+    const rows = await db.query<{ slug: string }>(
+        `SELECT p.slug FROM post_slug_redirects r
+         JOIN posts p ON p.id = r.postId
+         WHERE r.slug = ? AND p.slug <> r.slug AND p.status = 'published' AND p.deletedAt IS NULL
+         LIMIT 1`,
+        [slug]
+    );
+    return rows.length > 0 ? rows[0].slug : null;
+};
+
+// Every former slug with the post it belongs to now
+export const getSlugRedirects = async (): Promise<{ slug: string; postId: string }[]> => {
+    return db.query<{ slug: string; postId: string }>('SELECT slug, postId FROM post_slug_redirects');
+};
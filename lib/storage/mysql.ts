@@ -0,0 +1,100 @@
+import mysql, { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import type { Database, ExecuteResult, Row, SqlDialect } from '../db';
+
+const LOCK_TIMEOUT_SECONDS = 30;
+
+export const mysqlDialect: SqlDialect = {
+    name: 'mysql',
+    insertIgnore: 'INSERT IGNORE',
+    onConflictUpdate: (_conflictColumn, assignments) =>
+        `ON DUPLICATE KEY UPDATE ${Object.entries(assignments).map(([column, expression]) => `${column} = ${expression}`).join(', ')}`,
+    excluded: column => `VALUES(${column})`,
+    jsonArrayLength: expression => `JSON_LENGTH(${expression})`,
+    jsonArrayContains: expression => `JSON_CONTAINS(${expression}, JSON_QUOTE(?))`
+};
+
+const getConnectionOptions = () => ({
+    host: process.env.DB_HOST,
+    user: process.env.DB_USER,
+    password: process.env.DB_PASSWORD,
+    database: process.env.DB_NAME,
+    port: Number(process.env.DB_PORT) || 3306
+});
+
+type Queryable = mysql.Pool | mysql.PoolConnection;
+
+const wrap = (connection: Queryable, pool: mysql.Pool): Database => ({
+    dialect: mysqlDialect,
+
+    async query<T extends Row = Row>(sql: string, params: unknown[] = []) {
+        const [rows] = await connection.query<RowDataPacket[]>(sql, params);
+        return rows as T[];
+    },
+
+    async execute(sql: string, params: unknown[] = []): Promise<ExecuteResult> {
+        const [result] = await connection.query<ResultSetHeader>(sql, params);
+        return { affectedRows: result.affectedRows, insertId: result.insertId };
+    },
+
+    // The pool does not allow several statements per query, so scripts get
+    // their own short-lived connection.
+    async exec(script: string) {
+        const scriptConnection = await mysql.createConnection({ ...getConnectionOptions(), multipleStatements: true });
+        try {
+            await scriptConnection.query(script);
+        } finally {
+            await scriptConnection.end();
+        }
+    },
+
+    async transaction<T>(fn: (db: Database) => Promise<T>) {
+        // Already inside a transaction, keep using its connection
+        if (connection !== pool) return fn(wrap(connection, pool));
+
+        const transactionConnection = await pool.getConnection();
+        try {
+            await transactionConnection.beginTransaction();
+            const result = await fn(wrap(transactionConnection, pool));
+            await transactionConnection.commit();
+            return result;
+        } catch (error) {
+            await transactionConnection.rollback();
+            throw error;
+        } finally {
+            transactionConnection.release();
+        }
+    },
+
+    // GET_LOCK belongs to the session, so hold one connection for the duration
+    async withLock<T>(name: string, fn: () => Promise<T>) {
+        const lockConnection = await pool.getConnection();
+        try {
+            const [[lock]] = await lockConnection.query<RowDataPacket[]>('SELECT GET_LOCK(?, ?) AS acquired', [name, LOCK_TIMEOUT_SECONDS]);
+            if (lock.acquired !== 1) throw new Error(`Could not acquire lock "${name}"`);
+            try {
+                return await fn();
+            } finally {
+                await lockConnection.query('SELECT RELEASE_LOCK(?)', [name]);
+            }
+        } finally {
+            lockConnection.release();
+        }
+    },
+
+    async close() {
+        await pool.end();
+    }
+});
+
+export const createMySqlDatabase = (): Database => {
+    const pool = mysql.createPool({
+        ...getConnectionOptions(),
+        waitForConnections: true,
+        connectionLimit: 10,
+        queueLimit: 0,
+        enableKeepAlive: true,
+        keepAliveInitialDelay: 0,
+        connectTimeout: 10000 // 10 seconds
+    });
+    return wrap(pool, pool);
+};
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Database } from '../db';
+import { createSqliteDatabase } from './sqlite';
+
+describe('SQLite transactions', () => {
+    let db: Database;
+
+    beforeEach(async () => {
+        db = createSqliteDatabase(':memory:');
+        await db.exec('CREATE TABLE items (id INT PRIMARY KEY)');
+    });
+
+    afterEach(() => db.close());
+
+    const ids = async () => (await db.query('SELECT id FROM items ORDER BY id')).map(row => row.id);
+
+    it('keeps statements from outside an open transaction out of its rollback', async () => {
+        let outside: Promise<unknown> = Promise.resolve();
+        const failed = db.transaction(async tx => {
+            await tx.execute('INSERT INTO items (id) VALUES (1)');
+            outside = db.execute('INSERT INTO items (id) VALUES (2)');
+            await new Promise(resolve => setTimeout(resolve, 10));
+            throw new Error('Rolled back');
+        });
+
+        await assert.rejects(failed, /Rolled back/);
+        await outside;
+        assert.deepEqual(await ids(), [2]);
+    });
+
+    it('runs overlapping transactions one after the other', async () => {
+        await Promise.all([1, 2].map(id => db.transaction(async tx => {
+            await tx.execute('INSERT INTO items (id) VALUES (?)', [id]);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            await tx.execute('INSERT INTO items (id) VALUES (?)', [id * 10]);
+        })));
+        assert.deepEqual(await ids(), [1, 2, 10, 20]);
+    });
+});
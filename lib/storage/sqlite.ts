@@ -0,0 +1,146 @@
+import BetterSqlite3 from 'better-sqlite3';
+import type { Database, ExecuteResult, Row, SqlDialect } from '../db';
+import { runMigrations } from '../migrations';
+
+export const sqliteDialect: SqlDialect = {
+    name: 'sqlite',
+    insertIgnore: 'INSERT OR IGNORE',
+    onConflictUpdate: (conflictColumn, assignments) =>
+        `ON CONFLICT(${conflictColumn}) DO UPDATE SET ${Object.entries(assignments).map(([column, expression]) => `${column} = ${expression}`).join(', ')}`,
+    excluded: column => `excluded.${column}`,
+    jsonArrayLength: expression => `json_array_length(${expression})`,
+    jsonArrayContains: expression => `EXISTS (SELECT 1 FROM json_each(${expression}) WHERE json_each.value = ?)`
+};
+
+// SQLite only binds numbers, strings, bigints, buffers and null. Dates are
+// stored as ISO strings, which also keeps them comparable with < and >.
+const toSqliteValue = (value: unknown): unknown => {
+    if (value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return value;
+};
+
+// mysql2 expands an array parameter into a list (`IN (?)`), do the same here
+const expandParams = (sql: string, params: unknown[]): [string, unknown[]] => {
+    if (!params.some(Array.isArray)) return [sql, params.map(toSqliteValue)];
+
+    const values: unknown[] = [];
+    let index = 0;
+    const expanded = sql.replace(/\?/g, () => {
+        const param = params[index++];
+        if (!Array.isArray(param)) {
+            values.push(toSqliteValue(param));
+            return '?';
+        }
+        values.push(...param.map(toSqliteValue));
+        return param.length > 0 ? param.map(() => '?').join(', ') : 'NULL';
+    });
+    return [expanded, values];
+};
+
+type Serialize = <T>(task: () => Promise<T>) => Promise<T>;
+
+// Runs tasks one at a time, in the order they were queued
+const createQueue = (): Serialize => {
+    let tail: Promise<unknown> = Promise.resolve();
+    return task => {
+        const result = tail.then(task, task);
+        tail = result.catch(() => undefined);
+        return result;
+    };
+};
+
+const runDirectly: Serialize = task => task();
+
+// One connection for everything. While a transaction is open, every statement
+// on that connection is part of it, so anything from outside the transaction
+// (another request, another transaction) waits in `serialize` until it is
+// done. Statements the transaction runs itself go through the handle passed
+// to its callback and don't wait.
+const wrap = (handle: BetterSqlite3.Database, ready: () => Promise<void>, serialize: Serialize, inTransaction = false): Database => {
+    const database: Database = {
+        dialect: sqliteDialect,
+
+        async query<T extends Row = Row>(sql: string, params: unknown[] = []) {
+            return serialize(async () => {
+                await ready();
+                const [expandedSql, values] = expandParams(sql, params);
+                const statement = handle.prepare(expandedSql);
+                if (!statement.reader) {
+                    statement.run(...values);
+                    return [];
+                }
+                return statement.all(...values) as T[];
+            });
+        },
+
+        async execute(sql: string, params: unknown[] = []): Promise<ExecuteResult> {
+            return serialize(async () => {
+                await ready();
+                const [expandedSql, values] = expandParams(sql, params);
+                const result = handle.prepare(expandedSql).run(...values);
+                return { affectedRows: result.changes, insertId: Number(result.lastInsertRowid) };
+            });
+        },
+
+        async exec(script: string) {
+            return serialize(async () => {
+                await ready();
+                handle.exec(script);
+            });
+        },
+
+        async transaction<T>(fn: (db: Database) => Promise<T>) {
+            // Already inside a transaction, keep using it
+            if (inTransaction) return fn(database);
+
+            return serialize(async () => {
+                await ready();
+                handle.exec('BEGIN');
+                try {
+                    const result = await fn(wrap(handle, ready, runDirectly, true));
+                    handle.exec('COMMIT');
+                    return result;
+                } catch (error) {
+                    handle.exec('ROLLBACK');
+                    throw error;
+                }
+            });
+        },
+
+        // SQLite has no named locks, concurrent migration runs against one local file are not expected
+        async withLock<T>(_name: string, fn: () => Promise<T>) {
+            return fn();
+        },
+
+        async close() {
+            handle.close();
+        }
+    };
+
+    return database;
+};
+
+// Opens (or creates) the database and applies pending migrations before the
+// first query runs.
+export const createSqliteDatabase = (path: string): Database => {
+    const handle = new BetterSqlite3(path);
+    handle.pragma('journal_mode = WAL');
+    handle.pragma('foreign_keys = ON');
+
+    // Migrations run before anything else is let through, from inside the first
+    // queued task, so they must not queue themselves
+    let migrated: Promise<void> | null = null;
+    const unmigrated = wrap(handle, async () => {}, runDirectly);
+    const ready = () => {
+        if (!migrated) {
+            migrated = runMigrations(unmigrated).then(applied => {
+                if (applied.length > 0) console.log(`SQLite: Applied ${applied.length} migration(s) to ${path}`);
+            });
+        }
+        return migrated;
+    };
+
+    return wrap(handle, ready, createQueue());
+};
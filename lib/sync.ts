@@ -0,0 +1,32 @@
+import db, { Database } from './db';
+import { ChangeSet, NicheSchedule, ScheduledSlot, TrainingData } from '../types';
+import { ScheduleRepository, SlotRepository, TrainingDataRepository } from './repositories';
+
+interface SyncableRepository<T> {
+    findAll(): Promise<T[]>;
+    save(item: T): Promise<void>;
+    delete(id: string): Promise<boolean>;
+}
+
+// Applies the whole change set or none of it, and returns the collection as
+// stored afterwards so the client can replace its copy.
+const applyChangeSet = <T>(changes: ChangeSet<T>, createRepository: (tx: Database) => SyncableRepository<T>): Promise<T[]> =>
+    db.transaction(async tx => {
+        const repository = createRepository(tx);
+        for (const item of [...changes.created, ...changes.updated]) {
+            await repository.save(item);
+        }
+        for (const id of changes.deleted) {
+            await repository.delete(id);
+        }
+        return repository.findAll();
+    });
+
+export const syncSchedules = (changes: ChangeSet<NicheSchedule>) =>
+    applyChangeSet(changes, tx => new ScheduleRepository(tx));
+
+export const syncScheduledSlots = (changes: ChangeSet<ScheduledSlot>) =>
+    applyChangeSet(changes, tx => new SlotRepository(tx));
+
+export const syncTrainingData = (changes: ChangeSet<TrainingData>) =>
+    applyChangeSet(changes, tx => new TrainingDataRepository(tx));
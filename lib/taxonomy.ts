@@ -0,0 +1,245 @@
+import { randomUUID } from 'crypto';
+import defaultDb, { Database } from './db';
+import { BlogPost, Category, Tag } from '../types';
+import { getCategorySlug, getTagSlug } from './schemaGenerator';
+import { getCategoryPath, getDescendantIds } from './categoryTree';
+import { CategoryRepository, PostPatch, PostRepository, TagRepository, categoryRepository, postRepository, tagRepository } from './repositories';
+import type { FieldError } from './validation';
+
+// Posts name their category and tags in free text (the AI picks them, editors
+// type them). On every save those names are matched to category and tag
+// records by slug, creating the ones that don't exist yet, and replaced with
+// the record's name. "Social media" and "Social Media " end up as one category.
+
+export interface NormalizedCategory {
+    category: string;
+    categoryId: string | null;
+}
+
+export const normalizeCategory = async (name: string, db: Database = defaultDb): Promise<NormalizedCategory> => {
+    const slug = getCategorySlug(name);
+    if (!slug) return { category: name.trim(), categoryId: null };
+
+    const categories = new CategoryRepository(db);
+    let category = await categories.findBySlug(slug);
+    if (!category) {
+        await categories.insertIfMissing({ id: randomUUID(), slug, name: name.trim(), dateCreated: '' });
+        category = (await categories.findBySlug(slug)) as Category;
+    }
+    return { category: category.name, categoryId: category.id };
+};
+
+// Keeps the order of the names, dropping blanks and repeats of the same tag
+export const normalizeKeywords = async (names: string[], db: Database = defaultDb): Promise<{ keywords: string[]; tagIds: string[] }> => {
+    const bySlug = new Map<string, string>();
+    for (const name of names) {
+        const slug = getTagSlug(name);
+        if (slug && !bySlug.has(slug)) bySlug.set(slug, name.trim());
+    }
+    if (bySlug.size === 0) return { keywords: [], tagIds: [] };
+
+    const tags = new TagRepository(db);
+    const slugs = [...bySlug.keys()];
+    const existing = new Set((await tags.findBySlugs(slugs)).map(tag => tag.slug));
+    for (const slug of slugs.filter(slug => !existing.has(slug))) {
+        await tags.insertIfMissing({ id: randomUUID(), slug, name: bySlug.get(slug) as string, dateCreated: '' });
+    }
+
+    const found = new Map((await tags.findBySlugs(slugs)).map(tag => [tag.slug, tag]));
+    const ordered = slugs.map(slug => found.get(slug) as Tag);
+    return { keywords: ordered.map(tag => tag.name), tagIds: ordered.map(tag => tag.id) };
+};
+
+// The post with its category and keywords matched up, plus the tags to link it to
+export const normalizePost = async (post: BlogPost, db: Database = defaultDb): Promise<{ post: BlogPost; tagIds: string[] }> => {
+    const { category, categoryId } = await normalizeCategory(post.category, db);
+    const { keywords, tagIds } = await normalizeKeywords(post.keywords || [], db);
+    return { post: { ...post, category, categoryId: categoryId ?? undefined, keywords }, tagIds };
+};
+
+// Same for a patch. tagIds is only set when the patch changes the keywords.
+export const normalizePostPatch = async (
+    patch: PostPatch,
+    db: Database = defaultDb
+): Promise<{ patch: PostPatch & { categoryId?: string | null }; tagIds?: string[] }> => {
+    let normalized: PostPatch & { categoryId?: string | null } = patch;
+    if (patch.category !== undefined) {
+        normalized = { ...normalized, ...(await normalizeCategory(patch.category, db)) };
+    }
+    if (patch.keywords === undefined) return { patch: normalized };
+
+    const { keywords, tagIds } = await normalizeKeywords(patch.keywords, db);
+    return { patch: { ...normalized, keywords }, tagIds };
+};
+
+// Breadcrumb trail for a category name, just the name itself when it is new
+export const getCategoryPathByName = async (name: string): Promise<Pick<Category, 'slug' | 'name'>[]> => {
+    const categories = await categoryRepository.findAll();
+    const category = categories.find(candidate => candidate.slug === getCategorySlug(name));
+    return category ? getCategoryPath(categories, category.id) : [{ slug: getCategorySlug(name), name }];
+};
+
+export const getCategoryPathById = async (categoryId: string | undefined): Promise<Category[]> => {
+    if (!categoryId) return [];
+    return getCategoryPath(await categoryRepository.findAll(), categoryId);
+};
+
+// Everything a category page shows. Posts from nested categories are included.
+export const getCategoryListing = async (slug: string) => {
+    const categories = await categoryRepository.findAll();
+    const category = categories.find(candidate => candidate.slug === slug);
+    if (!category) return null;
+
+    return {
+        category,
+        path: getCategoryPath(categories, category.id),
+        subcategories: categories.filter(candidate => candidate.parentId === category.id),
+        posts: await postRepository.findPublishedInCategories(getDescendantIds(categories, category.id))
+    };
+};
+
+export const getTagListing = async (slug: string) => {
+    const tag = await tagRepository.findBySlug(slug);
+    if (!tag) return null;
+    return { tag, posts: await postRepository.findPublishedByTag(tag.id) };
+};
+
+// Checks a category about to be saved. Its slug always follows the name.
+export const checkCategory = async (category: Category): Promise<FieldError[]> => {
+    const errors: FieldError[] = [];
+    const slug = getCategorySlug(category.name);
+    if (await categoryRepository.isSlugTaken(slug, category.id)) {
+        errors.push({ field: 'name', message: 'is already used by another category' });
+    }
+
+    if (category.parentId) {
+        const categories = await categoryRepository.findAll();
+        if (!categories.some(candidate => candidate.id === category.parentId)) {
+            errors.push({ field: 'parentId', message: 'must be an existing category' });
+        } else if (getDescendantIds(categories, category.id).includes(category.parentId)) {
+            errors.push({ field: 'parentId', message: 'cannot be the category itself or one nested below it' });
+        }
+    }
+    return errors;
+};
+
+// Creates or updates a category. A new name is carried over to its posts.
+export const saveCategory = async (input: Category): Promise<Category | null> => {
+    const category = { ...input, name: input.name.trim(), slug: getCategorySlug(input.name) };
+    return defaultDb.transaction(async tx => {
+        const categories = new CategoryRepository(tx);
+        const existing = await categories.findById(category.id);
+        if (!existing) {
+            await categories.insertIfMissing(category);
+        } else {
+            await categories.update(category);
+            if (existing.name !== category.name) {
+                await new PostRepository(tx).reassignCategory(category.id, category);
+            }
+        }
+        return categories.findById(category.id);
+    });
+};
+
+// Nested categories move up a level. Only trashed posts can still be filed
+// under it, they keep the name and are matched up again when restored and saved.
+export const deleteCategory = async (id: string): Promise<boolean> => {
+    return defaultDb.transaction(async tx => {
+        const categories = new CategoryRepository(tx);
+        const category = await categories.findById(id);
+        if (!category) return false;
+
+        await categories.reparentChildren(id, category.parentId || null);
+        await new PostRepository(tx).reassignCategory(id, null);
+        return categories.delete(id);
+    });
+};
+
+export const checkCategoryMerge = async (sourceId: string, targetId: string): Promise<FieldError[]> => {
+    const categories = await categoryRepository.findAll();
+    if (!categories.some(category => category.id === targetId)) {
+        return [{ field: 'targetId', message: 'must be an existing category' }];
+    }
+    if (getDescendantIds(categories, sourceId).includes(targetId)) {
+        return [{ field: 'targetId', message: 'cannot be the category itself or one nested below it' }];
+    }
+    return [];
+};
+
+// Files the source's posts and nested categories under the target, then
+// deletes the source. Returns the target.
+export const mergeCategories = async (sourceId: string, targetId: string): Promise<Category | null> => {
+    return defaultDb.transaction(async tx => {
+        const categories = new CategoryRepository(tx);
+        const target = await categories.findById(targetId);
+        if (!target) return null;
+
+        await new PostRepository(tx).reassignCategory(sourceId, target);
+        await categories.reparentChildren(sourceId, target.id);
+        await categories.delete(sourceId);
+        return categories.findById(targetId);
+    });
+};
+
+// Swaps one tag for another in the keywords of every post carrying it, or
+// drops it when replacement is null. The replacement may already be there.
+const replaceKeyword = async (db: Database, tag: Tag, replacement: string | null) => {
+    const posts = new PostRepository(db);
+    for (const postId of await new TagRepository(db).findPostIds(tag.id)) {
+        const post = await posts.findById(postId);
+        if (!post) continue;
+
+        const replaced = post.keywords.flatMap(keyword => getTagSlug(keyword) !== tag.slug ? [keyword] : replacement ? [replacement] : []);
+        const keywords = replaced.filter((keyword, idx) => replaced.findIndex(other => getTagSlug(other) === getTagSlug(keyword)) === idx);
+        await posts.updateFields(postId, { keywords }, { includeTrashed: true });
+    }
+};
+
+export const checkTag = async (tag: Tag): Promise<FieldError[]> => {
+    if (await tagRepository.isSlugTaken(getTagSlug(tag.name), tag.id)) {
+        return [{ field: 'name', message: 'is already used by another tag' }];
+    }
+    return [];
+};
+
+// Creates or updates a tag. A new name is carried over to the posts' keywords.
+export const saveTag = async (input: Tag): Promise<Tag | null> => {
+    const tag = { ...input, name: input.name.trim(), slug: getTagSlug(input.name) };
+    return defaultDb.transaction(async tx => {
+        const tags = new TagRepository(tx);
+        const existing = await tags.findById(tag.id);
+        if (!existing) {
+            await tags.insertIfMissing(tag);
+        } else {
+            await tags.update(tag);
+            if (existing.name !== tag.name) await replaceKeyword(tx, existing, tag.name);
+        }
+        return tags.findById(tag.id);
+    });
+};
+
+// Also removes it from the keywords of the posts carrying it
+export const deleteTag = async (id: string): Promise<boolean> => {
+    return defaultDb.transaction(async tx => {
+        const tags = new TagRepository(tx);
+        const tag = await tags.findById(id);
+        if (!tag) return false;
+
+        await replaceKeyword(tx, tag, null);
+        return tags.delete(id);
+    });
+};
+
+// Gives the source's posts the target instead, then deletes the source. Returns the target.
+export const mergeTags = async (sourceId: string, targetId: string): Promise<Tag | null> => {
+    return defaultDb.transaction(async tx => {
+        const tags = new TagRepository(tx);
+        const [source, target] = [await tags.findById(sourceId), await tags.findById(targetId)];
+        if (!source || !target) return null;
+
+        await replaceKeyword(tx, source, target.name);
+        await tags.movePosts(source.id, target.id);
+        await tags.delete(source.id);
+        return tags.findById(target.id);
+    });
+};
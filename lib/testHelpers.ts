@@ -0,0 +1,21 @@
+import { BlogPost } from '../types';
+
+// Tests that go through the shared repositories get an in-memory SQLite
+// database. Import this module before any other from lib so the environment
+// is set before the database module loads.
+process.env.DB_DRIVER = 'sqlite';
+process.env.SQLITE_PATH = ':memory:';
+
+export const makePost = (id: string, content: string, overrides: Partial<BlogPost> = {}): BlogPost => ({
+    id,
+    slug: id,
+    title: `Post ${id}`,
+    excerpt: '',
+    content,
+    keywords: [],
+    category: 'General',
+    dateCreated: new Date().toISOString(),
+    status: 'published',
+    readTime: '1 min read',
+    ...overrides
+});
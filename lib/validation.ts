@@ -0,0 +1,382 @@
+import { NextResponse } from 'next/server';
+import { Author, BlogPost, BulkPostAction, BulkPostRequest, Category, ChangeSet, GeneratedTopic, NicheSchedule, PostAutosave, ScheduledSlot, Series, Tag, TrainingData } from '../types';
+import type { PostPatch } from './repositories';
+
+export type FieldValidator = (value: unknown) => boolean;
+
+export interface FieldRule {
+    validate: FieldValidator;
+    message: string;
+    // Optional fields may be missing or null
+    optional?: boolean;
+}
+
+// One rule per field of T, so adding a field to an interface in types.ts
+// fails to compile until its validator is written.
+export type Schema<T> = { [K in keyof Required<T>]: FieldRule };
+
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+export const POST_STATUSES: BlogPost['status'][] = ['draft', 'published', 'scheduled'];
+export const SLOT_STATUSES: ScheduledSlot['status'][] = ['pending_selection', 'ready', 'publishing', 'published', 'skipped'];
+// The rest are set by the publisher and the scheduler only
+export const CLIENT_SLOT_STATUSES: ScheduledSlot['status'][] = ['pending_selection', 'ready'];
+export const TRAINING_DATA_TYPES: TrainingData['type'][] = ['style', 'knowledge', 'example'];
+export const BULK_POST_ACTIONS: BulkPostAction[] = ['publish', 'unpublish', 'schedule', 'setCategory', 'addKeywords', 'removeKeywords', 'delete'];
+
+export const MAX_BULK_POSTS = 500;
+// Items saved plus ids deleted in one change set
+export const MAX_CHANGE_SET_ITEMS = 1000;
+
+export const isString: FieldValidator = value => typeof value === 'string';
+export const isNonEmptyString: FieldValidator = value => typeof value === 'string' && value.trim() !== '';
+export const isNullableString: FieldValidator = value => value === null || typeof value === 'string';
+export const isBoolean: FieldValidator = value => typeof value === 'boolean';
+export const isObject: FieldValidator = value => !!value && typeof value === 'object' && !Array.isArray(value);
+export const isStringArray: FieldValidator = value => Array.isArray(value) && value.every(item => typeof item === 'string');
+export const isDateString: FieldValidator = value => typeof value === 'string' && !isNaN(new Date(value).getTime());
+export const isNullableDateString: FieldValidator = value => value === null || isDateString(value);
+export const isHttpUrl: FieldValidator = value => typeof value === 'string' && /^https?:\/\/\S+$/i.test(value);
+export const isName: FieldValidator = value => isNonEmptyString(value) && (value as string).length <= 255;
+export const isSlug: FieldValidator = value => typeof value === 'string' && /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(value);
+export const isOneOf = (values: readonly unknown[]): FieldValidator => value => values.includes(value);
+export const isNumberBetween = (min: number, max: number): FieldValidator =>
+    value => typeof value === 'number' && value >= min && value <= max;
+export const isIntegerBetween = (min: number, max: number): FieldValidator =>
+    value => Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+// YYYY-MM-DD, DATE columns read back through the API also carry a time part
+export const isDayString: FieldValidator = value =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}(T.*)?$/.test(value) && isDateString(value.substring(0, 10));
+
+// HH:mm, TIME columns read back through the API also carry seconds
+export const isTimeString: FieldValidator = value =>
+    typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value);
+
+const isAeoQuestions: FieldValidator = value =>
+    Array.isArray(value) && value.every(item => item && typeof item.question === 'string' && typeof item.answer === 'string');
+
+const isTopic: FieldValidator = value => isObject(value) && isNonEmptyString((value as GeneratedTopic).topic);
+
+const required = (validate: FieldValidator, message: string): FieldRule => ({ validate, message });
+const optional = (validate: FieldValidator, message: string): FieldRule => ({ validate, message, optional: true });
+
+export const blogPostSchema: Schema<BlogPost> = {
+    id: required(isNonEmptyString, 'must be a non-empty string'),
+    // May be empty, the server derives one from the title
+    slug: required(isString, 'must be a string'),
+    title: required(isNonEmptyString, 'must be a non-empty string'),
+    excerpt: required(isString, 'must be a string'),
+    content: required(isString, 'must be a string'),
+    keywords: required(value => isStringArray(value) && (value as string[]).every(keyword => keyword.length <= 255), 'must be an array of strings of at most 255 characters'),
+    category: required(isName, 'must be a non-empty string of at most 255 characters'),
+    // Managed by the server, accepted so clients can send back what they read
+    categoryId: optional(isString, 'must be a string'),
+    seriesId: optional(isString, 'must be a string'),
+    seriesPart: optional(isIntegerBetween(1, Number.MAX_SAFE_INTEGER), 'must be a positive integer'),
+    dateCreated: optional(isDateString, 'must be an ISO date string'),
+    dateModified: optional(isDateString, 'must be an ISO date string'),
+    datePublished: optional(isDateString, 'must be an ISO date string'),
+    deletedAt: optional(isDateString, 'must be an ISO date string'),
+    // The version the client loaded, the save fails with a conflict when it is out of date
+    version: optional(isIntegerBetween(1, Number.MAX_SAFE_INTEGER), 'must be a positive integer'),
+    status: required(isOneOf(POST_STATUSES), `must be one of ${POST_STATUSES.join(', ')}`),
+    readTime: required(isString, 'must be a string'),
+    coverImage: optional(isString, 'must be a string'),
+    scheduledDate: optional(isDateString, 'must be an ISO date string'),
+    geoTargeting: optional(isString, 'must be a string'),
+    aeoQuestions: optional(isAeoQuestions, 'must be an array of { question, answer } strings'),
+    seoScore: optional(isNumberBetween(0, 100), 'must be a number between 0 and 100'),
+    commercialIntent: optional(isBoolean, 'must be a boolean'),
+    isHowTo: optional(isBoolean, 'must be a boolean'),
+    steps: optional(isStringArray, 'must be an array of strings'),
+    authorId: optional(isNonEmptyString, 'must be a non-empty string')
+};
+
+// Fields a PATCH may touch. Nullable columns accept null to clear them.
+export const postPatchSchema: Schema<PostPatch> = {
+    slug: required(isSlug, 'must be lowercase letters, numbers and dashes'),
+    title: blogPostSchema.title,
+    excerpt: blogPostSchema.excerpt,
+    content: blogPostSchema.content,
+    keywords: blogPostSchema.keywords,
+    category: blogPostSchema.category,
+    status: blogPostSchema.status,
+    readTime: blogPostSchema.readTime,
+    coverImage: required(isNullableString, 'must be a string or null'),
+    scheduledDate: required(isNullableDateString, 'must be an ISO date string or null'),
+    geoTargeting: required(isNullableString, 'must be a string or null'),
+    aeoQuestions: required(isAeoQuestions, blogPostSchema.aeoQuestions.message),
+    seoScore: required(isNumberBetween(0, 100), blogPostSchema.seoScore.message),
+    commercialIntent: required(isBoolean, 'must be a boolean'),
+    isHowTo: required(isBoolean, 'must be a boolean'),
+    steps: required(isStringArray, 'must be an array of strings'),
+    authorId: required(value => value === null || isNonEmptyString(value), 'must be a non-empty string or null')
+};
+
+export const nicheScheduleSchema: Schema<NicheSchedule> = {
+    id: required(isNonEmptyString, 'must be a non-empty string'),
+    niche: required(isNonEmptyString, 'must be a non-empty string'),
+    startDate: required(isDayString, 'must be a YYYY-MM-DD date'),
+    endDate: required(isDayString, 'must be a YYYY-MM-DD date'),
+    launchTime: required(isTimeString, 'must be an HH:mm time'),
+    suggestionCount: optional(isIntegerBetween(1, 20), 'must be an integer between 1 and 20')
+};
+
+// The schema checks each date on its own, this checks them against each other
+export const hasValidDateRange = (schedule: NicheSchedule) =>
+    schedule.endDate.substring(0, 10) >= schedule.startDate.substring(0, 10);
+
+export const scheduledSlotSchema: Schema<ScheduledSlot> = {
+    id: required(isNonEmptyString, 'must be a non-empty string'),
+    scheduleId: required(isNonEmptyString, 'must be a non-empty string'),
+    niche: required(isNonEmptyString, 'must be a non-empty string'),
+    date: required(isDayString, 'must be a YYYY-MM-DD date'),
+    time: required(isTimeString, 'must be an HH:mm time'),
+    status: required(isOneOf(CLIENT_SLOT_STATUSES), `must be one of ${CLIENT_SLOT_STATUSES.join(', ')}`),
+    suggestedTopics: required(value => Array.isArray(value) && value.every(isTopic), 'must be an array of topics'),
+    selectedTopic: optional(isTopic, 'must be a topic with a non-empty topic string'),
+    suggestionCount: nicheScheduleSchema.suggestionCount
+};
+
+export const trainingDataSchema: Schema<TrainingData> = {
+    id: required(isNonEmptyString, 'must be a non-empty string'),
+    title: required(isNonEmptyString, 'must be a non-empty string'),
+    content: required(isString, 'must be a string'),
+    type: required(isOneOf(TRAINING_DATA_TYPES), `must be one of ${TRAINING_DATA_TYPES.join(', ')}`),
+    // Display text, not necessarily a parseable date
+    dateAdded: required(isString, 'must be a string')
+};
+
+export const authorSchema: Schema<Author> = {
+    id: required(isNonEmptyString, 'must be a non-empty string'),
+    // May be empty, the server derives one from the name
+    slug: required(value => value === '' || isSlug(value), 'must be lowercase letters, numbers and dashes'),
+    name: required(isName, 'must be a non-empty string of at most 255 characters'),
+    jobTitle: optional(value => isString(value) && (value as string).length <= 255, 'must be a string of at most 255 characters'),
+    bio: optional(isString, 'must be a string'),
+    avatarUrl: optional(value => value === '' || isHttpUrl(value), 'must be an http(s) URL'),
+    socialProfiles: required(value => Array.isArray(value) && value.every(isHttpUrl), 'must be an array of http(s) URLs'),
+    // Managed by the server, accepted so clients can send back what they read
+    dateCreated: optional(isDateString, 'must be an ISO date string')
+};
+
+// Slugs are derived from the name, parentId is checked against the other categories by the route
+export const categorySchema: Schema<Category> = {
+    id: required(isNonEmptyString, 'must be a non-empty string'),
+    name: required(isName, 'must be a non-empty string of at most 255 characters'),
+    description: optional(isString, 'must be a string'),
+    parentId: optional(isString, 'must be a string'),
+    // Managed by the server, accepted so clients can send back what they read
+    slug: optional(isString, 'must be a string'),
+    dateCreated: optional(isDateString, 'must be an ISO date string'),
+    postCount: optional(value => typeof value === 'number', 'must be a number')
+};
+
+export const tagSchema: Schema<Tag> = {
+    id: categorySchema.id,
+    name: categorySchema.name,
+    description: categorySchema.description,
+    slug: categorySchema.slug,
+    dateCreated: categorySchema.dateCreated,
+    postCount: categorySchema.postCount
+};
+
+export interface TaxonomyMergeRequest {
+    targetId: string;
+}
+
+export const taxonomyMergeSchema: Schema<TaxonomyMergeRequest> = {
+    targetId: required(isNonEmptyString, 'must be a non-empty string')
+};
+
+// Parts are set through their own route, postIds is accepted so clients can send back what they read
+export const seriesSchema: Schema<Series> = {
+    id: required(isNonEmptyString, 'must be a non-empty string'),
+    // May be empty, the server derives one from the title
+    slug: required(value => value === '' || isSlug(value), 'must be lowercase letters, numbers and dashes'),
+    title: required(isName, 'must be a non-empty string of at most 255 characters'),
+    description: optional(isString, 'must be a string'),
+    dateCreated: optional(isDateString, 'must be an ISO date string'),
+    postIds: optional(isStringArray, 'must be an array of strings')
+};
+
+export interface SeriesPostsRequest {
+    postIds: string[];
+}
+
+export const seriesPostsSchema: Schema<SeriesPostsRequest> = {
+    postIds: required(
+        value => isStringArray(value) && new Set(value as string[]).size === (value as string[]).length,
+        'must be an array of distinct post ids'
+    )
+};
+
+// The post as it is in the editor, which may not be saved yet
+export interface InternalLinkRequest {
+    postId?: string;
+    title: string;
+    content: string;
+    keywords: string[];
+    category?: string;
+}
+
+export const internalLinkRequestSchema: Schema<InternalLinkRequest> = {
+    postId: optional(isString, 'must be a string'),
+    title: required(isString, 'must be a string'),
+    content: required(isString, 'must be a string'),
+    keywords: required(isStringArray, 'must be an array of strings'),
+    category: optional(isString, 'must be a string')
+};
+
+export interface LinkAuditRequest {
+    postIds?: string[];
+}
+
+export const linkAuditRequestSchema: Schema<LinkAuditRequest> = {
+    postIds: optional(isStringArray, 'must be an array of post ids')
+};
+
+export type PostAutosaveInput = Pick<PostAutosave, 'topic' | 'post'>;
+
+export const postAutosaveSchema: Schema<PostAutosaveInput> = {
+    topic: optional(value => typeof value === 'string' && value.length <= 255, 'must be a string of at most 255 characters'),
+    // Work in progress, checked against blogPostSchema once it is saved
+    post: required(isObject, 'must be an object')
+};
+
+// Which of the optional fields an action needs is checked by the route
+export const bulkPostSchema: Schema<BulkPostRequest> = {
+    ids: required(
+        value => isStringArray(value) && (value as string[]).length > 0 && (value as string[]).length <= MAX_BULK_POSTS,
+        `must be an array of 1 to ${MAX_BULK_POSTS} post ids`
+    ),
+    action: required(isOneOf(BULK_POST_ACTIONS), `must be one of ${BULK_POST_ACTIONS.join(', ')}`),
+    category: optional(isName, 'must be a non-empty string of at most 255 characters'),
+    keywords: optional(value => isStringArray(value) && (value as string[]).every(isNonEmptyString), 'must be an array of non-empty strings'),
+    startAt: optional(isDateString, 'must be an ISO date string'),
+    intervalMinutes: optional(isIntegerBetween(0, 60 * 24 * 30), 'must be a whole number of minutes, at most 30 days')
+};
+
+// Checks a request body against a schema and returns one error per invalid field.
+// Full bodies ignore fields the schema does not know, partial bodies (PATCH)
+// reject them and must contain at least one field.
+export const validateObject = <T>(body: unknown, schema: Schema<T>, options: { partial?: boolean } = {}): FieldError[] => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return [{ field: 'body', message: 'must be a JSON object' }];
+    }
+
+    const values = body as Record<string, unknown>;
+    const rules = schema as Record<string, FieldRule>;
+    const errors: FieldError[] = [];
+
+    for (const [field, rule] of Object.entries(rules)) {
+        const value = values[field];
+        if (value === undefined || (value === null && rule.optional)) {
+            if (!rule.optional && !options.partial) errors.push({ field, message: 'is required' });
+            continue;
+        }
+        if (!rule.validate(value)) errors.push({ field, message: rule.message });
+    }
+
+    if (options.partial) {
+        for (const field of Object.keys(values)) {
+            if (!(field in rules)) errors.push({ field, message: 'is not an updatable field' });
+        }
+        if (Object.keys(values).length === 0) errors.push({ field: 'body', message: 'must contain at least one field' });
+    }
+
+    return errors;
+};
+
+// Checks a batch sync body of the form { created: T[], updated: T[], deleted: string[] },
+// all three optional. Item errors are reported with their position, e.g. created[2].niche.
+export const validateChangeSet = <T>(body: unknown, itemSchema: Schema<T>): FieldError[] => {
+    if (!isObject(body)) return [{ field: 'body', message: 'must be a JSON object' }];
+
+    const values = body as Record<string, unknown>;
+    const errors: FieldError[] = [];
+    const savedIds = new Set<unknown>();
+    let count = 0;
+
+    for (const field of ['created', 'updated']) {
+        const items = values[field];
+        if (items === undefined) continue;
+        if (!Array.isArray(items)) {
+            errors.push({ field, message: 'must be an array' });
+            continue;
+        }
+        items.forEach((item, index) => {
+            for (const error of validateObject(item, itemSchema)) {
+                const path = error.field === 'body' ? '' : `.${error.field}`;
+                errors.push({ field: `${field}[${index}]${path}`, message: error.message });
+            }
+            if (isObject(item)) savedIds.add((item as Record<string, unknown>).id);
+        });
+        count += items.length;
+    }
+
+    const deleted = values.deleted;
+    if (deleted !== undefined) {
+        if (!isStringArray(deleted)) {
+            errors.push({ field: 'deleted', message: 'must be an array of ids' });
+        } else {
+            const conflicting = (deleted as string[]).filter(id => savedIds.has(id));
+            if (conflicting.length > 0) {
+                errors.push({ field: 'deleted', message: `must not contain ids that are also being saved (${conflicting.join(', ')})` });
+            }
+            count += (deleted as string[]).length;
+        }
+    }
+
+    if (count > MAX_CHANGE_SET_ITEMS) {
+        errors.push({ field: 'body', message: `must not contain more than ${MAX_CHANGE_SET_ITEMS} changes` });
+    }
+
+    return errors;
+};
+
+export const validationErrorResponse = (details: FieldError[]) =>
+    NextResponse.json({ error: 'Validation failed', details }, { status: 400 });
+
+const readJsonBody = async (request: Request): Promise<{ body: unknown; response?: undefined } | { body?: undefined; response: NextResponse }> => {
+    try {
+        return { body: await request.json() };
+    } catch {
+        return { response: NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 }) };
+    }
+};
+
+// Reads and validates a JSON request body. Routes return `response` as-is when
+// it is set, otherwise `data` is the validated body.
+export const parseRequestBody = async <T>(
+    request: Request,
+    schema: Schema<T>,
+    options: { partial?: boolean } = {}
+): Promise<{ data: T; response?: undefined } | { data?: undefined; response: NextResponse }> => {
+    const { body, response } = await readJsonBody(request);
+    if (response) return { response };
+
+    const errors = validateObject(body, schema, options);
+    if (errors.length > 0) return { response: validationErrorResponse(errors) };
+    return { data: body as T };
+};
+
+// Like parseRequestBody for batch sync bodies, with missing lists filled in as empty
+export const parseChangeSet = async <T>(
+    request: Request,
+    itemSchema: Schema<T>
+): Promise<{ data: ChangeSet<T>; response?: undefined } | { data?: undefined; response: NextResponse }> => {
+    const { body, response } = await readJsonBody(request);
+    if (response) return { response };
+
+    const errors = validateChangeSet(body, itemSchema);
+    if (errors.length > 0) return { response: validationErrorResponse(errors) };
+
+    const { created = [], updated = [], deleted = [] } = body as Partial<ChangeSet<T>>;
+    return { data: { created, updated, deleted } };
+};
+
@@ -0,0 +1,16 @@
+export const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// CDATA can't contain its own terminator, so split it across two sections
+export const cdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+export const xmlResponse = (body: string, contentType: string = 'application/xml') => new Response(body, {
+    headers: {
+        'Content-Type': `${contentType}; charset=utf-8`,
+        'Cache-Control': 'public, max-age=0, s-maxage=600, stale-while-revalidate=3600'
+    }
+});
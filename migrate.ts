@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+import db from './lib/db';
+import { getMigrationStatus, runMigrations } from './lib/migrations';
+
+const USAGE = 'Usage: npm run migrate -- <up|status>';
+
+async function migrate(command: string) {
+    try {
+        if (command === 'status') {
+            const statuses = await getMigrationStatus(db);
+            console.table(statuses.map(status => ({
+                version: status.version,
+                name: status.name,
+                state: status.state,
+                appliedAt: status.appliedAt || ''
+            })));
+            return;
+        }
+
+        const applied = await runMigrations(db);
+        console.log(applied.length > 0
+            ? `Applied ${applied.length} migration(s).`
+            : 'Database is up to date.');
+    } finally {
+        await db.close();
+    }
+}
+
+const command = process.argv[2] || 'up';
+if (command !== 'up' && command !== 'status') {
+    console.error(USAGE);
+    process.exit(1);
+}
+
+migrate(command)
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error('Migration failed:', error);
+        process.exit(1);
+    });
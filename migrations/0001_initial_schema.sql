@@ -0,0 +1,78 @@
+-- Every table the app relies on, in its current shape. Uses IF NOT EXISTS so a
+-- database that was kept up to date with the old migrate-db.js is adopted as-is.
+
+CREATE TABLE IF NOT EXISTS posts (
+    id VARCHAR(255) PRIMARY KEY,
+    slug VARCHAR(255) NULL,
+    title TEXT NOT NULL,
+    excerpt TEXT,
+    content LONGTEXT,
+    keywords TEXT,
+    category VARCHAR(255),
+    dateCreated DATETIME,
+    -- NULL until the row is first changed, readers fall back to dateCreated
+    dateModified DATETIME NULL DEFAULT NULL ON UPDATE CURRENT_TIMESTAMP,
+    status VARCHAR(50),
+    readTime VARCHAR(50),
+    coverImage LONGTEXT,
+    geoTargeting VARCHAR(255),
+    seoScore INT,
+    aeoQuestions JSON,
+    commercialIntent BOOLEAN DEFAULT FALSE,
+    isHowTo BOOLEAN DEFAULT FALSE,
+    steps LONGTEXT,
+    scheduledDate DATETIME NULL,
+    UNIQUE INDEX uniq_posts_slug (slug),
+    INDEX idx_posts_status_date (status, dateCreated)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- Old slugs of renamed posts, so /blog/<old-slug> can redirect
+CREATE TABLE IF NOT EXISTS post_slug_redirects (
+    slug VARCHAR(255) PRIMARY KEY,
+    postId VARCHAR(255) NOT NULL,
+    dateCreated DATETIME,
+    INDEX idx_post_slug_redirects_post (postId)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- Append-only snapshots of every post save
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    postId VARCHAR(255) NOT NULL,
+    title TEXT,
+    snapshot LONGTEXT NOT NULL,
+    reason VARCHAR(50) NOT NULL DEFAULT 'save',
+    restoredFromId INT NULL,
+    dateCreated DATETIME NOT NULL,
+    INDEX idx_post_revisions_post (postId, id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+CREATE TABLE IF NOT EXISTS schedules (
+    id VARCHAR(255) PRIMARY KEY,
+    niche VARCHAR(255),
+    startDate DATE,
+    endDate DATE,
+    launchTime TIME,
+    suggestionCount INT DEFAULT 5
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+CREATE TABLE IF NOT EXISTS scheduled_slots (
+    id VARCHAR(255) PRIMARY KEY,
+    scheduleId VARCHAR(255),
+    niche VARCHAR(255),
+    date DATE,
+    time TIME,
+    status VARCHAR(50),
+    suggestedTopics JSON,
+    selectedTopic JSON,
+    suggestionCount INT DEFAULT 5,
+    INDEX idx_scheduled_slots_schedule (scheduleId),
+    INDEX idx_scheduled_slots_status_date (status, date, time)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+CREATE TABLE IF NOT EXISTS training_data (
+    id VARCHAR(255) PRIMARY KEY,
+    title VARCHAR(255),
+    content TEXT,
+    type VARCHAR(50),
+    dateAdded VARCHAR(50)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
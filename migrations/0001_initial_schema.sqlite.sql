@@ -0,0 +1,85 @@
+-- SQLite version of 0001_initial_schema.sql: no table options or inline
+-- indexes, AUTOINCREMENT instead of AUTO_INCREMENT, and a trigger in place of
+-- ON UPDATE CURRENT_TIMESTAMP. Dates are stored as ISO-8601 strings.
+
+CREATE TABLE IF NOT EXISTS posts (
+    id VARCHAR(255) PRIMARY KEY,
+    slug VARCHAR(255) NULL,
+    title TEXT NOT NULL,
+    excerpt TEXT,
+    content LONGTEXT,
+    keywords TEXT,
+    category VARCHAR(255),
+    dateCreated DATETIME,
+    -- NULL until the row is first changed, readers fall back to dateCreated
+    dateModified DATETIME NULL DEFAULT NULL,
+    status VARCHAR(50),
+    readTime VARCHAR(50),
+    coverImage LONGTEXT,
+    geoTargeting VARCHAR(255),
+    seoScore INT,
+    aeoQuestions JSON,
+    commercialIntent BOOLEAN DEFAULT FALSE,
+    isHowTo BOOLEAN DEFAULT FALSE,
+    steps LONGTEXT,
+    scheduledDate DATETIME NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_posts_slug ON posts (slug);
+CREATE INDEX IF NOT EXISTS idx_posts_status_date ON posts (status, dateCreated);
+
+CREATE TRIGGER IF NOT EXISTS posts_date_modified AFTER UPDATE ON posts
+FOR EACH ROW WHEN NEW.dateModified IS OLD.dateModified
+BEGIN
+    UPDATE posts SET dateModified = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
+
+-- Old slugs of renamed posts, so /blog/<old-slug> can redirect
+CREATE TABLE IF NOT EXISTS post_slug_redirects (
+    slug VARCHAR(255) PRIMARY KEY,
+    postId VARCHAR(255) NOT NULL,
+    dateCreated DATETIME
+);
+CREATE INDEX IF NOT EXISTS idx_post_slug_redirects_post ON post_slug_redirects (postId);
+
+-- Append-only snapshots of every post save
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    postId VARCHAR(255) NOT NULL,
+    title TEXT,
+    snapshot LONGTEXT NOT NULL,
+    reason VARCHAR(50) NOT NULL DEFAULT 'save',
+    restoredFromId INT NULL,
+    dateCreated DATETIME NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post ON post_revisions (postId, id);
+
+CREATE TABLE IF NOT EXISTS schedules (
+    id VARCHAR(255) PRIMARY KEY,
+    niche VARCHAR(255),
+    startDate DATE,
+    endDate DATE,
+    launchTime TIME,
+    suggestionCount INT DEFAULT 5
+);
+
+CREATE TABLE IF NOT EXISTS scheduled_slots (
+    id VARCHAR(255) PRIMARY KEY,
+    scheduleId VARCHAR(255),
+    niche VARCHAR(255),
+    date DATE,
+    time TIME,
+    status VARCHAR(50),
+    suggestedTopics JSON,
+    selectedTopic JSON,
+    suggestionCount INT DEFAULT 5
+);
+CREATE INDEX IF NOT EXISTS idx_scheduled_slots_schedule ON scheduled_slots (scheduleId);
+CREATE INDEX IF NOT EXISTS idx_scheduled_slots_status_date ON scheduled_slots (status, date, time);
+
+CREATE TABLE IF NOT EXISTS training_data (
+    id VARCHAR(255) PRIMARY KEY,
+    title VARCHAR(255),
+    content TEXT,
+    type VARCHAR(50),
+    dateAdded VARCHAR(50)
+);
@@ -0,0 +1,11 @@
+-- When a post first went live, stamped by the server from now on. Until now the
+-- site showed dateCreated as the publish date, so published posts start from it.
+-- dateModified is set to itself so the backfill doesn't count as an edit.
+ALTER TABLE posts ADD COLUMN datePublished DATETIME NULL DEFAULT NULL;
+UPDATE posts SET datePublished = dateCreated, dateModified = dateModified WHERE status = 'published';
+CREATE INDEX idx_posts_status_published ON posts (status, datePublished);
+
+-- Training data was dated with toLocaleDateString() (M/D/YYYY), store ISO instead
+UPDATE training_data
+SET dateAdded = DATE_FORMAT(STR_TO_DATE(dateAdded, '%c/%e/%Y'), '%Y-%m-%dT00:00:00.000Z')
+WHERE dateAdded REGEXP '^[0-9]{1,2}/[0-9]{1,2}/[0-9]{4}$';
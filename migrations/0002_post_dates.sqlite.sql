@@ -0,0 +1,22 @@
+-- When a post first went live, stamped by the server from now on. Until now the
+-- site showed dateCreated as the publish date, so published posts start from it.
+-- The dateModified trigger is paused so the backfill doesn't count as an edit.
+ALTER TABLE posts ADD COLUMN datePublished DATETIME NULL DEFAULT NULL;
+
+DROP TRIGGER IF EXISTS posts_date_modified;
+UPDATE posts SET datePublished = dateCreated WHERE status = 'published';
+CREATE TRIGGER IF NOT EXISTS posts_date_modified AFTER UPDATE ON posts
+FOR EACH ROW WHEN NEW.dateModified IS OLD.dateModified
+BEGIN
+    UPDATE posts SET dateModified = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
+
+CREATE INDEX IF NOT EXISTS idx_posts_status_published ON posts (status, datePublished);
+
+-- Training data was dated with toLocaleDateString() (M/D/YYYY), store ISO instead
+UPDATE training_data
+SET dateAdded = printf('%04d-%02d-%02dT00:00:00.000Z',
+    CAST(substr(dateAdded, -4) AS INTEGER),
+    CAST(substr(dateAdded, 1, instr(dateAdded, '/') - 1) AS INTEGER),
+    CAST(substr(dateAdded, instr(dateAdded, '/') + 1, length(dateAdded) - instr(dateAdded, '/') - 5) AS INTEGER))
+WHERE dateAdded GLOB '[0-9]*/[0-9]*/[0-9][0-9][0-9][0-9]';
@@ -0,0 +1,9 @@
+-- In-progress editor state, one row per post and replaced on every autosave.
+-- Posts that were never saved are found again by the topic they were written for.
+CREATE TABLE post_autosaves (
+    postId VARCHAR(255) PRIMARY KEY,
+    topic VARCHAR(255) NULL,
+    snapshot LONGTEXT NOT NULL,
+    dateSaved DATETIME NOT NULL
+);
+CREATE INDEX idx_post_autosaves_topic ON post_autosaves (topic);
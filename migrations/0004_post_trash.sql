@@ -0,0 +1,4 @@
+-- Set while a post is in the trash. Trashed posts are hidden everywhere but the
+-- Trash view and purged for good once the retention period has passed.
+ALTER TABLE posts ADD COLUMN deletedAt DATETIME NULL DEFAULT NULL;
+CREATE INDEX idx_posts_deleted ON posts (deletedAt);
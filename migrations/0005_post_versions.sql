@@ -0,0 +1,3 @@
+-- Bumped on every update. The editor sends back the version it loaded and the
+-- save is rejected when someone else saved the post in the meantime.
+ALTER TABLE posts ADD COLUMN version INT NOT NULL DEFAULT 1;
@@ -0,0 +1,16 @@
+-- People posts are attributed to. Posts without an author are credited to the
+-- site itself.
+CREATE TABLE authors (
+    id VARCHAR(255) PRIMARY KEY,
+    slug VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    jobTitle VARCHAR(255) NULL,
+    bio TEXT NULL,
+    avatarUrl TEXT NULL,
+    socialProfiles JSON NULL,
+    dateCreated DATETIME NOT NULL
+);
+CREATE UNIQUE INDEX uniq_authors_slug ON authors (slug);
+
+ALTER TABLE posts ADD COLUMN authorId VARCHAR(255) NULL DEFAULT NULL;
+CREATE INDEX idx_posts_author ON posts (authorId);
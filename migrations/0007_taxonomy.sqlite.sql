@@ -0,0 +1,61 @@
+-- Categories and tags become their own records. Posts keep the names in
+-- category and keywords for display, categoryId and post_tags are what queries
+-- use. Categories nest through parentId, tags are flat.
+CREATE TABLE categories (
+    id VARCHAR(255) PRIMARY KEY,
+    slug VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    description TEXT NULL,
+    parentId VARCHAR(255) NULL,
+    dateCreated DATETIME NOT NULL
+);
+CREATE UNIQUE INDEX uniq_categories_slug ON categories (slug);
+CREATE INDEX idx_categories_parent ON categories (parentId);
+
+CREATE TABLE tags (
+    id VARCHAR(255) PRIMARY KEY,
+    slug VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    description TEXT NULL,
+    dateCreated DATETIME NOT NULL
+);
+CREATE UNIQUE INDEX uniq_tags_slug ON tags (slug);
+
+CREATE TABLE post_tags (
+    postId VARCHAR(255) NOT NULL,
+    tagId VARCHAR(255) NOT NULL,
+    PRIMARY KEY (postId, tagId)
+);
+CREATE INDEX idx_post_tags_tag ON post_tags (tagId);
+
+ALTER TABLE posts ADD COLUMN categoryId VARCHAR(255) NULL DEFAULT NULL;
+CREATE INDEX idx_posts_category ON posts (categoryId);
+
+-- Backfill from the free-text values. Slugs follow getCategorySlug and double
+-- as ids, names that only differ in case or spacing collapse into one record.
+-- The dateModified trigger is paused so the backfill doesn't count as an edit.
+INSERT INTO categories (id, slug, name, dateCreated)
+SELECT LOWER(REPLACE(TRIM(category), ' ', '-')), LOWER(REPLACE(TRIM(category), ' ', '-')), MIN(TRIM(category)), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+FROM posts
+WHERE category IS NOT NULL AND TRIM(category) <> ''
+GROUP BY LOWER(REPLACE(TRIM(category), ' ', '-'));
+
+DROP TRIGGER IF EXISTS posts_date_modified;
+UPDATE posts SET categoryId = LOWER(REPLACE(TRIM(category), ' ', '-'))
+WHERE category IS NOT NULL AND TRIM(category) <> '';
+CREATE TRIGGER IF NOT EXISTS posts_date_modified AFTER UPDATE ON posts
+FOR EACH ROW WHEN NEW.dateModified IS OLD.dateModified
+BEGIN
+    UPDATE posts SET dateModified = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
+
+INSERT INTO tags (id, slug, name, dateCreated)
+SELECT LOWER(REPLACE(TRIM(k.value), ' ', '-')), LOWER(REPLACE(TRIM(k.value), ' ', '-')), MIN(TRIM(k.value)), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+FROM posts p, json_each(CASE WHEN json_valid(p.keywords) THEN p.keywords ELSE '[]' END) k
+WHERE k.type = 'text' AND TRIM(k.value) <> ''
+GROUP BY LOWER(REPLACE(TRIM(k.value), ' ', '-'));
+
+INSERT OR IGNORE INTO post_tags (postId, tagId)
+SELECT p.id, LOWER(REPLACE(TRIM(k.value), ' ', '-'))
+FROM posts p, json_each(CASE WHEN json_valid(p.keywords) THEN p.keywords ELSE '[]' END) k
+WHERE k.type = 'text' AND TRIM(k.value) <> '';
@@ -0,0 +1,14 @@
+-- Multi-part guides. A post belongs to at most one series, seriesPart orders
+-- the parts (gaps are fine, "Part N of M" counts positions).
+CREATE TABLE series (
+    id VARCHAR(255) PRIMARY KEY,
+    slug VARCHAR(255) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT NULL,
+    dateCreated DATETIME NOT NULL
+);
+CREATE UNIQUE INDEX uniq_series_slug ON series (slug);
+
+ALTER TABLE posts ADD COLUMN seriesId VARCHAR(255) NULL DEFAULT NULL;
+ALTER TABLE posts ADD COLUMN seriesPart INT NULL DEFAULT NULL;
+CREATE INDEX idx_posts_series ON posts (seriesId, seriesPart);
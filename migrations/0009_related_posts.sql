@@ -0,0 +1,9 @@
+-- Related posts are computed from every published post, so each row records
+-- the fingerprint of the posts it was computed from and is recomputed once
+-- that no longer matches.
+CREATE TABLE related_posts_cache (
+    postId VARCHAR(255) PRIMARY KEY,
+    fingerprint VARCHAR(64) NOT NULL,
+    relatedIds TEXT NOT NULL,
+    dateComputed DATETIME NOT NULL
+);
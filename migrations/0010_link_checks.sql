@@ -0,0 +1,15 @@
+-- Results of the last link audit, one row per URL found in a post. URLs can be
+-- longer than an index allows, rows are keyed by a hash of the URL instead.
+CREATE TABLE link_checks (
+    postId VARCHAR(255) NOT NULL,
+    urlHash CHAR(40) NOT NULL,
+    url TEXT NOT NULL,
+    kind VARCHAR(16) NOT NULL,
+    isBroken BOOLEAN NOT NULL DEFAULT FALSE,
+    statusCode INT NULL,
+    error TEXT NULL,
+    postVersion INT NOT NULL,
+    dateChecked DATETIME NOT NULL,
+    PRIMARY KEY (postId, urlHash)
+);
+CREATE INDEX idx_link_checks_broken ON link_checks (isBroken);
@@ -0,0 +1,3 @@
+-- When the publisher claimed a slot. Claims left behind by a tick that died
+-- mid-publish are released once they are old enough.
+ALTER TABLE scheduled_slots ADD COLUMN claimedAt DATETIME NULL DEFAULT NULL;
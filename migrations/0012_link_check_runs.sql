@@ -0,0 +1,16 @@
+-- Link audits requested from the dashboard. They are queued here and run by
+-- the scheduler tick, one at a time. postIds is a JSON array, NULL for an
+-- audit of every post.
+CREATE TABLE link_check_runs (
+    id VARCHAR(255) PRIMARY KEY,
+    postIds TEXT NULL,
+    status VARCHAR(16) NOT NULL,
+    postsChecked INT NULL,
+    urlsChecked INT NULL,
+    broken INT NULL,
+    error TEXT NULL,
+    dateCreated DATETIME NOT NULL,
+    dateStarted DATETIME NULL,
+    dateFinished DATETIME NULL
+);
+CREATE INDEX idx_link_check_runs_status ON link_check_runs (status, dateCreated);
@@ -0,0 +1,10 @@
+-- The term frequencies of each post's title, excerpt and body, written when
+-- the post is saved so related posts can be scored without reading every
+-- post body. terms is a JSON object of term to frequency. Related posts are
+-- scored from them on each request, which replaces their cache.
+CREATE TABLE post_terms (
+    postId VARCHAR(255) PRIMARY KEY,
+    terms TEXT NOT NULL,
+    dateComputed DATETIME NOT NULL
+);
+DROP TABLE related_posts_cache;
@@ -0,0 +1,8 @@
+-- The related posts of each published post, computed from post_terms by the
+-- scheduler tick. Rows are cleared whenever a post's terms are stored or a
+-- post is published, trashed or restored, and computed again on the next tick.
+CREATE TABLE related_posts_cache (
+    postId VARCHAR(255) PRIMARY KEY,
+    relatedIds TEXT NOT NULL,
+    dateComputed DATETIME NOT NULL
+);
@@ -1,9 +1,9 @@
-import pool from './lib/db';
+import db from './lib/db';
 
 async function testConnection() {
     try {
         console.log('Testing DB connection...');
-        const [rows] = await pool.query('SELECT 1 as result');
+        const rows = await db.query('SELECT 1 as result');
         console.log('Connection successful:', rows);
         process.exit(0);
     } catch (error) {
@@ -4,9 +4,17 @@ export interface BlogPost {
   title: string;
   excerpt: string;
   content: string; // Markdown content
-  keywords: string[];
-  category: string;
-  dateCreated: string;
+  keywords: string[]; // Tag names, the server replaces them with the matching tags' names on save
+  category: string; // Category name, matched to an existing category (or a new one) on save
+  categoryId?: string; // Set by the server from category
+  seriesId?: string; // Managed through /api/series, saving a post leaves it as it is
+  seriesPart?: number; // Orders the parts of a series
+  dateCreated: string; // ISO-8601, set by the server when the post is first saved
+  dateModified?: string; // ISO-8601, set by the database whenever the row changes
+  datePublished?: string; // ISO-8601, set by the server when the post first goes live
+  deletedAt?: string; // ISO-8601, set while the post is in the trash
+  version?: number; // Bumped by the server on every update, sent back on save to detect conflicts
+  authorId?: string; // Byline, posts without one are credited to the site
   status: 'draft' | 'published' | 'scheduled';
   readTime: string;
   coverImage?: string;
@@ -23,6 +31,169 @@ export interface BlogPost {
   steps?: string[]; // detected steps for HowTo
 }
 
+// A post without its content, as list views get it from GET /api/posts?fields=summary
+export type PostSummary = Omit<BlogPost, 'content'>;
+
+export interface Author {
+  id: string;
+  slug: string; // Public page at /blog/author/<slug>
+  name: string;
+  jobTitle?: string;
+  bio?: string;
+  avatarUrl?: string;
+  socialProfiles: string[]; // Profile URLs, emitted as sameAs
+  dateCreated: string; // ISO-8601, set by the server
+}
+
+export interface Category {
+  id: string;
+  slug: string; // Public page at /blog/category/<slug>, always derived from the name
+  name: string;
+  description?: string;
+  parentId?: string; // Categories nest, breadcrumbs follow the chain up to the root
+  dateCreated: string; // ISO-8601, set by the server
+  postCount?: number; // Posts filed directly under it, only in taxonomy listings
+}
+
+export interface Tag {
+  id: string;
+  slug: string; // Public page at /blog/tag/<slug>, always derived from the name
+  name: string;
+  description?: string;
+  dateCreated: string; // ISO-8601, set by the server
+  postCount?: number; // Only in taxonomy listings
+}
+
+export interface Series {
+  id: string;
+  slug: string; // Public landing page at /blog/series/<slug>
+  title: string;
+  description?: string;
+  dateCreated: string; // ISO-8601, set by the server
+  postIds: string[]; // The parts in order, trashed posts left out
+}
+
+// An AI outline for a new series, reviewed before the parts are drafted
+export interface SeriesPlan {
+  niche: string;
+  title: string;
+  description: string;
+  parts: { title: string; summary: string }[];
+}
+
+// A link the editor can add from the post being written to a published post
+export interface InternalLinkSuggestion {
+  postId: string;
+  slug: string;
+  title: string;
+  anchorText: string; // As written in the post, or the target's title when the post doesn't mention it
+  inContent: boolean; // Whether anchorText was found in the post's text
+  reasons: string[];
+  isOrphan: boolean; // No other published post links to the target yet
+}
+
+// A published post no other published post links to
+export type OrphanPost = Pick<BlogPost, 'id' | 'slug' | 'title' | 'category' | 'dateCreated' | 'datePublished'>;
+
+// A published post suggested as further reading at the end of another
+export type RelatedPost = Pick<BlogPost, 'id' | 'slug' | 'title' | 'excerpt' | 'category' | 'coverImage' | 'readTime' | 'dateCreated' | 'datePublished'>;
+
+// The outcome of checking one URL found in a post
+export interface LinkCheck {
+  postId: string;
+  url: string;
+  kind: 'link' | 'image' | 'cover'; // An <a href> or <img src> in the content, or the cover image
+  isBroken: boolean;
+  statusCode?: number; // Missing when the request failed or timed out
+  error?: string;
+  postVersion: number; // The version of the post that was checked
+  dateChecked: string;
+}
+
+// A broken URL with the post it was found in, for the link health dashboard
+export interface BrokenLink extends LinkCheck {
+  postTitle: string;
+  postSlug: string;
+  isOutdated: boolean; // The post was edited since it was checked
+}
+
+export interface PostLinkReport {
+  postId: string;
+  checks: LinkCheck[];
+  isOutdated: boolean;
+  isQueued: boolean; // A queued or running audit covers the post
+  dateChecked?: string;
+}
+
+export interface LinkCheckRun {
+  id: string;
+  postIds?: string[]; // Missing for an audit of every post
+  status: 'queued' | 'running' | 'done' | 'failed'; // Queued runs wait for the next scheduler tick
+  postsChecked?: number; // The totals are set once the run is done
+  urlsChecked?: number;
+  broken?: number;
+  error?: string; // Why the run failed
+  dateCreated: string;
+  dateStarted?: string;
+  dateFinished?: string;
+}
+
+export interface LinkAuditOverview {
+  postsChecked: number;
+  urlsChecked: number;
+  lastChecked?: string;
+  broken: BrokenLink[];
+  latestRun?: LinkCheckRun;
+}
+
+export interface PostRevision {
+  id: number;
+  postId: string;
+  title: string;
+  reason: 'save' | 'restore';
+  restoredFromId?: number;
+  dateCreated: string;
+  post?: BlogPost; // Full snapshot, only included when a single revision is requested
+}
+
+export interface PostAutosave {
+  postId: string;
+  topic?: string; // Only for posts that were never saved, so the editor can find them again
+  post: Partial<BlogPost>; // Editor state as-is, validated once the post is saved
+  dateSaved: string;
+}
+
+export type BulkPostAction = 'publish' | 'unpublish' | 'schedule' | 'setCategory' | 'addKeywords' | 'removeKeywords' | 'delete';
+
+export interface BulkPostRequest {
+  ids: string[];
+  action: BulkPostAction;
+  category?: string; // setCategory
+  keywords?: string[]; // addKeywords, removeKeywords
+  startAt?: string; // schedule: ISO time of the first post, the rest follow in the order of ids
+  intervalMinutes?: number; // schedule: gap between consecutive posts
+}
+
+export interface BulkPostResult {
+  succeeded: string[];
+  posts: BlogPost[]; // The posts as updated, empty for delete
+  failures: { id: string; error: string }[];
+}
+
+// Body of the 409 a save gets when someone else saved the post since it was loaded
+export interface PostConflict {
+  error: string;
+  current: BlogPost;
+}
+
+// What changed in a collection since the client last loaded it. Created and
+// updated items are both saved as-is, deleted holds ids.
+export interface ChangeSet<T> {
+  created: T[];
+  updated: T[];
+  deleted: string[];
+}
+
 export interface GeneratedTopic {
   topic: string;
   relevance: string;
@@ -56,7 +227,7 @@ export interface TrainingModule {
   actionableTakeaways: string[];
 }
 
-export type ViewState = 'dashboard' | 'generator' | 'editor' | 'reader' | 'settings' | 'training' | 'storage';
+export type ViewState = 'dashboard' | 'generator' | 'editor' | 'reader' | 'settings' | 'training' | 'storage' | 'trash' | 'authors' | 'taxonomy' | 'series' | 'links';
 
 export interface GenerationParams {
   niche: string;
@@ -69,7 +240,7 @@ export interface TrainingData {
   title: string;
   content: string; // The "training" text (style guide, fact sheet, etc.)
   type: 'style' | 'knowledge' | 'example';
-  dateAdded: string;
+  dateAdded: string; // ISO-8601
 }
 
 export interface ScheduledSlot {
@@ -78,7 +249,8 @@ export interface ScheduledSlot {
   niche: string;
   date: string; // YYYY-MM-DD
   time: string; // HH:mm
-  status: 'pending_selection' | 'ready' | 'published';
+  status: 'pending_selection' | 'ready' | 'publishing' | 'published' | 'skipped'; // Skipped slots are never published or listed
   suggestedTopics: GeneratedTopic[]; // List of 3-5 suggestions
   selectedTopic?: GeneratedTopic; // The chosen one
+  suggestionCount?: number; // Copied from the schedule
 }
\ No newline at end of file
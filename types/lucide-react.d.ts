@@ -6,6 +6,7 @@ declare module 'lucide-react' {
     }
     export type Icon = FC<IconProps>;
 
+    export const AlertTriangle: Icon;
     export const ArrowLeft: Icon;
     export const ArrowRight: Icon;
     export const Book: Icon;
@@ -27,6 +28,7 @@ declare module 'lucide-react' {
     export const Globe: Icon;
     export const GraduationCap: Icon;
     export const HelpCircle: Icon;
+    export const History: Icon;
     export const Image: Icon;
     export const LayoutDashboard: Icon;
     export const Lightbulb: Icon;
@@ -37,6 +39,7 @@ declare module 'lucide-react' {
     export const PenTool: Icon;
     export const Plus: Icon;
     export const RefreshCw: Icon;
+    export const RotateCcw: Icon;
     export const Search: Icon;
     export const Settings: Icon;
     export const Share2: Icon;
@@ -49,5 +52,6 @@ declare module 'lucide-react' {
     export const Upload: Icon;
     export const User: Icon;
     export const Wand2: Icon;
+    export const X: Icon;
     export const Zap: Icon;
 }